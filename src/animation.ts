@@ -0,0 +1,112 @@
+import type { ClusterMotion, Config } from './config';
+import { createRandom, hashSeed } from './random';
+import type { ClusterCenter } from './types';
+
+/**
+ * Animation of a wallpaper (config.animation) as a seamless loop.
+ * Time runs from 0 to 1 over the loop, and every motion is periodic in it,
+ * so the last frame leads straight back into the first. The model computes
+ * the symbols of a frame from the moved clusters (see WallpaperModel.getFrame).
+ */
+
+export const CLUSTER_MOTIONS: readonly ClusterMotion[] = ['none', 'drift', 'pulse', 'orbit'];
+
+/** Width of the cluster influence over which a symbol fades between pale and colored */
+const COLOR_FADE_WIDTH = 0.25;
+/** Share of the loop an icon takes to cross-fade to its other icon */
+const ICON_FADE_DURATION = 0.1;
+/** Separates the motion of a cluster from the other random values of the seed */
+const MOTION_SALT = 0x4d4f54;
+
+/** The clusters of a frame and their radius, by cluster index */
+export interface AnimatedClusters {
+  clusters: ClusterCenter[];
+  radii: number[];
+}
+
+/** Number of frames of the loop */
+export function getFrameCount(animation: Config['animation']): number {
+  return Math.max(1, Math.round(animation.duration * animation.fps));
+}
+
+/** Whether the loop changes anything; otherwise every frame shows the still image */
+export function isAnimated(animation: Config['animation']): boolean {
+  return animation.motion !== 'none' || animation.iconSwap > 0;
+}
+
+function smoothstep(t: number): number {
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * Cluster positions and radii at 'time' (0 to 1). Speed and direction of
+ * every cluster are seeded by its index, so the clusters move independently
+ * but the same seed always gives the same animation.
+ */
+export function animateClusters(
+  clusters: ClusterCenter[],
+  config: Config,
+  seed: number,
+  time: number
+): AnimatedClusters {
+  const { motion, amplitude } = config.animation;
+  const { maxRadius } = config.clustering;
+  const turn = Math.PI * 2 * time;
+  const radii: number[] = [];
+  const moved = clusters.map((cluster, i) => {
+    const random = createRandom(hashSeed(seed, i, MOTION_SALT));
+    const phaseA = random() * Math.PI * 2;
+    const phaseB = random() * Math.PI * 2;
+    const direction = random() < 0.5 ? -1 : 1;
+    radii.push(maxRadius);
+    switch (motion) {
+      case 'drift': {
+        // Two harmonics give a wandering path that still closes after one loop
+        const dx = 0.7 * Math.sin(turn + phaseA) + 0.3 * Math.sin(2 * turn + phaseB);
+        const dy = 0.7 * Math.sin(direction * turn + phaseB) + 0.3 * Math.sin(3 * turn + phaseA);
+        return { ...cluster, x: cluster.x + amplitude * dx, y: cluster.y + amplitude * dy };
+      }
+      case 'orbit':
+        return {
+          ...cluster,
+          x: cluster.x + amplitude * Math.cos(direction * turn + phaseA),
+          y: cluster.y + amplitude * Math.sin(direction * turn + phaseA),
+        };
+      case 'pulse':
+        radii[i] = Math.max(0, maxRadius + amplitude * Math.sin(turn + phaseA));
+        return { ...cluster };
+      default:
+        return { ...cluster };
+    }
+  });
+  return { clusters: moved, radii };
+}
+
+/**
+ * Smooth version of the random test 'threshold < value' of still images:
+ * 0 for a value of 0, 1 for a value of 1 and a soft ramp in between, so
+ * symbols fade instead of popping while the clusters move.
+ * 'threshold' is the fixed random value (0 to 1) of the symbol.
+ */
+export function getFadeAmount(value: number, threshold: number): number {
+  const start = threshold * (1 - COLOR_FADE_WIDTH);
+  return smoothstep(Math.min(1, Math.max(0, (value - start) / COLOR_FADE_WIDTH)));
+}
+
+/**
+ * How far a symbol has cross-faded to its other icon at 'time', from 0 to 1.
+ * It switches at 'swapTime' and switches back half a loop later.
+ */
+export function getIconSwapAmount(time: number, swapTime: number): number {
+  const phase = (((time - swapTime) % 1) + 1) % 1;
+  if (phase < ICON_FADE_DURATION) {
+    return smoothstep(phase / ICON_FADE_DURATION);
+  }
+  if (phase < 0.5) {
+    return 1;
+  }
+  if (phase < 0.5 + ICON_FADE_DURATION) {
+    return 1 - smoothstep((phase - 0.5) / ICON_FADE_DURATION);
+  }
+  return 0;
+}
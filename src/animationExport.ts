@@ -0,0 +1,180 @@
+import { getFrameCount } from './animation';
+import { ApngEncoder } from './apngEncoder';
+import type { Config } from './config';
+import { RenderCancelledError } from './exportRenderer';
+import { GifEncoder } from './gifEncoder';
+import type { CanvasFactory, IconAtlas } from './iconAtlas';
+import { drawContent, type RenderContext } from './render';
+import type { Grid } from './types';
+import { createZip, type ZipEntry } from './zip';
+
+/**
+ * Export of the animation loop (config.animation) as video, animated
+ * image or single frames. Frames are drawn on the main thread, one after
+ * the other, so only one frame exists uncompressed at a time.
+ */
+
+/**
+ * Output of the animation export:
+ * - webm: video, recorded in real time by the browser's MediaRecorder
+ * - gif: animated GIF, at most 256 colors per frame
+ * - apng: animated PNG in full color and with transparency
+ * - png-frames: ZIP of numbered PNG files, e.g. for video editors
+ */
+export type AnimationFormat = 'webm' | 'gif' | 'apng' | 'png-frames';
+
+export const ANIMATION_FORMATS: { format: AnimationFormat; label: string; extension: string }[] = [
+  { format: 'webm', label: 'WebM video', extension: '.webm' },
+  { format: 'gif', label: 'Animated GIF', extension: '.gif' },
+  { format: 'apng', label: 'Animated PNG', extension: '.apng' },
+  { format: 'png-frames', label: 'PNG frames (ZIP)', extension: '_frames.zip' },
+];
+
+/** Recorder formats in order of preference */
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+const WEBM_BITS_PER_SECOND = 8_000_000;
+
+export interface AnimationJob {
+  config: Config;
+  /** Grids of all layers at a time from 0 to 1 (see getLayerFrames) */
+  getFrame: (time: number) => Grid[];
+  /** Pixel ratio of the output */
+  scale: number;
+  atlas: IconAtlas | null;
+}
+
+const createCanvas: CanvasFactory = (width, height) => new OffscreenCanvas(width, height);
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new RenderCancelledError();
+  }
+}
+
+function wait(milliseconds: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, Math.max(0, milliseconds)));
+}
+
+function drawFrame(ctx: RenderContext, job: AnimationJob, time: number): void {
+  const { config, scale } = job;
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  drawContent(
+    ctx,
+    job.getFrame(time),
+    config,
+    config.canvasSize.width,
+    config.canvasSize.height,
+    createCanvas,
+    job.atlas
+  );
+}
+
+/**
+ * Records the loop as WebM. MediaRecorder takes the timing from the clock,
+ * so the frames are drawn in real time and the export takes as long as
+ * the loop; frames that take longer to draw stretch the video.
+ */
+async function recordWebm(
+  job: AnimationJob,
+  width: number,
+  height: number,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> {
+  const mimeType =
+    typeof MediaRecorder === 'undefined'
+      ? undefined
+      : WEBM_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) {
+    throw new Error('This browser cannot record WebM videos. Export an animated image instead.');
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  // Frame rate 0: a frame is only captured when requested
+  const stream = canvas.captureStream(0);
+  const [track] = stream.getVideoTracks() as CanvasCaptureMediaStreamTrack[];
+  const recorder = new MediaRecorder(stream, {
+    mimeType,
+    videoBitsPerSecond: WEBM_BITS_PER_SECOND,
+  });
+  const parts: Blob[] = [];
+  recorder.addEventListener('dataavailable', (event) => parts.push(event.data));
+  const stopped = new Promise((resolve) => recorder.addEventListener('stop', resolve));
+
+  const { fps } = job.config.animation;
+  const frameCount = getFrameCount(job.config.animation);
+  recorder.start();
+  const start = performance.now();
+  try {
+    for (let frame = 0; frame < frameCount; frame++) {
+      throwIfAborted(signal);
+      drawFrame(ctx, job, frame / frameCount);
+      track.requestFrame();
+      onProgress((frame + 1) / frameCount);
+      await wait(start + ((frame + 1) * 1000) / fps - performance.now());
+    }
+  } finally {
+    recorder.stop();
+    track.stop();
+  }
+  await stopped;
+  throwIfAborted(signal);
+  return new Blob(parts, { type: mimeType.split(';')[0] });
+}
+
+/**
+ * Renders the animation loop in the given format.
+ * 'onProgress' receives the finished share from 0 to 1 after every frame.
+ * @throws RenderCancelledError if 'signal' is aborted
+ */
+export async function renderAnimation(
+  job: AnimationJob,
+  format: AnimationFormat,
+  onProgress: (progress: number) => void = () => {},
+  signal?: AbortSignal
+): Promise<Blob> {
+  const { config, scale } = job;
+  const width = Math.round(config.canvasSize.width * scale);
+  const height = Math.round(config.canvasSize.height * scale);
+  if (format === 'webm') {
+    return recordWebm(job, width, height, onProgress, signal);
+  }
+
+  const { fps } = config.animation;
+  const frameCount = getFrameCount(config.animation);
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  const gif = format === 'gif' ? new GifEncoder(width, height, fps) : null;
+  const apng = format === 'apng' ? new ApngEncoder(width, height, frameCount, fps) : null;
+  const entries: ZipEntry[] = [];
+  const digits = Math.max(4, String(frameCount).length);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    throwIfAborted(signal);
+    drawFrame(ctx, job, frame / frameCount);
+    if (format === 'png-frames') {
+      const png = await canvas.convertToBlob({ type: 'image/png' });
+      entries.push({
+        name: `frame_${String(frame + 1).padStart(digits, '0')}.png`,
+        data: new Uint8Array(await png.arrayBuffer()),
+      });
+    } else {
+      const pixels = ctx.getImageData(0, 0, width, height).data;
+      gif?.addFrame(pixels);
+      await apng?.addFrame(pixels);
+    }
+    onProgress((frame + 1) / frameCount);
+    // Lets the page update the progress and react to the cancel button
+    await wait(0);
+  }
+  throwIfAborted(signal);
+  if (gif) {
+    return gif.finish();
+  }
+  if (apng) {
+    return apng.finish();
+  }
+  return new Blob([createZip(entries)], { type: 'application/zip' });
+}
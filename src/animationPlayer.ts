@@ -0,0 +1,261 @@
+import { getFrameCount } from './animation';
+import { ANIMATION_FORMATS, renderAnimation, type AnimationFormat } from './animationExport';
+import type { ClusterMotion, Config } from './config';
+import { RenderCancelledError } from './exportRenderer';
+import type { IconAtlas } from './iconAtlas';
+import { createLayerModels, getLayerFrames } from './layers';
+import type { WallpaperModel } from './model';
+import type { Grid } from './types';
+
+/**
+ * The animation panel: loop settings, playback in the preview with a
+ * timeline scrubber, and the video and animated image export.
+ * Edits config.animation directly. While the animated preview is on,
+ * the page draws the frame from getFrameGrids instead of the still grid.
+ */
+export class AnimationPlayer {
+  private model: WallpaperModel;
+  private config: Config;
+  private getSeed: () => number;
+  private getIconAtlas: () => IconAtlas | null;
+  private getFileName: () => string;
+  private triggerDownload: (href: string, fileName: string) => void;
+  private draw: () => void;
+
+  private motionSelect = document.getElementById('animationMotion') as HTMLSelectElement;
+  private amplitudeInput = document.getElementById('animationAmplitude') as HTMLInputElement;
+  private durationInput = document.getElementById('animationDuration') as HTMLInputElement;
+  private fpsInput = document.getElementById('animationFps') as HTMLInputElement;
+  private iconSwapInput = document.getElementById('animationIconSwap') as HTMLInputElement;
+  private previewInput = document.getElementById('animatePreview') as HTMLInputElement;
+  private playButton = document.getElementById('playAnimation') as HTMLButtonElement;
+  private timeInput = document.getElementById('animationTime') as HTMLInputElement;
+  private timeLabel = document.getElementById('animationTimeValue') as HTMLSpanElement;
+  private formatSelect = document.getElementById('animationFormat') as HTMLSelectElement;
+  private downloadButton = document.getElementById('downloadAnimation') as HTMLButtonElement;
+
+  /** Position in the loop, from 0 to 1 */
+  private time = 0;
+  /** Id of the pending animation frame while playing, null while paused */
+  private frameRequest: number | null = null;
+  private lastTimestamp: number | null = null;
+  /** Models of the further grid layers; created when the first frame is needed */
+  private layerModels: (WallpaperModel | null)[] | null = null;
+  /** Cancels the running export; null while no export is running */
+  private abort: AbortController | null = null;
+
+  constructor(
+    model: WallpaperModel,
+    config: Config,
+    getSeed: () => number,
+    getIconAtlas: () => IconAtlas | null,
+    getFileName: () => string,
+    triggerDownload: (href: string, fileName: string) => void,
+    draw: () => void
+  ) {
+    this.model = model;
+    this.config = config;
+    this.getSeed = getSeed;
+    this.getIconAtlas = getIconAtlas;
+    this.getFileName = getFileName;
+    this.triggerDownload = triggerDownload;
+    this.draw = draw;
+
+    for (const { format, label } of ANIMATION_FORMATS) {
+      this.formatSelect.add(new Option(label, format));
+    }
+
+    for (const control of [
+      this.motionSelect,
+      this.amplitudeInput,
+      this.durationInput,
+      this.fpsInput,
+      this.iconSwapInput,
+    ]) {
+      control.addEventListener('change', () => {
+        this.readFields();
+        this.update();
+        this.redraw();
+      });
+    }
+    this.iconSwapInput.addEventListener('input', () => this.updateLabels());
+
+    this.previewInput.addEventListener('change', () => {
+      if (this.previewInput.checked) {
+        this.play();
+      } else {
+        this.pause();
+        this.draw();
+      }
+    });
+    this.playButton.addEventListener('click', () => {
+      if (this.frameRequest !== null) {
+        this.pause();
+      } else {
+        this.previewInput.checked = true;
+        this.play();
+      }
+    });
+    // Scrubbing pauses the playback and shows the chosen moment
+    this.timeInput.addEventListener('input', () => {
+      this.pause();
+      this.previewInput.checked = true;
+      this.time = parseFloat(this.timeInput.value);
+      this.updateLabels();
+      this.draw();
+    });
+
+    this.downloadButton.addEventListener('click', () => {
+      this.download();
+    });
+    (document.getElementById('cancelAnimationExport') as HTMLButtonElement).addEventListener(
+      'click',
+      () => this.abort?.abort()
+    );
+
+    this.update();
+  }
+
+  /** Writes config.animation into the fields */
+  public update(): void {
+    const { animation } = this.config;
+    this.motionSelect.value = animation.motion;
+    this.amplitudeInput.value = animation.amplitude.toString();
+    this.durationInput.value = animation.duration.toString();
+    this.fpsInput.value = animation.fps.toString();
+    this.iconSwapInput.value = animation.iconSwap.toString();
+    this.updateLabels();
+  }
+
+  /** The grids must be generated again, e.g. after a new seed or changed layers */
+  public reset(): void {
+    this.layerModels = null;
+  }
+
+  /** Grids of the current frame, or null while the still image is shown */
+  public getFrameGrids(): Grid[] | null {
+    if (!this.previewInput.checked) {
+      return null;
+    }
+    return this.getFrame(this.time);
+  }
+
+  private getFrame(time: number): Grid[] {
+    this.layerModels ??= createLayerModels(this.config, this.getSeed());
+    return getLayerFrames(this.config, this.model, this.layerModels, time);
+  }
+
+  private readFields(): void {
+    const { animation } = this.config;
+    const number = (input: HTMLInputElement, fallback: number, min: number, max: number) => {
+      const value = parseFloat(input.value);
+      return Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+    };
+    animation.motion = this.motionSelect.value as ClusterMotion;
+    animation.amplitude = number(this.amplitudeInput, animation.amplitude, 0, Infinity);
+    animation.duration = number(this.durationInput, animation.duration, 0.5, 60);
+    animation.fps = Math.round(number(this.fpsInput, animation.fps, 1, 60));
+    animation.iconSwap = number(this.iconSwapInput, animation.iconSwap, 0, 1);
+  }
+
+  private updateLabels(): void {
+    const { duration } = this.config.animation;
+    this.timeInput.value = this.time.toString();
+    this.timeLabel.textContent =
+      `${(this.time * duration).toFixed(1)} s / ${duration.toFixed(1)} s`;
+    (document.getElementById('animationIconSwapValue') as HTMLSpanElement).textContent =
+      `${Math.round(parseFloat(this.iconSwapInput.value) * 100)}%`;
+    this.playButton.textContent = this.frameRequest !== null ? 'Pause' : 'Play';
+    (document.getElementById('animationFrameCount') as HTMLSpanElement).textContent =
+      `${getFrameCount(this.config.animation)} frames`;
+  }
+
+  /** Shows the changed animation right away, if it is shown at all */
+  private redraw(): void {
+    if (this.previewInput.checked && this.frameRequest === null) {
+      this.draw();
+    }
+  }
+
+  private play(): void {
+    if (this.frameRequest !== null) {
+      return;
+    }
+    this.lastTimestamp = null;
+    this.frameRequest = requestAnimationFrame(this.tick);
+    this.updateLabels();
+  }
+
+  private pause(): void {
+    if (this.frameRequest !== null) {
+      cancelAnimationFrame(this.frameRequest);
+      this.frameRequest = null;
+    }
+    this.updateLabels();
+  }
+
+  private tick = (timestamp: number): void => {
+    if (this.lastTimestamp !== null) {
+      const elapsed = (timestamp - this.lastTimestamp) / 1000;
+      this.time = (this.time + elapsed / this.config.animation.duration) % 1;
+    }
+    this.lastTimestamp = timestamp;
+    this.frameRequest = requestAnimationFrame(this.tick);
+    this.updateLabels();
+    this.draw();
+  };
+
+  /** Shows the export progress (0 to 1), or hides it if progress is null */
+  private showProgress(progress: number | null): void {
+    const container = document.getElementById('animationProgress') as HTMLDivElement;
+    const bar = document.getElementById('animationProgressBar') as HTMLProgressElement;
+    container.hidden = progress === null;
+    this.downloadButton.disabled = progress !== null;
+    bar.value = progress ?? 0;
+  }
+
+  /** Renders the loop at the export scale and downloads it */
+  private async download(): Promise<void> {
+    if (this.abort) {
+      return;
+    }
+    const format = this.formatSelect.value as AnimationFormat;
+    const { extension } = ANIMATION_FORMATS.find((entry) => entry.format === format)!;
+    const { exportScale } = this.config.canvasSize;
+    // Playback would compete with the export for the main thread
+    const wasPlaying = this.frameRequest !== null;
+    this.pause();
+    this.abort = new AbortController();
+    this.showProgress(0);
+
+    try {
+      const blob = await renderAnimation(
+        {
+          config: this.config,
+          getFrame: (time) => this.getFrame(time),
+          scale: exportScale,
+          atlas: this.getIconAtlas(),
+        },
+        format,
+        (progress) => this.showProgress(progress),
+        this.abort.signal
+      );
+      const suffix = exportScale === 1 ? '' : `@${exportScale}x`;
+      const url = URL.createObjectURL(blob);
+      this.triggerDownload(url, `${this.getFileName()}${suffix}${extension}`);
+      // Revoke after the click has been handled, otherwise some browsers abort the download
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (error) {
+      if (!(error instanceof RenderCancelledError)) {
+        console.error('Error exporting the animation:', error);
+        window.alert(`The animation could not be exported: ${(error as Error).message}`);
+      }
+    } finally {
+      this.abort = null;
+      this.showProgress(null);
+      if (wasPlaying) {
+        this.play();
+      }
+    }
+  }
+}
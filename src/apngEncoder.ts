@@ -0,0 +1,94 @@
+import { createChunk, createHeader, filterRows, PNG_SIGNATURE } from './pngEncoder';
+
+/**
+ * Animated PNG encoder for the animation export.
+ * Every frame is a complete image; the first one doubles as the still
+ * image viewers without APNG support show. Frames are compressed with the
+ * browser's CompressionStream as they are added.
+ */
+
+/** Frame is drawn over nothing: replaces the previous frame including transparency */
+const DISPOSE_NONE = 0;
+const BLEND_SOURCE = 0;
+
+/** Compresses the data into zlib format in one go */
+async function deflate(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>[]> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return parts;
+    }
+    parts.push(value as Uint8Array<ArrayBuffer>);
+  }
+}
+
+export class ApngEncoder {
+  private width: number;
+  private height: number;
+  private frameCount: number;
+  private fps: number;
+  private chunks: Uint8Array<ArrayBuffer>[] = [];
+  private framesAdded = 0;
+  /** Frame control and frame data chunks share one running number */
+  private sequence = 0;
+
+  /** Every frame is shown 1/fps seconds; the animation loops forever */
+  constructor(width: number, height: number, frameCount: number, fps: number) {
+    this.width = width;
+    this.height = height;
+    this.frameCount = frameCount;
+    this.fps = fps;
+
+    const control = new Uint8Array(8);
+    const view = new DataView(control.buffer);
+    view.setUint32(0, frameCount);
+    view.setUint32(4, 0); // Number of plays: endless
+    this.chunks.push(createHeader(width, height), createChunk('acTL', control));
+  }
+
+  /** Adds the next frame; 'pixels' holds its RGBA data as returned by getImageData */
+  public async addFrame(pixels: Uint8ClampedArray): Promise<void> {
+    if (this.framesAdded >= this.frameCount) {
+      throw new Error('More frames than announced were added.');
+    }
+    const frameControl = new Uint8Array(26);
+    const view = new DataView(frameControl.buffer);
+    view.setUint32(0, this.sequence++);
+    view.setUint32(4, this.width);
+    view.setUint32(8, this.height);
+    // Offsets (8 and 12) stay 0: every frame covers the whole image
+    view.setUint16(20, 1); // Delay numerator ...
+    view.setUint16(22, this.fps); // ... and denominator: 1/fps seconds
+    frameControl[24] = DISPOSE_NONE;
+    frameControl[25] = BLEND_SOURCE;
+    this.chunks.push(createChunk('fcTL', frameControl));
+
+    const compressed = await deflate(filterRows(pixels, this.width));
+    for (const part of compressed) {
+      if (this.framesAdded === 0) {
+        this.chunks.push(createChunk('IDAT', part));
+      } else {
+        // Later frames carry their sequence number in front of the data
+        const data = new Uint8Array(4 + part.length);
+        new DataView(data.buffer).setUint32(0, this.sequence++);
+        data.set(part, 4);
+        this.chunks.push(createChunk('fdAT', data));
+      }
+    }
+    this.framesAdded++;
+  }
+
+  /** Finishes the animation; all announced frames must have been added */
+  public finish(): Blob {
+    if (this.framesAdded !== this.frameCount) {
+      throw new Error(`Only ${this.framesAdded} of ${this.frameCount} frames were added.`);
+    }
+    return new Blob(
+      [PNG_SIGNATURE, ...this.chunks, createChunk('IEND', new Uint8Array(0))],
+      { type: 'image/apng' }
+    );
+  }
+}
@@ -0,0 +1,160 @@
+import type { Config, Layer } from './config';
+import type { AtlasCanvas, CanvasFactory } from './iconAtlas';
+import { getLayerColors } from './layers';
+import { createRandom, hashSeed } from './random';
+import type { RenderContext } from './render';
+
+/**
+ * Background layers (solid, gradients, noise grain, vignette).
+ * The geometry is shared with the SVG export, so both place the
+ * gradients identically.
+ */
+
+export interface GradientStop {
+  offset: number;
+  color: string;
+}
+
+/** Evenly spread stops from the first to the last color */
+export function getGradientStops(colors: string[]): GradientStop[] {
+  return colors.map((color, i) => ({
+    offset: colors.length > 1 ? i / (colors.length - 1) : 0,
+    color,
+  }));
+}
+
+/**
+ * Start and end of a linear gradient at 'angle' degrees, like CSS: the line
+ * runs through the center and is long enough that the corners get the
+ * first and the last color.
+ */
+export function getLinearGradientLine(
+  angle: number,
+  width: number,
+  height: number
+): { x1: number; y1: number; x2: number; y2: number } {
+  const radians = (angle * Math.PI) / 180;
+  const dx = Math.sin(radians);
+  const dy = -Math.cos(radians);
+  const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+  return {
+    x1: width / 2 - dx * half,
+    y1: height / 2 - dy * half,
+    x2: width / 2 + dx * half,
+    y2: height / 2 + dy * half,
+  };
+}
+
+/** Distance from the center to the corners, the outer radius of radial fills */
+export function getCornerRadius(width: number, height: number): number {
+  return Math.hypot(width, height) / 2;
+}
+
+/** Radius at which the vignette starts; 'amount' 1 starts in the center */
+export function getVignetteStart(amount: number, width: number, height: number): number {
+  return getCornerRadius(width, height) * (1 - Math.min(1, Math.max(0, amount)));
+}
+
+/** Side of the grain tile; it repeats over the canvas */
+export const NOISE_TILE_SIZE = 256;
+
+/** Grain tiles by color, strength and seed, so exports in strips reuse them */
+const noiseTiles = new Map<string, AtlasCanvas>();
+const MAX_NOISE_TILES = 16;
+
+/** A tile of random pixels in the color, with random opacity up to 'amount' */
+function getNoiseTile(
+  color: string,
+  amount: number,
+  seedOffset: number,
+  createCanvas: CanvasFactory
+): AtlasCanvas {
+  const key = `${color}|${amount}|${seedOffset}`;
+  let tile = noiseTiles.get(key);
+  if (!tile) {
+    if (noiseTiles.size >= MAX_NOISE_TILES) {
+      noiseTiles.clear();
+    }
+    tile = createCanvas(NOISE_TILE_SIZE, NOISE_TILE_SIZE);
+    const ctx = tile.getContext('2d') as RenderContext;
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, NOISE_TILE_SIZE, NOISE_TILE_SIZE);
+    const image = ctx.getImageData(0, 0, NOISE_TILE_SIZE, NOISE_TILE_SIZE);
+    const random = createRandom(hashSeed(seedOffset));
+    const alpha = Math.min(1, Math.max(0, amount)) * 255;
+    for (let i = 3; i < image.data.length; i += 4) {
+      image.data[i] = random() * alpha;
+    }
+    ctx.putImageData(image, 0, 0);
+    noiseTiles.set(key, tile);
+  }
+  return tile;
+}
+
+/**
+ * Fills the canvas with a background layer. Opacity and blend mode are
+ * set by the caller.
+ */
+export function drawBackgroundLayer(
+  ctx: RenderContext,
+  layer: Layer,
+  config: Config,
+  width: number,
+  height: number,
+  createCanvas: CanvasFactory
+): void {
+  const colors = getLayerColors(layer, config);
+  const addStops = (gradient: CanvasGradient, stops: GradientStop[]) => {
+    stops.forEach((stop) => gradient.addColorStop(stop.offset, stop.color));
+    return gradient;
+  };
+
+  switch (layer.type) {
+    case 'linear-gradient': {
+      const { x1, y1, x2, y2 } = getLinearGradientLine(layer.angle, width, height);
+      ctx.fillStyle = addStops(ctx.createLinearGradient(x1, y1, x2, y2), getGradientStops(colors));
+      break;
+    }
+    case 'radial-gradient':
+      ctx.fillStyle = addStops(
+        ctx.createRadialGradient(
+          width / 2,
+          height / 2,
+          0,
+          width / 2,
+          height / 2,
+          getCornerRadius(width, height)
+        ),
+        getGradientStops(colors)
+      );
+      break;
+    case 'vignette':
+      ctx.fillStyle = addStops(
+        ctx.createRadialGradient(
+          width / 2,
+          height / 2,
+          getVignetteStart(layer.amount, width, height),
+          width / 2,
+          height / 2,
+          getCornerRadius(width, height)
+        ),
+        [
+          { offset: 0, color: 'transparent' },
+          { offset: 1, color: colors[0] },
+        ]
+      );
+      break;
+    case 'noise': {
+      const tile = getNoiseTile(colors[0], layer.amount, layer.seedOffset, createCanvas);
+      const pattern = ctx.createPattern(tile, 'repeat');
+      if (!pattern) {
+        return;
+      }
+      ctx.fillStyle = pattern;
+      break;
+    }
+    default:
+      ctx.fillStyle = colors[0];
+  }
+  ctx.fillRect(0, 0, width, height);
+}
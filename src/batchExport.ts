@@ -0,0 +1,276 @@
+import type { Config } from './config';
+import { DEVICE_PRESETS, type DevicePreset } from './devicePresets';
+import { RenderCancelledError, renderPngInWorker } from './exportRenderer';
+import type { IconAtlasData } from './iconAtlas';
+import { generateLayerGrids } from './layers';
+import { WallpaperModel } from './model';
+import { reframe, type ReframeMode } from './reframe';
+import type { Grid } from './types';
+import { createZip, type ZipEntry } from './zip';
+
+/**
+ * The batch export dialog.
+ * Renders the current composition at several sizes (and optionally as
+ * slices of a multi-monitor span) and downloads everything as one ZIP.
+ */
+export class BatchExport {
+  private model: WallpaperModel;
+  private config: Config;
+  private getSeed: () => number;
+  private getIconAtlas: () => IconAtlasData | null;
+  private triggerDownload: (href: string, fileName: string) => void;
+  private dialog: HTMLDialogElement;
+  private presetList: HTMLDivElement;
+  private statusElement: HTMLDivElement;
+  /** Sizes added in the dialog, shown below the presets */
+  private customPresets: DevicePreset[] = [];
+  /** Preset behind each checkbox of the preset list */
+  private presetsByCheckbox = new Map<HTMLInputElement, DevicePreset>();
+  /** Cancels the running export; null while no export is running */
+  private abort: AbortController | null = null;
+
+  constructor(
+    model: WallpaperModel,
+    config: Config,
+    getSeed: () => number,
+    getIconAtlas: () => IconAtlasData | null,
+    triggerDownload: (href: string, fileName: string) => void
+  ) {
+    this.model = model;
+    this.config = config;
+    this.getSeed = getSeed;
+    this.getIconAtlas = getIconAtlas;
+    this.triggerDownload = triggerDownload;
+    this.dialog = document.getElementById('batchExportDialog') as HTMLDialogElement;
+    this.presetList = document.getElementById('devicePresetList') as HTMLDivElement;
+    this.statusElement = document.getElementById('batchExportStatus') as HTMLDivElement;
+
+    const openButton = document.getElementById('openBatchExport') as HTMLButtonElement;
+    const closeButton = document.getElementById('closeBatchExport') as HTMLButtonElement;
+    const startButton = document.getElementById('startBatchExport') as HTMLButtonElement;
+    const cancelButton = document.getElementById('cancelBatchExport') as HTMLButtonElement;
+    const addCustomButton = document.getElementById('addCustomPreset') as HTMLButtonElement;
+    const monitorPresetSelect = document.getElementById('monitorPreset') as HTMLSelectElement;
+
+    // Monitors of a span are desktop screens side by side
+    DEVICE_PRESETS.forEach((preset, i) => {
+      if (preset.category === 'Desktop' || preset.category === 'Ultrawide') {
+        monitorPresetSelect.add(
+          new Option(`${preset.name} – ${preset.width}×${preset.height}`, String(i))
+        );
+      }
+    });
+
+    openButton.addEventListener('click', () => {
+      this.statusElement.textContent = '';
+      this.dialog.showModal();
+    });
+    closeButton.addEventListener('click', () => {
+      this.dialog.close();
+    });
+    // A running export must not be interrupted by Escape
+    this.dialog.addEventListener('cancel', (event) => {
+      if (this.abort) {
+        event.preventDefault();
+      }
+    });
+    addCustomButton.addEventListener('click', () => {
+      this.addCustomPreset();
+    });
+    startButton.addEventListener('click', async () => {
+      startButton.disabled = true;
+      closeButton.disabled = true;
+      cancelButton.disabled = false;
+      this.abort = new AbortController();
+      try {
+        await this.export(this.abort.signal);
+      } catch (error) {
+        if (error instanceof RenderCancelledError) {
+          this.statusElement.textContent = 'Export cancelled.';
+        } else {
+          console.error('Error in batch export:', error);
+          this.statusElement.textContent = `Export failed: ${(error as Error).message}`;
+        }
+      } finally {
+        startButton.disabled = false;
+        closeButton.disabled = false;
+        cancelButton.disabled = true;
+        this.abort = null;
+      }
+    });
+    cancelButton.addEventListener('click', () => {
+      this.abort?.abort();
+    });
+
+    this.renderPresetList();
+  }
+
+  private addCustomPreset(): void {
+    const widthInput = document.getElementById('customPresetWidth') as HTMLInputElement;
+    const heightInput = document.getElementById('customPresetHeight') as HTMLInputElement;
+    const width = parseInt(widthInput.value);
+    const height = parseInt(heightInput.value);
+    if (!(width >= 100 && height >= 100 && width <= 16384 && height <= 16384)) {
+      window.alert('Width and height must be between 100 and 16384 pixels.');
+      return;
+    }
+    const exists = [...DEVICE_PRESETS, ...this.customPresets].some(
+      (preset) => preset.width === width && preset.height === height
+    );
+    if (!exists) {
+      this.customPresets.push({
+        name: 'Custom',
+        category: width >= height ? 'Desktop' : 'Phone',
+        width,
+        height,
+      });
+      this.renderPresetList();
+    }
+  }
+
+  /** One checkbox per preset, grouped by category; custom sizes are checked */
+  private renderPresetList(): void {
+    const checked = new Set(this.getSelectedPresets());
+    this.presetList.replaceChildren();
+    this.presetsByCheckbox.clear();
+
+    const groups = new Map<string, DevicePreset[]>();
+    for (const preset of DEVICE_PRESETS) {
+      groups.set(preset.category, [...(groups.get(preset.category) ?? []), preset]);
+    }
+    if (this.customPresets.length > 0) {
+      groups.set('Custom', this.customPresets);
+    }
+
+    for (const [category, presets] of groups) {
+      const header = document.createElement('div');
+      header.className = 'device-preset-category';
+      header.textContent = category;
+      this.presetList.appendChild(header);
+
+      for (const preset of presets) {
+        const label = document.createElement('label');
+        label.className = 'device-preset';
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.checked = checked.has(preset) || this.customPresets.includes(preset);
+        this.presetsByCheckbox.set(checkbox, preset);
+        label.append(
+          checkbox,
+          `${preset.name === 'Custom' ? '' : `${preset.name} – `}${preset.width}×${preset.height}`
+        );
+        this.presetList.appendChild(label);
+      }
+    }
+  }
+
+  private getSelectedPresets(): DevicePreset[] {
+    return [...this.presetsByCheckbox]
+      .filter(([checkbox]) => checkbox.checked)
+      .map(([, preset]) => preset);
+  }
+
+  private async export(signal: AbortSignal): Promise<void> {
+    const reframeMode = (document.getElementById('reframeMode') as HTMLSelectElement)
+      .value as ReframeMode;
+    const spanEnabled = (document.getElementById('monitorSpan') as HTMLInputElement).checked;
+    const monitorCount = parseInt(
+      (document.getElementById('monitorCount') as HTMLSelectElement).value
+    );
+    const monitor =
+      DEVICE_PRESETS[
+        parseInt((document.getElementById('monitorPreset') as HTMLSelectElement).value)
+      ];
+
+    const presets = this.getSelectedPresets();
+    if (presets.length === 0 && !spanEnabled) {
+      this.statusElement.textContent = 'Select at least one size or the monitor span.';
+      return;
+    }
+
+    const seed = this.getSeed();
+    const total = presets.length + (spanEnabled ? monitorCount : 0);
+    const entries: ZipEntry[] = [];
+    /** Renders one image in the worker and shows its progress */
+    const render = async (
+      fileName: string,
+      grids: Grid[],
+      config: Config,
+      width: number,
+      height: number,
+      offsetX: number
+    ) => {
+      const png = await renderPngInWorker(
+        {
+          grids,
+          config,
+          width,
+          height,
+          offsetX,
+          scale: 1,
+          iconAtlas: this.getIconAtlas(),
+        },
+        (progress) => {
+          this.statusElement.textContent =
+            `Rendering ${entries.length + 1} of ${total}: ${fileName} ` +
+            `(${Math.round(progress * 100)} %)`;
+        },
+        signal
+      );
+      entries.push({ name: fileName, data: new Uint8Array(await png.arrayBuffer()) });
+    };
+
+    for (const { width, height } of presets) {
+      const { config, grids } = this.createReframedGrids(width, height, reframeMode, seed);
+      await render(`hintergrund_${width}x${height}_${seed}.png`, grids, config, width, height, 0);
+    }
+
+    if (spanEnabled) {
+      // One wide composition, cut into one image per monitor
+      const spanWidth = monitor.width * monitorCount;
+      const { config, grids } = this.createReframedGrids(
+        spanWidth,
+        monitor.height,
+        reframeMode,
+        seed
+      );
+      for (let i = 0; i < monitorCount; i++) {
+        await render(
+          `hintergrund_span_${monitorCount}x${monitor.width}x${monitor.height}_${seed}_monitor-${i + 1}.png`,
+          grids,
+          config,
+          monitor.width,
+          monitor.height,
+          i * monitor.width
+        );
+      }
+    }
+
+    this.statusElement.textContent = 'Packing ZIP…';
+    const zip = createZip(entries);
+    const url = URL.createObjectURL(new Blob([zip], { type: 'application/zip' }));
+    this.triggerDownload(url, `hintergrund_batch_${seed}.zip`);
+    // Revoke after the click has been handled, otherwise some browsers abort the download
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+    this.statusElement.textContent = `Exported ${entries.length} images.`;
+  }
+
+  /**
+   * The layer grids for the size: a separate model with the current clusters
+   * reframed, plus the further grid layers generated for the new size
+   */
+  private createReframedGrids(
+    width: number,
+    height: number,
+    mode: ReframeMode,
+    seed: number
+  ): { config: Config; grids: Grid[] } {
+    const reframed = reframe(this.config, this.model.clusterCenters, width, height, mode);
+    const model = new WallpaperModel(reframed.config, this.model.getMask());
+    model.generateFromClusters(seed, reframed.clusters);
+    return {
+      config: reframed.config,
+      grids: generateLayerGrids(reframed.config, seed, model.grid),
+    };
+  }
+}
@@ -0,0 +1,69 @@
+import chroma from 'chroma-js';
+import type { BlendColorSpace, BlendMode, FalloffCurve } from './config';
+
+/**
+ * Falloff curves and color blending between clusters.
+ */
+
+export const BLEND_MODES: BlendMode[] = ['nearest', 'mix', 'gradient'];
+export const BLEND_COLOR_SPACES: BlendColorSpace[] = ['lab', 'oklch'];
+export const FALLOFF_CURVES: FalloffCurve[] = [
+  'linear',
+  'smoothstep',
+  'gaussian',
+  'exponential',
+];
+
+/** Width of the gaussian bell relative to the cluster radius */
+const GAUSSIAN_SIGMA = 0.4;
+/** Steepness of the exponential decay */
+const EXPONENTIAL_RATE = 4;
+
+/**
+ * Influence of a cluster at the relative distance t (0 = center, 1 = maxRadius).
+ * All curves start at 1 in the center and reach exactly 0 at the radius.
+ */
+export function applyFalloff(curve: FalloffCurve, t: number): number {
+  if (t >= 1) {
+    return 0;
+  }
+  const x = Math.max(0, t);
+
+  switch (curve) {
+    case 'linear':
+      return 1 - x;
+    case 'smoothstep':
+      return 1 - x * x * (3 - 2 * x);
+    case 'gaussian': {
+      const bell = (v: number) => Math.exp(-(v * v) / (2 * GAUSSIAN_SIGMA * GAUSSIAN_SIGMA));
+      // Shifted and scaled so the curve reaches 0 at the radius
+      return (bell(x) - bell(1)) / (1 - bell(1));
+    }
+    case 'exponential': {
+      const end = Math.exp(-EXPONENTIAL_RATE);
+      return (Math.exp(-EXPONENTIAL_RATE * x) - end) / (1 - end);
+    }
+  }
+}
+
+/** Weighted average of several cluster colors in a perceptual color space */
+export function mixColors(
+  colors: string[],
+  weights: number[],
+  colorSpace: BlendColorSpace
+): string {
+  if (colors.length === 1) {
+    return colors[0];
+  }
+  return chroma.average(colors, colorSpace, weights).hex();
+}
+
+/** Interpolates from one color to another (amount 0 = from, 1 = to) */
+export function interpolateColor(
+  from: string,
+  to: string,
+  amount: number,
+  colorSpace: BlendColorSpace
+): string {
+  return chroma.mix(from, to, amount, colorSpace).hex();
+}
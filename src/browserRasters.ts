@@ -0,0 +1,109 @@
+import type { Config } from './config';
+import {
+  getAtlasCellSize,
+  IconAtlas,
+  rasterizeSvgIcons,
+  type CanvasFactory,
+  type IconAtlasData,
+} from './iconAtlas';
+import { getSvgIcons } from './icons';
+import { getMaskSourceKey, rasterizeMaskInBrowser, type MaskRaster } from './mask';
+
+/**
+ * Rasters the browser keeps next to a wallpaper: the mask and the atlas of
+ * the SVG icons. Both are rasterized in the background and only after their
+ * source changed; of overlapping updates the newest one wins.
+ * Used by the generator page and the embeddable wallpaper.
+ */
+
+/** Canvases for the icon atlas and for layers with blend modes */
+export const createOffscreenCanvas: CanvasFactory = (width, height) =>
+  new OffscreenCanvas(width, height);
+
+export class BrowserRasters {
+  /** The rasterized mask; null while there is none or it is being rasterized */
+  public mask: MaskRaster | null = null;
+  /** Rasterized SVG icons; null while there are none or they are being rasterized */
+  public iconAtlasData: IconAtlasData | null = null;
+  public iconAtlas: IconAtlas | null = null;
+  /** Image or text of the rasterized mask, to rasterize only after changes */
+  private maskKey = '';
+  /** SVG icons and cell size of the atlas, to rasterize only after changes */
+  private iconAtlasKey = '';
+  /** Set by dispose; later results are dropped */
+  private disposed = false;
+
+  /**
+   * 'onMaskReady' and 'onIconAtlasReady' are called once a new raster is
+   * ready, to generate or draw the wallpaper again
+   */
+  constructor(
+    private onMaskReady: () => void,
+    private onIconAtlasReady: () => void
+  ) {}
+
+  /**
+   * Rasterizes the mask if its image or text changed.
+   * Until the new mask is ready, 'mask' is null.
+   */
+  public async updateMask(settings: Config['mask']): Promise<void> {
+    const key = getMaskSourceKey(settings);
+    if (key === this.maskKey) {
+      return;
+    }
+    this.maskKey = key;
+    // The old mask does not match the new settings
+    this.mask = null;
+    if (!key) {
+      return;
+    }
+    try {
+      const mask = await rasterizeMaskInBrowser(settings);
+      // Mask changed again in the meantime; the newer call takes over
+      if (key !== this.maskKey || this.disposed) {
+        return;
+      }
+      this.mask = mask;
+      this.onMaskReady();
+    } catch (error) {
+      console.error('Error rasterizing the mask:', error);
+    }
+  }
+
+  /**
+   * Rasterizes the SVG icons if they or the icon size changed.
+   * Until the new atlas is ready, 'iconAtlas' and 'iconAtlasData' are null.
+   */
+  public async updateIconAtlas(symbols: Config['symbols']): Promise<void> {
+    const svgs = getSvgIcons(symbols);
+    const cellSize = getAtlasCellSize(symbols.fontSize);
+    const key = `${cellSize}\n${svgs.join('\n')}`;
+    if (key === this.iconAtlasKey) {
+      return;
+    }
+    this.iconAtlasKey = key;
+    // The old atlas does not match the new icon indices
+    this.iconAtlasData = null;
+    this.iconAtlas = null;
+    if (svgs.length === 0) {
+      return;
+    }
+    try {
+      const data = await rasterizeSvgIcons(svgs, cellSize);
+      // Icons changed again in the meantime; the newer call takes over
+      if (key !== this.iconAtlasKey || this.disposed) {
+        return;
+      }
+      this.iconAtlasData = data;
+      this.iconAtlas = new IconAtlas(data, createOffscreenCanvas);
+      this.onIconAtlasReady();
+    } catch (error) {
+      console.error('Error rasterizing SVG icons:', error);
+    }
+  }
+
+  /** Stops calling back, e.g. once the wallpaper is destroyed */
+  public dispose(): void {
+    this.disposed = true;
+  }
+}
@@ -0,0 +1,302 @@
+#!/usr/bin/env node
+/**
+ * Headless command-line renderer.
+ * Uses the same model and renderers as the web app, but runs in Node,
+ * so wallpapers can be produced offline, e.g. in a build pipeline.
+ */
+import { readFile, writeFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import type { Config } from './config';
+import { WallpaperModel } from './model';
+import { createSeed, MAX_SEED, parseSeed } from './random';
+import {
+  getAtlasCellSize,
+  IconAtlas,
+  packIconAtlas,
+  type AtlasCanvas,
+  type CanvasFactory,
+} from './iconAtlas';
+import { getSvgIcons, ICON_FONT_FAMILY } from './icons';
+import { generateLayerGrids } from './layers';
+import {
+  getMaskSourceKey,
+  MASK_RESOLUTION,
+  rasterizeMask,
+  type MaskImage,
+  type MaskRaster,
+} from './mask';
+import { drawContent, type RenderContext } from './render';
+import { createSvg } from './svg';
+import type { Grid } from './types';
+import { ConfigValidationError, validateConfig } from './validate';
+
+const USAGE = `Usage: wallpaper-gen render --out <file.svg|file.png> [options]
+
+Options:
+  --config <file>   JSON file matching the Config interface.
+                    Missing fields are filled from the defaults.
+  --seed <n>        Seed of the layout (0 to ${MAX_SEED}). Random if omitted.
+  --width <px>      Overrides canvasSize.width
+  --height <px>     Overrides canvasSize.height
+  --scale <n>       Pixel ratio of PNG output (default: canvasSize.exportScale)
+  --out <file>      Output file; the format follows the extension (.svg or .png)
+  -h, --help        Shows this help`;
+
+/** Errors caused by wrong usage; printed without a stack trace */
+class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+function parsePositiveNumber(name: string, value: string): number {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new CliError(`--${name}: expected a positive number, got '${value}'`);
+  }
+  return number;
+}
+
+async function loadConfig(path: string | undefined): Promise<unknown> {
+  if (!path) {
+    return {};
+  }
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (error) {
+    throw new CliError(
+      `Cannot read config file '${path}': ${(error as Error).message}`
+    );
+  }
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new CliError(
+      `Config file '${path}' is not valid JSON: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Loads the optional '@napi-rs/canvas' package.
+ * @param purpose What needs it, for the error message
+ * @param alternative How to do without it
+ */
+async function loadCanvasModule(
+  purpose: string,
+  alternative: string
+): Promise<typeof import('@napi-rs/canvas')> {
+  try {
+    return await import('@napi-rs/canvas');
+  } catch {
+    throw new CliError(
+      `${purpose} the optional dependency '@napi-rs/canvas'. Install it or ${alternative}.`
+    );
+  }
+}
+
+/** Contents of a data URL, base64 or percent-encoded */
+function decodeDataUrl(url: string): Buffer {
+  const comma = url.indexOf(',');
+  const header = url.slice(0, comma);
+  const payload = url.slice(comma + 1);
+  return header.endsWith(';base64')
+    ? Buffer.from(payload, 'base64')
+    : Buffer.from(decodeURIComponent(payload));
+}
+
+/**
+ * Rasterizes config.mask like the web app does; null without a mask.
+ * Fonts of text masks must be installed on the system.
+ */
+async function loadMaskRaster(config: Config): Promise<MaskRaster | null> {
+  if (!getMaskSourceKey(config.mask)) {
+    return null;
+  }
+  const { createCanvas, loadImage } = await loadCanvasModule(
+    'Masks need',
+    'set mask.type to "none"'
+  );
+  let image: MaskImage | null = null;
+  if (config.mask.type === 'image') {
+    try {
+      const loaded = await loadImage(decodeDataUrl(config.mask.image));
+      image = {
+        image: loaded as unknown as CanvasImageSource,
+        width: loaded.width || MASK_RESOLUTION,
+        height: loaded.height || MASK_RESOLUTION,
+      };
+    } catch (error) {
+      throw new CliError(`mask.image cannot be rendered: ${(error as Error).message}`);
+    }
+  }
+  return rasterizeMask(
+    config.mask,
+    image,
+    (width, height) => createCanvas(width, height) as unknown as AtlasCanvas
+  );
+}
+
+/**
+ * Renders the grid to PNG with the optional '@napi-rs/canvas' package.
+ * The Font Awesome font is loaded from the local npm package,
+ * so no network access is needed. Other fonts must be installed.
+ */
+async function renderPng(
+  grids: Grid[],
+  config: Config,
+  scale: number
+): Promise<Buffer> {
+  const { createCanvas, GlobalFonts, loadImage } = await loadCanvasModule(
+    'PNG output needs',
+    'write an .svg file instead'
+  );
+  const require = createRequire(import.meta.url);
+  GlobalFonts.registerFromPath(
+    require.resolve('@fortawesome/fontawesome-free/webfonts/fa-solid-900.ttf'),
+    ICON_FONT_FAMILY
+  );
+
+  // The Node canvas follows the browser API closely enough for the atlas and the layers
+  const createAtlasCanvas: CanvasFactory = (atlasWidth, atlasHeight) =>
+    createCanvas(atlasWidth, atlasHeight) as unknown as AtlasCanvas;
+  const svgIcons = getSvgIcons(config.symbols);
+  let atlas: IconAtlas | null = null;
+  if (svgIcons.length > 0) {
+    const images = await Promise.all(
+      svgIcons.map(async (svg, i) => {
+        try {
+          const image = await loadImage(Buffer.from(svg));
+          return {
+            image: image as unknown as CanvasImageSource,
+            width: image.width,
+            height: image.height,
+          };
+        } catch (error) {
+          console.warn(`SVG icon ${i + 1} cannot be rendered: ${(error as Error).message}`);
+          return null;
+        }
+      })
+    );
+    const cellSize = getAtlasCellSize(config.symbols.fontSize * scale);
+    const { canvas, columns } = packIconAtlas(images, cellSize, createAtlasCanvas);
+    atlas = new IconAtlas(
+      { image: canvas, cellSize, columns, count: svgIcons.length },
+      createAtlasCanvas
+    );
+  }
+
+  const { width, height } = config.canvasSize;
+  const canvas = createCanvas(
+    Math.round(width * scale),
+    Math.round(height * scale)
+  );
+  const ctx = canvas.getContext('2d');
+  ctx.scale(scale, scale);
+  drawContent(
+    ctx as unknown as RenderContext,
+    grids,
+    config,
+    width,
+    height,
+    createAtlasCanvas,
+    atlas
+  );
+  return canvas.encode('png');
+}
+
+async function render(args: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      config: { type: 'string' },
+      seed: { type: 'string' },
+      width: { type: 'string' },
+      height: { type: 'string' },
+      scale: { type: 'string' },
+      out: { type: 'string' },
+    },
+  });
+
+  if (!values.out) {
+    throw new CliError('--out is required');
+  }
+  const format = extname(values.out).toLowerCase();
+  if (format !== '.svg' && format !== '.png') {
+    throw new CliError(
+      `--out: unsupported format '${format || values.out}', use .svg or .png`
+    );
+  }
+
+  let seed = createSeed();
+  if (values.seed !== undefined) {
+    const parsed = parseSeed(values.seed);
+    if (parsed === null) {
+      throw new CliError(
+        `--seed: expected an integer from 0 to ${MAX_SEED}, got '${values.seed}'`
+      );
+    }
+    seed = parsed;
+  }
+  const scaleOption =
+    values.scale !== undefined ? parsePositiveNumber('scale', values.scale) : undefined;
+
+  // Size options are merged into the file, so they are validated together
+  const input = await loadConfig(values.config);
+  if (typeof input === 'object' && input !== null && !Array.isArray(input)) {
+    const fileConfig = input as { canvasSize?: Record<string, unknown> };
+    if (values.width !== undefined) {
+      fileConfig.canvasSize = { ...fileConfig.canvasSize, width: Number(values.width) };
+    }
+    if (values.height !== undefined) {
+      fileConfig.canvasSize = { ...fileConfig.canvasSize, height: Number(values.height) };
+    }
+  }
+  const config = validateConfig(input);
+
+  const scale = scaleOption ?? config.canvasSize.exportScale;
+
+  const model = new WallpaperModel(config, await loadMaskRaster(config));
+  model.generate(seed);
+  const grids = generateLayerGrids(config, seed, model.grid);
+
+  const { width, height } = config.canvasSize;
+  const output =
+    format === '.svg'
+      ? createSvg(grids, config, width, height)
+      : await renderPng(grids, config, scale);
+  await writeFile(values.out, output);
+  console.log(`Wrote ${values.out} (${width}x${height}, seed ${seed})`);
+}
+
+async function main(argv: string[]): Promise<void> {
+  const [command, ...args] = argv;
+  if (!command || command === '-h' || command === '--help') {
+    console.log(USAGE);
+    return;
+  }
+  if (command !== 'render') {
+    throw new CliError(`Unknown command '${command}'`);
+  }
+  if (args.includes('-h') || args.includes('--help')) {
+    console.log(USAGE);
+    return;
+  }
+  await render(args);
+}
+
+main(process.argv.slice(2)).catch((error: unknown) => {
+  if (error instanceof ConfigValidationError || error instanceof CliError) {
+    console.error(`Error: ${error.message}`);
+  } else if (error instanceof TypeError && 'code' in error) {
+    // Argument errors of parseArgs (unknown option, missing value)
+    console.error(`Error: ${error.message}\n\n${USAGE}`);
+  } else {
+    console.error(error);
+  }
+  process.exitCode = 1;
+});
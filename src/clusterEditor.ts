@@ -0,0 +1,188 @@
+import type { Config } from './config';
+import type { Point } from './geometry';
+import type { WallpaperModel } from './model';
+
+/** Radius of the cluster markers in screen pixels */
+const MARKER_RADIUS = 9;
+
+/**
+ * Interactive editing of the cluster centers on the preview canvas.
+ * Click on an empty spot adds a cluster, dragging moves it, and the
+ * selected cluster can be recolored or deleted in the settings panel.
+ * Every edit is stored in config.editedClusters and the grid is generated
+ * again from them, so the seed and the settings reproduce the result.
+ */
+export class ClusterEditor {
+  private canvas: HTMLCanvasElement;
+  private model: WallpaperModel;
+  private config: Config;
+  private onChange: () => void;
+  private enabled = false;
+  private selectedIndex = -1;
+  private dragging = false;
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    model: WallpaperModel,
+    config: Config,
+    onChange: () => void
+  ) {
+    this.canvas = canvas;
+    this.model = model;
+    this.config = config;
+    this.onChange = onChange;
+
+    const editClustersInput = document.getElementById('editClusters') as HTMLInputElement;
+    const deleteClusterButton = document.getElementById('deleteCluster') as HTMLButtonElement;
+
+    editClustersInput.addEventListener('change', () => {
+      this.enabled = editClustersInput.checked;
+      this.canvas.classList.toggle('editing-clusters', this.enabled);
+      this.select(-1);
+      this.onChange();
+    });
+    deleteClusterButton.addEventListener('click', () => {
+      this.deleteSelected();
+    });
+    (document.getElementById('resetClusters') as HTMLButtonElement).addEventListener(
+      'click',
+      () => {
+        this.model.resetClusters();
+        this.reset();
+        this.onChange();
+      }
+    );
+
+    this.canvas.addEventListener('pointerdown', this.onPointerDown);
+    this.canvas.addEventListener('pointermove', this.onPointerMove);
+    this.canvas.addEventListener('pointerup', this.onPointerUp);
+    this.canvas.addEventListener('pointercancel', this.onPointerUp);
+    window.addEventListener('keydown', this.onKeyDown);
+  }
+
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /** Drops the selection, e.g. after the clusters were regenerated */
+  public reset(): void {
+    this.dragging = false;
+    this.select(-1);
+  }
+
+  /** Draws a marker for every cluster center on top of the preview */
+  public drawOverlay(ctx: CanvasRenderingContext2D): void {
+    const scale = this.getCanvasScale();
+    ctx.save();
+    this.model.clusterCenters.forEach((cluster, i) => {
+      const selected = i === this.selectedIndex;
+      ctx.beginPath();
+      ctx.arc(cluster.x, cluster.y, MARKER_RADIUS * scale, 0, Math.PI * 2);
+      ctx.fillStyle = cluster.color;
+      ctx.fill();
+      ctx.lineWidth = (selected ? 4 : 2) * scale;
+      ctx.strokeStyle = selected ? '#ffffff' : 'rgba(255, 255, 255, 0.7)';
+      ctx.stroke();
+    });
+    ctx.restore();
+  }
+
+  /** Canvas units per screen pixel (the preview is scaled down by CSS) */
+  private getCanvasScale(): number {
+    const rect = this.canvas.getBoundingClientRect();
+    return rect.width > 0 ? this.config.canvasSize.width / rect.width : 1;
+  }
+
+  /** Position of the pointer on the canvas; dragging outside stops at the edge */
+  private toCanvasPoint(event: PointerEvent): Point {
+    const rect = this.canvas.getBoundingClientRect();
+    const share = (value: number) => Math.min(1, Math.max(0, value));
+    return {
+      x: share((event.clientX - rect.left) / rect.width) * this.config.canvasSize.width,
+      y: share((event.clientY - rect.top) / rect.height) * this.config.canvasSize.height,
+    };
+  }
+
+  private onPointerDown = (event: PointerEvent): void => {
+    if (!this.enabled || event.button !== 0) {
+      return;
+    }
+    const { x, y } = this.toCanvasPoint(event);
+    const tolerance = (MARKER_RADIUS + 4) * this.getCanvasScale();
+    let index = this.model.findClusterAt(x, y, tolerance);
+
+    if (index < 0) {
+      // New clusters cycle through the palette
+      const paletteIndex =
+        this.model.clusterCenters.length % this.config.colors.palette.length;
+      index = this.model.addCluster(x, y, paletteIndex);
+    }
+    this.select(index);
+    this.dragging = true;
+    this.canvas.setPointerCapture(event.pointerId);
+    this.onChange();
+  };
+
+  private onPointerMove = (event: PointerEvent): void => {
+    if (!this.dragging || this.selectedIndex < 0) {
+      return;
+    }
+    const { x, y } = this.toCanvasPoint(event);
+    this.model.moveCluster(this.selectedIndex, x, y);
+    this.onChange();
+  };
+
+  private onPointerUp = (): void => {
+    this.dragging = false;
+  };
+
+  private onKeyDown = (event: KeyboardEvent): void => {
+    const target = event.target as HTMLElement | null;
+    const isTyping = ['INPUT', 'SELECT', 'TEXTAREA'].includes(target?.tagName ?? '');
+    if (
+      this.enabled &&
+      !isTyping &&
+      (event.key === 'Delete' || event.key === 'Backspace')
+    ) {
+      event.preventDefault();
+      this.deleteSelected();
+    }
+  };
+
+  private deleteSelected(): void {
+    if (this.selectedIndex < 0) {
+      return;
+    }
+    this.model.removeCluster(this.selectedIndex);
+    this.select(-1);
+    this.onChange();
+  }
+
+  /** Selects a cluster (-1 = none) and shows its color choices */
+  private select(index: number): void {
+    this.selectedIndex = index;
+    const selection = document.getElementById('clusterSelection') as HTMLDivElement;
+    const swatches = document.getElementById('clusterSelectionSwatches') as HTMLDivElement;
+    selection.hidden = index < 0;
+    swatches.replaceChildren();
+    if (index < 0) {
+      return;
+    }
+
+    const cluster = this.model.clusterCenters[index];
+    this.config.colors.palette.forEach((color, paletteIndex) => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = 'cluster-color';
+      button.style.backgroundColor = color;
+      button.title = color;
+      button.classList.toggle('selected', color === cluster.color);
+      button.addEventListener('click', () => {
+        this.model.setClusterColor(index, paletteIndex);
+        this.select(index);
+        this.onChange();
+      });
+      swatches.appendChild(button);
+    });
+  }
+}
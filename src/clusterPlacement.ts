@@ -0,0 +1,190 @@
+import type { ClusterPlacement, Config, EditedCluster } from './config';
+import { getDistance, type Point } from './geometry';
+import type { MaskField } from './mask';
+import type { RandomFn } from './random';
+
+/**
+ * Strategies for placing the cluster centers.
+ * A placer is called once per cluster with the centers placed so far.
+ */
+export type ClusterPlacer = (existing: Point[]) => Point;
+
+export const CLUSTER_PLACEMENTS: ClusterPlacement[] = [
+  'random',
+  'separated',
+  'thirds',
+  'edges',
+  'noise',
+  'mask',
+];
+
+/** Template of an edited cluster; also the schema of 'editedClusters' entries in validate.ts */
+export const DEFAULT_EDITED_CLUSTER: EditedCluster = { x: 0.5, y: 0.5, color: 0 };
+
+/** Candidates per cluster for the rejection-based strategies */
+const MAX_ATTEMPTS = 100;
+
+/**
+ * Smooth value noise: random values on a coarse lattice,
+ * interpolated with smoothstep. Returns values in [0, 1).
+ */
+function createValueNoise(
+  random: RandomFn,
+  width: number,
+  height: number,
+  cellSize: number
+): (x: number, y: number) => number {
+  const columns = Math.ceil(width / cellSize) + 2;
+  const rows = Math.ceil(height / cellSize) + 2;
+  const values = Array.from({ length: columns * rows }, () => random());
+  const value = (col: number, row: number) =>
+    values[
+      Math.min(rows - 1, Math.max(0, row)) * columns +
+        Math.min(columns - 1, Math.max(0, col))
+    ];
+  const smooth = (t: number) => t * t * (3 - 2 * t);
+
+  return (x, y) => {
+    const gx = x / cellSize;
+    const gy = y / cellSize;
+    const col = Math.floor(gx);
+    const row = Math.floor(gy);
+    const tx = smooth(gx - col);
+    const ty = smooth(gy - row);
+    const top = value(col, row) * (1 - tx) + value(col + 1, row) * tx;
+    const bottom = value(col, row + 1) * (1 - tx) + value(col + 1, row + 1) * tx;
+    return top * (1 - ty) + bottom * ty;
+  };
+}
+
+/**
+ * Creates the placer for the configured strategy:
+ * - random: uniformly distributed
+ * - separated: at least clustering.minSeparation from the others; if no such
+ *   place turns up, the candidate farthest from the others
+ * - thirds: around the four rule-of-thirds focal points
+ * - edges: weighted towards the edges, keeping the middle calm (e.g. for desktop icons)
+ * - noise: in the hotspots of a smooth noise field
+ * - mask: inside the mask, more often where it is fully covered
+ */
+export function createClusterPlacer(
+  config: Config,
+  random: RandomFn,
+  mask: MaskField | null = null
+): ClusterPlacer {
+  const { width, height } = config.canvasSize;
+  const randomPoint = (): Point => ({
+    x: random() * width,
+    y: random() * height,
+  });
+
+  switch (config.clustering.placement) {
+    case 'random':
+      return randomPoint;
+
+    case 'separated': {
+      const { minSeparation } = config.clustering;
+      // Tiles continue at the opposite edge, so distances wrap around
+      const wrap = config.grid.tileable ? config.canvasSize : undefined;
+      return (existing) => {
+        let best = randomPoint();
+        if (existing.length === 0) {
+          return best;
+        }
+        let bestDistance = -1;
+        for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+          const candidate = attempt === 0 ? best : randomPoint();
+          const distance = Math.min(
+            ...existing.map((p) => getDistance(p, candidate, wrap))
+          );
+          if (distance > bestDistance) {
+            best = candidate;
+            bestDistance = distance;
+          }
+          if (distance >= minSeparation) {
+            break;
+          }
+        }
+        return best;
+      };
+    }
+
+    case 'thirds': {
+      const focalPoints: Point[] = [1, 2].flatMap((i) =>
+        [1, 2].map((j) => ({ x: (width * j) / 3, y: (height * i) / 3 }))
+      );
+      const spread = Math.min(width, height) / 10;
+      return () => {
+        const focus = focalPoints[Math.floor(random() * focalPoints.length)];
+        // Box-Muller: normally distributed offset around the focal point
+        const radius = spread * Math.sqrt(-2 * Math.log(1 - random()));
+        const angle = random() * Math.PI * 2;
+        return {
+          x: Math.min(width, Math.max(0, focus.x + radius * Math.cos(angle))),
+          y: Math.min(height, Math.max(0, focus.y + radius * Math.sin(angle))),
+        };
+      };
+    }
+
+    case 'edges': {
+      const halfSize = Math.min(width, height) / 2;
+      return () => {
+        let point = randomPoint();
+        for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+          // 0 at the edge, 1 in the middle; the middle is (almost) never accepted
+          const edgeDistance = Math.min(point.x, width - point.x, point.y, height - point.y);
+          const centrality = Math.min(1, edgeDistance / halfSize);
+          if (random() > centrality * centrality * 2) {
+            break;
+          }
+          point = randomPoint();
+        }
+        return point;
+      };
+    }
+
+    case 'noise': {
+      const noise = createValueNoise(
+        random,
+        width,
+        height,
+        Math.max(width, height) / 4
+      );
+      return () => {
+        let point = randomPoint();
+        for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+          // Higher exponent = more pronounced hotspots
+          if (random() < Math.pow(noise(point.x, point.y), 4) * 4) {
+            break;
+          }
+          point = randomPoint();
+        }
+        return point;
+      };
+    }
+
+    case 'mask': {
+      if (!mask) {
+        return randomPoint;
+      }
+      const bounds = mask.getBounds();
+      return () => {
+        let point = randomPoint();
+        for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+          // Candidates from the area of the mask that lies on the canvas
+          const candidate = {
+            x: bounds.x + random() * bounds.width,
+            y: bounds.y + random() * bounds.height,
+          };
+          const onCanvas =
+            candidate.x >= 0 && candidate.x <= width && candidate.y >= 0 && candidate.y <= height;
+          if (onCanvas && random() < mask.getCoverage(candidate.x, candidate.y)) {
+            point = candidate;
+            break;
+          }
+        }
+        return point;
+      };
+    }
+  }
+}
@@ -3,18 +3,293 @@
 * Adjust the values here to change the appearance of the background.
  */
 
+/**
+ * Arrangement of the symbols:
+ * - offset: rows shifted by half a column on every other row
+ * - square: plain square grid
+ * - hexagonal: honeycomb packing (fits shape.corners = 6), uses spacingX only
+ * - diamond: diamond/isometric lattice
+ * - rings: concentric rings around the canvas center
+ * - spiral: sunflower spiral from the canvas center
+ * - poisson: blue-noise scatter with grid.minDistance between symbols
+ */
+export type GridLayout =
+  | 'offset'
+  | 'square'
+  | 'hexagonal'
+  | 'diamond'
+  | 'rings'
+  | 'spiral'
+  | 'poisson';
+
+/**
+ * Placement strategy of the cluster centers:
+ * - random: uniformly distributed
+ * - separated: keeps clusters apart from each other
+ * - thirds: around the rule-of-thirds focal points
+ * - edges: weighted towards the edges, keeps the middle calm
+ * - noise: in the hotspots of a smooth noise field
+ * - mask: inside the mask (see Config.mask), random without one
+ */
+export type ClusterPlacement = 'random' | 'separated' | 'thirds' | 'edges' | 'noise' | 'mask';
+
+/**
+ * How neighboring clusters meet:
+ * - nearest: each symbol takes the color of its nearest cluster (hard edges)
+ * - mix: the colors of all clusters in range are blended by their weight
+ * - gradient: color and opacity fade smoothly with the distance, no random test
+ */
+export type BlendMode = 'nearest' | 'mix' | 'gradient';
+
+/**
+ * Color of the icons in colored bubbles:
+ * - fixed: always colors.coloredIconColor
+ * - background: the background color, for a "punched-out" look
+ * - shade: a darker shade of light bubbles and a lighter shade of dark ones
+ * - contrast: the one of iconColors.lightColor and darkColor with the higher
+ *   WCAG contrast to the bubble
+ */
+export type IconColorMode = 'fixed' | 'background' | 'shade' | 'contrast';
+
+/** Color space used to blend cluster colors */
+export type BlendColorSpace = 'lab' | 'oklch';
+
+/** Shape of the influence of a cluster over its radius */
+export type FalloffCurve = 'linear' | 'smoothstep' | 'gaussian' | 'exponential';
+
+/**
+ * Rotation of the symbols (icon and shape together):
+ * - none: upright
+ * - random: random angle within ±jitter.rotationRange
+ * - cluster: pointing away from the nearest cluster center, plus the random angle
+ */
+export type RotationMode = 'none' | 'random' | 'cluster';
+
+/** Line of the shape edge; 'double' draws a second outline inside the first */
+export type StrokeStyle = 'solid' | 'dashed' | 'dotted' | 'double';
+
+/**
+ * Effect behind the shape:
+ * - glow: soft light in the color of the shape
+ * - shadow: dark drop shadow below the shape
+ */
+export type ShapeEffect = 'none' | 'glow' | 'shadow';
+
+/**
+ * Source of the mask that shapes the colored symbols:
+ * - image: an uploaded PNG or SVG, e.g. a logo
+ * - text: a word or text in a font
+ */
+export type MaskType = 'none' | 'image' | 'text';
+
+/**
+ * Which pixels of the mask count as inside:
+ * - alpha: opaque pixels (logos on a transparent background)
+ * - darkness: dark pixels (logos on a white background)
+ */
+export type MaskChannel = 'alpha' | 'darkness';
+
+/** Colors of the symbols inside the mask: the mask's own colors or the palette */
+export type MaskColorSource = 'mask' | 'palette';
+
+/**
+ * How the cluster centers move in animations (see animation.ts):
+ * - none: the clusters stay in place (icons can still swap)
+ * - drift: slow wandering around the placed position
+ * - pulse: the clusters stay, their radius grows and shrinks
+ * - orbit: circling around the placed position
+ */
+export type ClusterMotion = 'none' | 'drift' | 'pulse' | 'orbit';
+
+/**
+ * Kind of an additional icon source:
+ * - font: glyphs of an installed icon font, given as hex codepoints
+ * - emoji: emoji, drawn in their own colors
+ * - text: letters, words or any other text in a font
+ * - svg: uploaded SVG icons, tinted like the font glyphs
+ */
+export type IconSourceType = 'font' | 'emoji' | 'text' | 'svg';
+
+/** Icons that are mixed with the Font Awesome symbols of 'symbols.list' */
+export interface IconSource {
+  type: IconSourceType;
+  /** Shown in the icon source list */
+  name: string;
+  /** CSS font family of 'font' and 'text' sources; empty for the default font */
+  fontFamily: string;
+  fontWeight: number;
+  /** Hex codepoints ('font'), characters or words ('emoji', 'text') or SVG markup ('svg') */
+  icons: string[];
+  /** How often each icon is picked, relative to the others; missing entries count as 1 */
+  weights: number[];
+}
+
+/**
+ * Kind of a layer:
+ * - solid, linear-gradient, radial-gradient: background fills
+ * - noise: fine grain over everything below
+ * - vignette: edges fading into a color
+ * - main: the grid of the main settings; exactly one per configuration
+ * - grid: a further grid with its own settings (see Layer.config)
+ */
+export type LayerType =
+  | 'solid'
+  | 'linear-gradient'
+  | 'radial-gradient'
+  | 'noise'
+  | 'vignette'
+  | 'main'
+  | 'grid';
+
+/** How a layer is combined with the layers below (the CSS/canvas blend modes) */
+export type LayerBlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'hard-light'
+  | 'soft-light'
+  | 'difference'
+  | 'exclusion'
+  | 'hue'
+  | 'saturation'
+  | 'color'
+  | 'luminosity';
+
+/** Sections grid layers can change; the others are shared or only used by the main grid */
+type LayerSection = Exclude<
+  keyof Config,
+  'canvasSize' | 'layers' | 'mask' | 'zones' | 'animation' | 'editedClusters' | 'lockedCells'
+>;
+
+/**
+ * Settings a grid layer changes compared to the main settings.
+ * Sections are merged field by field; canvas size, icon sources, zones
+ * and the animation are shared, and the mask only shapes the main grid.
+ */
+export type LayerConfig = {
+  [Section in LayerSection]?: Partial<Config[Section]>;
+};
+
+export interface Layer {
+  type: LayerType;
+  /** Shown in the layer list */
+  name: string;
+  visible: boolean;
+  /** While any layer is soloed, only soloed layers are drawn */
+  solo: boolean;
+  opacity: number;
+  blendMode: LayerBlendMode;
+  /**
+   * Color of 'solid', 'noise' and 'vignette', stops of the gradients.
+   * Empty uses defaults: the background color for 'solid', the first
+   * palette colors for gradients, white grain and a black vignette
+   */
+  colors: string[];
+  /** Direction of the linear gradient in degrees (0 = to the top, 90 = to the right) */
+  angle: number;
+  /** Strength of the grain, or how far the vignette reaches in (0 to 1) */
+  amount: number;
+  /** Varies the random layout of a grid layer and the grain of a noise layer */
+  seedOffset: number;
+  /** Only for 'grid' layers: the settings that differ from the main settings */
+  config: LayerConfig;
+}
+
+/**
+ * A calm area, e.g. under the desktop icons or the taskbar. Position and
+ * size are shares of the canvas width and height (0 to 1), so the zone
+ * scales with the canvas.
+ */
+export interface ExclusionZone {
+  /** Shown in the zone list */
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Share of the symbols that are kept in the zone (0 = none) */
+  density: number;
+  /** Factor for the opacity of the symbols in the zone */
+  opacity: number;
+}
+
+/**
+ * A cluster center placed or changed on the preview. Once the clusters
+ * are edited, all of them are stored and replace the generated ones.
+ * The position is a share of the canvas width and height, like zones.
+ */
+export interface EditedCluster {
+  x: number;
+  y: number;
+  /** Palette index of the cluster color */
+  color: number;
+}
+
+/**
+ * Look of a painted cell:
+ * - color: colored bubble in a palette color
+ * - pale: pale symbol like the ones outside the clusters
+ * - empty: no symbol at all
+ */
+export type CellState = 'color' | 'pale' | 'empty';
+
+/**
+ * A grid cell painted on the preview. It is locked: generating the grid
+ * again keeps its look while everything else re-rolls. The position is
+ * in grid units (px divided by grid.spacingX and spacingY) from the origin
+ * of the layout (see getLayoutOrigin in layouts.ts), so the cell stays the
+ * same grid cell when the canvas size changes.
+ */
+export interface LockedCell {
+  x: number;
+  y: number;
+  /**
+   * Index of the point in the blue-noise scatter, whose points have no
+   * fixed positions; -1 if the cell was painted in another layout
+   */
+  slot: number;
+  state: CellState;
+  /** Palette index of 'color' cells */
+  color: number;
+  /** Key of the icon (see icons.ts); empty keeps the generated icon */
+  icon: string;
+}
+
 export interface Config {
   canvasSize: {
     width: number;
     height: number;
+    /**
+     * Pixel ratio of exported PNGs (2 = twice the width and height).
+     * Independent of the screen, so an export looks the same on every device
+     */
+    exportScale: number;
   };
   grid: {
     spacingX: number;
     spacingY: number;
     seamlessRendering: boolean;
+    /**
+     * Tile mode: the wallpaper wraps around at the edges (like a torus),
+     * so copies placed side by side show no seams
+     */
+    tileable: boolean;
+    layout: GridLayout;
+    /** Minimum distance between symbols of the 'poisson' layout */
+    minDistance: number;
   };
   symbols: {
+    /** Font Awesome 5 Solid icons as hex codepoints */
     list: string[];
+    /** Pick weights of the icons in 'list' (same order); missing entries count as 1 */
+    listWeights: number[];
+    /** Further icons: other fonts, emoji, text and SVG files */
+    sources: IconSource[];
     fontSize: number;
     adjacentPenalty: number;
     defaultIconOpacity: number;
@@ -23,10 +298,16 @@ export interface Config {
   };
   clustering: {
     count: number;
+    placement: ClusterPlacement;
+    /** Smallest distance between cluster centers of the 'separated' placement in px */
+    minSeparation: number;
     maxRadius: number;
     coloredOpacity: number;
     dimmingFactor: number;
     minDimOpacity: number;
+    blendMode: BlendMode;
+    blendColorSpace: BlendColorSpace;
+    falloff: FalloffCurve;
   };
   colors: {
     background: string;
@@ -36,24 +317,122 @@ export interface Config {
     defaultShapeStrokeColor: string;
     palette: string[];
   };
+  /** Icon colors in colored bubbles, picked per bubble color */
+  iconColors: {
+    mode: IconColorMode;
+    /** Steps the 'shade' mode darkens or lightens the bubble color (1 step = 18 Lab L) */
+    shadeAmount: number;
+    lightColor: string;
+    darkColor: string;
+  };
   shape: {
+    /**
+     * Name of a shape from shapes.ts (or customShapes.ts). 'polygon' is the
+     * original behavior: it follows 'corners', where 2 is a circle, 3 and
+     * more a regular polygon, and 0 or 1 draw no shape at all
+     */
+    type: string;
+    /** Corners of 'polygon' and 'rounded-polygon', points of 'star' */
     corners: number;
     radius: number;
+    /** Corner rounding of 'rounded-polygon', from 0 (sharp) to 1 */
+    rounding: number;
+    /** Inner radius of 'star' and 'ring', as share of 'radius' */
+    innerRadius: number;
     fillOpacity: number;
     strokeWidth: number;
     strokeOpacity: number;
+    strokeStyle: StrokeStyle;
+    effect: ShapeEffect;
+    /** Blur of the glow or shadow in px */
+    effectSize: number;
+  };
+  /**
+   * Layer stack from bottom to top: backgrounds, the main grid and further grids.
+   * The default is the plain background below the main grid
+   */
+  layers: Layer[];
+  /** Seeded variation per symbol; all 0 keeps the strict grid */
+  jitter: {
+    rotation: RotationMode;
+    /** Largest random rotation in degrees, in both directions */
+    rotationRange: number;
+    /** Random size variation (0.2 = 80 % to 120 %) */
+    scale: number;
+    /** Extra size in a cluster center, fading out with the cluster influence (0.5 = +50 %) */
+    clusterSwell: number;
+    /** Random position offset as share of the grid spacing (0 to 0.5) */
+    position: number;
+  };
+  /**
+   * Image or text whose area is filled with colored symbols, so e.g. a logo
+   * comes through as an icon mosaic. Outside the mask the clusters work as
+   * usual. Only the main grid follows the mask
+   */
+  mask: {
+    type: MaskType;
+    /** PNG or SVG of 'image' masks as data URL */
+    image: string;
+    /** Text of 'text' masks; line breaks start new lines */
+    text: string;
+    /** CSS font family of 'text' masks; empty for the default font */
+    fontFamily: string;
+    fontWeight: number;
+    /** Color of 'text' masks, used when the colors come from the mask */
+    color: string;
+    channel: MaskChannel;
+    /** Swaps inside and outside within the area of the mask */
+    invert: boolean;
+    /** Size as share of the shorter canvas side (1 = as high or wide as the canvas) */
+    scale: number;
+    /** Center of the mask as share of the canvas width and height */
+    x: number;
+    y: number;
+    /** Pixels count as inside from this alpha or darkness on (0 to 1) */
+    threshold: number;
+    /** Width of the soft edge in px, where fewer and fewer symbols are colored */
+    feather: number;
+    colorSource: MaskColorSource;
+  };
+  /**
+   * Areas without cluster centers and with fewer, fainter symbols, e.g.
+   * for desktop icons, taskbars or the clock of a phone lock screen
+   */
+  zones: ExclusionZone[];
+  /**
+   * Seamless loop of the wallpaper for the animated preview and the video
+   * and animated image exports. Still images are not affected
+   */
+  animation: {
+    motion: ClusterMotion;
+    /** How far the clusters move, or how much their radius changes with 'pulse', in px */
+    amplitude: number;
+    /** Length of the loop in seconds */
+    duration: number;
+    /** Frames per second of the exports */
+    fps: number;
+    /** Share of the symbols that cross-fade to another icon and back during the loop */
+    iconSwap: number;
   };
+  /** Clusters edited on the preview; empty while the seed places them */
+  editedClusters: EditedCluster[];
+  /** Cells painted on the preview; they keep their look when the grid is generated again */
+  lockedCells: LockedCell[];
 }
 
 export const CONFIG: Config = {
   canvasSize: {
     width: 1920,
     height: 1080,
+    exportScale: 1,
   },
   grid: {
     spacingX: 50,
     spacingY: 50,
     seamlessRendering: true,
+    tileable: false,
+    layout: 'offset',
+    minDistance: 45,
   },
   symbols: {
     list: [
@@ -63,12 +442,14 @@ export const CONFIG: Config = {
       'f8f4', 'e012', 'f749', 'f6b8', 'e3dc', 'f5dc', 'f03d', 'f542', 'e33b',
       'f590', 'f522', 'f75a', 'f188', 'f8ab', 'e48a', 'f1c9', 'f544', 'f8f6',
       'f19d', 'e2df', 'f030', 'f130', 'f001', 'f7f1', 'e0e3', 'f661', 'f7b9',
-      'f0c3', 'f8a7', 'f336', 'f7a1', 'f2ce', 'f1e0', 'f1c0', 'f2db', 'f6be',
+      'f0c3', 'f8a7', 'f336', 'f2ce', 'f1e0', 'f1c0', 'f2db', 'f6be',
       'e132', 'f30d', 'f1b3', 'e13e', 'e41c', 'e443', 'f8df', 'e2ea', 'f312',
       'e0b3', 'f729', 'f564', 'f3a0', 'e409', 'f013', 'f8d5', 'f0c7', 'f328',
       'f6a1', 'f8be', 'e3dd', 'f4c8', 'f700', 'f042', 'f044', 'f048', 'f051',
       'f01e', 'f01c',
     ],
+    listWeights: [],
+    sources: [],
     fontSize: 16,
     adjacentPenalty: 0.8,
     defaultIconOpacity: 0.1,
@@ -76,10 +457,15 @@ export const CONFIG: Config = {
   },
   clustering: {
     count: 15,
+    placement: 'random',
+    minSeparation: 300,
     maxRadius: 350,
     coloredOpacity: 1.0,
     dimmingFactor: 2.5,
     minDimOpacity: 0.05,
+    blendMode: 'nearest',
+    blendColorSpace: 'lab',
+    falloff: 'linear',
   },
   colors: {
     background: '#272822',
@@ -96,12 +482,85 @@ export const CONFIG: Config = {
       '#AE81FF', // Purple
     ],
   },
+  iconColors: {
+    mode: 'fixed',
+    shadeAmount: 2,
+    lightColor: '#F8F8F2',
+    darkColor: '#272822',
+  },
   shape: {
+    type: 'polygon',
     corners: 2,
     radius: 20,
+    rounding: 0.5,
+    innerRadius: 0.5,
     fillOpacity: 0.2,
     strokeWidth: 1,
     strokeOpacity: 0.3,
+    strokeStyle: 'solid',
+    effect: 'none',
+    effectSize: 8,
+  },
+  layers: [
+    {
+      type: 'solid',
+      name: 'Background',
+      visible: true,
+      solo: false,
+      opacity: 1,
+      blendMode: 'normal',
+      colors: [],
+      angle: 90,
+      amount: 0.5,
+      seedOffset: 0,
+      config: {},
+    },
+    {
+      type: 'main',
+      name: 'Main grid',
+      visible: true,
+      solo: false,
+      opacity: 1,
+      blendMode: 'normal',
+      colors: [],
+      angle: 90,
+      amount: 0.5,
+      seedOffset: 0,
+      config: {},
+    },
+  ],
+  jitter: {
+    rotation: 'none',
+    rotationRange: 15,
+    scale: 0,
+    clusterSwell: 0,
+    position: 0,
+  },
+  mask: {
+    type: 'none',
+    image: '',
+    text: 'HELLO',
+    fontFamily: '',
+    fontWeight: 900,
+    color: '#A6E22E',
+    channel: 'alpha',
+    invert: false,
+    scale: 0.8,
+    x: 0.5,
+    y: 0.5,
+    threshold: 0.5,
+    feather: 0,
+    colorSource: 'mask',
+  },
+  zones: [],
+  animation: {
+    motion: 'drift',
+    amplitude: 120,
+    duration: 6,
+    fps: 30,
+    iconSwap: 0,
   },
+  editedClusters: [],
+  lockedCells: [],
 };
 
@@ -0,0 +1,165 @@
+import chroma from 'chroma-js';
+import type { Config, IconColorMode } from './config';
+
+/**
+ * Readable icons on colored bubbles and the accessibility checks of the
+ * palette: the WCAG contrast between icon and bubble, and palette colors
+ * that look alike under common color-vision deficiencies.
+ */
+
+export const ICON_COLOR_MODES: IconColorMode[] = ['fixed', 'background', 'shade', 'contrast'];
+
+/** Lowest WCAG contrast ratio for graphical objects like icons (WCAG 2.1, 1.4.11) */
+export const MIN_ICON_CONTRAST = 3;
+
+/** Relative luminance where black and white have the same contrast */
+const LUMINANCE_MIDPOINT = 0.179;
+
+/** CIEDE2000 difference below which two palette colors are hard to tell apart */
+const MIN_COLOR_DIFFERENCE = 10;
+
+export type ColorVisionDeficiency = 'protanopia' | 'deuteranopia' | 'tritanopia';
+
+/** Normal vision and the simulated deficiencies */
+export type Vision = 'normal' | ColorVisionDeficiency;
+
+/**
+ * Simulation of the full deficiencies as 3×3 matrices (row by row) on
+ * linear RGB, after Machado, Oliveira and Fernandes (2009), severity 1
+ */
+const CVD_MATRICES: Record<ColorVisionDeficiency, number[]> = {
+  protanopia: [
+    0.152286, 1.052583, -0.204868,
+    0.114503, 0.786281, 0.099216,
+    -0.003882, -0.048116, 1.051998,
+  ],
+  deuteranopia: [
+    0.367322, 0.860646, -0.227968,
+    0.280085, 0.672501, 0.047413,
+    -0.01182, 0.04294, 0.968881,
+  ],
+  tritanopia: [
+    1.255528, -0.076749, -0.178779,
+    -0.078411, 0.930809, 0.147602,
+    0.004733, 0.691367, 0.3039,
+  ],
+};
+
+export const VISIONS: Vision[] = ['normal', 'protanopia', 'deuteranopia', 'tritanopia'];
+
+/** Contrast of the icons on the bubbles of one palette color */
+export interface IconContrast {
+  /** Palette color of the bubble */
+  color: string;
+  iconColor: string;
+  /** The icon color as it shows on the bubble at symbols.defaultIconOpacity */
+  visibleColor: string;
+  /** WCAG contrast ratio of the visible color, from 1 (none) to 21 (black on white) */
+  ratio: number;
+  /** Whether the ratio reaches MIN_ICON_CONTRAST */
+  readable: boolean;
+}
+
+/** Two palette colors that look alike, by palette index */
+export interface SimilarColors {
+  first: number;
+  second: number;
+  /** Visions in which the two can hardly be told apart */
+  visions: Vision[];
+}
+
+export interface ContrastReport {
+  icons: IconContrast[];
+  similar: SimilarColors[];
+}
+
+/**
+ * Color an icon shows on a bubble: icons are drawn at symbols.defaultIconOpacity,
+ * so the bubble shines through
+ */
+export function getVisibleIconColor(bubble: string, iconColor: string, config: Config): string {
+  return chroma.mix(bubble, iconColor, config.symbols.defaultIconOpacity, 'rgb').hex();
+}
+
+/** Color of the icon in a bubble of the given color, following config.iconColors */
+export function getIconColor(bubble: string, config: Config): string {
+  const { colors, iconColors } = config;
+  switch (iconColors.mode) {
+    case 'fixed':
+      return colors.coloredIconColor;
+    case 'background':
+      return colors.background;
+    case 'shade': {
+      const color = chroma(bubble);
+      const shade =
+        color.luminance() > LUMINANCE_MIDPOINT
+          ? color.darken(iconColors.shadeAmount)
+          : color.brighten(iconColors.shadeAmount);
+      return shade.hex();
+    }
+    case 'contrast': {
+      const { lightColor, darkColor } = iconColors;
+      const contrast = (color: string) =>
+        chroma.contrast(getVisibleIconColor(bubble, color, config), bubble);
+      return contrast(lightColor) >= contrast(darkColor) ? lightColor : darkColor;
+    }
+  }
+}
+
+/**
+ * Checks every palette color: whether its icons are readable, and which
+ * other palette colors it can be mistaken for, with normal vision or one
+ * of the simulated color-vision deficiencies.
+ * The icons are measured as they are drawn, blended with the bubble at
+ * the icon opacity.
+ */
+export function getContrastReport(config: Config): ContrastReport {
+  const { palette } = config.colors;
+  const icons = palette.map((color) => {
+    const iconColor = getIconColor(color, config);
+    const visibleColor = getVisibleIconColor(color, iconColor, config);
+    const ratio = chroma.contrast(visibleColor, color);
+    return { color, iconColor, visibleColor, ratio, readable: ratio >= MIN_ICON_CONTRAST };
+  });
+
+  const seen = VISIONS.map((vision) => palette.map((color) => simulateVision(color, vision)));
+  const similar: SimilarColors[] = [];
+  for (let first = 0; first < palette.length; first++) {
+    for (let second = first + 1; second < palette.length; second++) {
+      const visions = VISIONS.filter(
+        (_, i) => chroma.deltaE(seen[i][first], seen[i][second]) < MIN_COLOR_DIFFERENCE
+      );
+      if (visions.length > 0) {
+        similar.push({ first, second, visions });
+      }
+    }
+  }
+  return { icons, similar };
+}
+
+/** How a color looks with the given vision */
+export function simulateVision(color: string, vision: Vision): string {
+  if (vision === 'normal') {
+    return chroma(color).hex();
+  }
+  const matrix = CVD_MATRICES[vision];
+  const linear = chroma(color)
+    .rgb(false)
+    .map((channel) => toLinear(channel / 255));
+  const simulated = [0, 1, 2].map((row) => {
+    const value =
+      matrix[row * 3] * linear[0] + matrix[row * 3 + 1] * linear[1] + matrix[row * 3 + 2] * linear[2];
+    return fromLinear(Math.min(1, Math.max(0, value))) * 255;
+  });
+  return chroma(simulated[0], simulated[1], simulated[2]).hex();
+}
+
+/** sRGB channel (0 to 1) to linear light */
+function toLinear(value: number): number {
+  return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+}
+
+/** Linear light to an sRGB channel (0 to 1) */
+function fromLinear(value: number): number {
+  return value <= 0.0031308 ? value * 12.92 : 1.055 * value ** (1 / 2.4) - 0.055;
+}
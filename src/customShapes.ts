@@ -0,0 +1,44 @@
+import type { ShapeDefinition } from './shapes';
+
+/**
+ * Project-specific shapes.
+ * Every entry is registered next to the built-in shapes and can then be
+ * chosen via 'shape.type', in the app as well as in the export worker and
+ * the CLI. Only draw the outline once into the given path: the canvas
+ * renderer and the SVG export both use it. Example:
+ *
+ *   {
+ *     name: 'triangle-down',
+ *     label: 'Triangle (pointing down)',
+ *     draw(path, { radius }) {
+ *       path.moveTo(0, radius);
+ *       path.lineTo(-radius, -radius / 2);
+ *       path.lineTo(radius, -radius / 2);
+ *       path.closePath();
+ *     },
+ *   },
+ */
+export const CUSTOM_SHAPES: ShapeDefinition[] = [
+  {
+    name: 'cross',
+    label: 'Cross',
+    draw(path, { radius }) {
+      // Plus sign with arms of a third of the width
+      const arm = radius / 3;
+      path.polygon([
+        { x: -arm, y: -radius },
+        { x: arm, y: -radius },
+        { x: arm, y: -arm },
+        { x: radius, y: -arm },
+        { x: radius, y: arm },
+        { x: arm, y: arm },
+        { x: arm, y: radius },
+        { x: -arm, y: radius },
+        { x: -arm, y: arm },
+        { x: -radius, y: arm },
+        { x: -radius, y: -arm },
+        { x: -arm, y: -arm },
+      ]);
+    },
+  },
+];
@@ -0,0 +1,31 @@
+/**
+ * Common screen resolutions for the batch export.
+ */
+
+export type DeviceCategory = 'Desktop' | 'Ultrawide' | 'Phone' | 'Tablet';
+
+export interface DevicePreset {
+  name: string;
+  category: DeviceCategory;
+  width: number;
+  height: number;
+}
+
+export const DEVICE_PRESETS: DevicePreset[] = [
+  { name: '1080p (Full HD)', category: 'Desktop', width: 1920, height: 1080 },
+  { name: '1440p (QHD)', category: 'Desktop', width: 2560, height: 1440 },
+  { name: '4K (UHD)', category: 'Desktop', width: 3840, height: 2160 },
+  { name: '5K', category: 'Desktop', width: 5120, height: 2880 },
+  { name: '8K', category: 'Desktop', width: 7680, height: 4320 },
+  { name: 'MacBook Air 13"', category: 'Desktop', width: 2560, height: 1664 },
+  { name: 'Ultrawide 1080p (21:9)', category: 'Ultrawide', width: 2560, height: 1080 },
+  { name: 'Ultrawide 1440p (21:9)', category: 'Ultrawide', width: 3440, height: 1440 },
+  { name: 'Super ultrawide (32:9)', category: 'Ultrawide', width: 5120, height: 1440 },
+  { name: 'iPhone 15 / 16', category: 'Phone', width: 1179, height: 2556 },
+  { name: 'iPhone 15 / 16 Pro Max', category: 'Phone', width: 1290, height: 2796 },
+  { name: 'Android (FHD+)', category: 'Phone', width: 1080, height: 2400 },
+  { name: 'Pixel 8 Pro', category: 'Phone', width: 1344, height: 2992 },
+  { name: 'iPad 10.9"', category: 'Tablet', width: 1640, height: 2360 },
+  { name: 'iPad Pro 12.9"', category: 'Tablet', width: 2048, height: 2732 },
+  { name: 'Android tablet (16:10)', category: 'Tablet', width: 2560, height: 1600 },
+];
@@ -0,0 +1,63 @@
+import type { RenderJob } from './pngExport';
+import type { RenderWorkerResponse } from './renderWorker';
+
+/**
+ * Main-thread side of the render worker.
+ * Every export gets its own worker, so cancelling simply terminates it.
+ */
+
+/** Thrown when an export is cancelled via its AbortSignal */
+export class RenderCancelledError extends Error {
+  constructor() {
+    super('The export was cancelled.');
+    this.name = 'RenderCancelledError';
+  }
+}
+
+/**
+ * Renders the job as PNG in a web worker.
+ * 'onProgress' receives the finished share from 0 to 1.
+ * @throws RenderCancelledError if 'signal' is aborted
+ */
+export function renderPngInWorker(
+  job: RenderJob,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RenderCancelledError());
+      return;
+    }
+    const worker = new Worker(new URL('./renderWorker.ts', import.meta.url), {
+      type: 'module',
+    });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(new RenderCancelledError());
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.addEventListener('message', (event: MessageEvent<RenderWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.progress);
+      } else if (message.type === 'done') {
+        finish();
+        resolve(message.png);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    });
+    worker.addEventListener('error', (event) => {
+      finish();
+      reject(new Error(event.message || 'The render worker could not be started.'));
+    });
+    worker.postMessage(job);
+  });
+}
@@ -0,0 +1,204 @@
+import type { SettingsDocument } from './settings';
+import { VariationStore, type Variation } from './variationStore';
+
+/** Width of the stored thumbnails; large enough for the side by side comparison */
+const THUMBNAIL_WIDTH = 640;
+
+/**
+ * The gallery of saved variations.
+ * "Save variation" stores the current settings with a thumbnail of the
+ * preview; the dialog lists them, opens or deletes them and compares
+ * selected variations side by side.
+ */
+export class Gallery {
+  private store = new VariationStore();
+  private canvas: HTMLCanvasElement;
+  private getSettings: () => string;
+  private openVariation: (settings: string) => void;
+  private dialog = document.getElementById('galleryDialog') as HTMLDialogElement;
+  private grid = document.getElementById('galleryGrid') as HTMLDivElement;
+  private compareView = document.getElementById('galleryCompare') as HTMLDivElement;
+  private compareButton = document.getElementById('compareVariations') as HTMLButtonElement;
+  private statusElement = document.getElementById('galleryStatus') as HTMLDivElement;
+  /** Variations checked for the comparison, by id */
+  private selected = new Set<number>();
+  /** Object URLs of the shown thumbnails, revoked when the list is shown again */
+  private thumbnailUrls = new Map<number, string>();
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    getSettings: () => string,
+    openVariation: (settings: string) => void
+  ) {
+    this.canvas = canvas;
+    this.getSettings = getSettings;
+    this.openVariation = openVariation;
+
+    const saveButton = document.getElementById('saveVariation') as HTMLButtonElement;
+    saveButton.addEventListener('click', async () => {
+      saveButton.disabled = true;
+      try {
+        await this.save();
+        const label = saveButton.textContent;
+        saveButton.textContent = 'Saved!';
+        setTimeout(() => {
+          saveButton.textContent = label;
+        }, 2000);
+      } catch (error) {
+        console.error('Error saving the variation:', error);
+        window.alert(`The variation could not be saved: ${(error as Error).message}`);
+      } finally {
+        saveButton.disabled = false;
+      }
+    });
+    (document.getElementById('openGallery') as HTMLButtonElement).addEventListener(
+      'click',
+      () => {
+        this.selected.clear();
+        this.showCompare(false);
+        this.dialog.showModal();
+        this.refresh();
+      }
+    );
+    (document.getElementById('closeGallery') as HTMLButtonElement).addEventListener(
+      'click',
+      () => this.dialog.close()
+    );
+    this.compareButton.addEventListener('click', () => {
+      this.showCompare(this.compareView.hidden);
+    });
+  }
+
+  /** Stores the current settings with a thumbnail of the preview */
+  private async save(): Promise<void> {
+    const { width, height } = this.canvas;
+    const scale = Math.min(1, THUMBNAIL_WIDTH / width);
+    const thumbnail = new OffscreenCanvas(
+      Math.max(1, Math.round(width * scale)),
+      Math.max(1, Math.round(height * scale))
+    );
+    thumbnail.getContext('2d')!.drawImage(this.canvas, 0, 0, thumbnail.width, thumbnail.height);
+    await this.store.add({
+      settings: this.getSettings(),
+      thumbnail: await thumbnail.convertToBlob({ type: 'image/png' }),
+      created: Date.now(),
+    });
+    if (this.dialog.open) {
+      await this.refresh();
+    }
+  }
+
+  /** Loads the variations from the store and shows them */
+  private async refresh(): Promise<void> {
+    let variations: Variation[];
+    try {
+      variations = await this.store.list();
+    } catch (error) {
+      console.error('Error loading the variations:', error);
+      this.statusElement.textContent = `Variations could not be loaded: ${(error as Error).message}`;
+      return;
+    }
+    for (const url of this.thumbnailUrls.values()) {
+      URL.revokeObjectURL(url);
+    }
+    this.thumbnailUrls.clear();
+    // Deleted variations can no longer be compared
+    const ids = new Set(variations.map((variation) => variation.id));
+    for (const id of this.selected) {
+      if (!ids.has(id)) {
+        this.selected.delete(id);
+      }
+    }
+
+    this.grid.replaceChildren(...variations.map((variation) => this.createCard(variation)));
+    this.statusElement.textContent =
+      variations.length === 0 ? 'No saved variations yet. Use "★ Save variation" first.' : '';
+    this.updateCompare();
+  }
+
+  private createCard(variation: Variation): HTMLElement {
+    const url = URL.createObjectURL(variation.thumbnail);
+    this.thumbnailUrls.set(variation.id, url);
+
+    const card = document.createElement('div');
+    card.className = 'gallery-card';
+    const image = document.createElement('img');
+    image.src = url;
+    image.alt = 'Saved variation';
+    const caption = document.createElement('small');
+    caption.textContent = describe(variation);
+
+    const compareLabel = document.createElement('label');
+    const compareInput = document.createElement('input');
+    compareInput.type = 'checkbox';
+    compareInput.checked = this.selected.has(variation.id);
+    compareInput.addEventListener('change', () => {
+      if (compareInput.checked) {
+        this.selected.add(variation.id);
+      } else {
+        this.selected.delete(variation.id);
+      }
+      this.updateCompare();
+    });
+    compareLabel.append(compareInput, ' Compare');
+
+    const openButton = document.createElement('button');
+    openButton.textContent = 'Open';
+    openButton.addEventListener('click', () => {
+      this.dialog.close();
+      this.openVariation(variation.settings);
+    });
+    const deleteButton = document.createElement('button');
+    deleteButton.className = 'secondary-button';
+    deleteButton.textContent = 'Delete';
+    deleteButton.addEventListener('click', async () => {
+      try {
+        await this.store.delete(variation.id);
+      } catch (error) {
+        console.error('Error deleting the variation:', error);
+      }
+      await this.refresh();
+    });
+
+    const actions = document.createElement('div');
+    actions.className = 'button-row';
+    actions.append(openButton, deleteButton);
+    card.append(image, caption, compareLabel, actions);
+    return card;
+  }
+
+  /** Fills the comparison with the selected thumbnails in list order */
+  private updateCompare(): void {
+    this.compareButton.disabled = this.selected.size < 2;
+    if (this.selected.size < 2) {
+      this.showCompare(false);
+    }
+    const images = [...this.thumbnailUrls]
+      .filter(([id]) => this.selected.has(id))
+      .map(([, url]) => {
+        const image = document.createElement('img');
+        image.src = url;
+        image.alt = 'Compared variation';
+        return image;
+      });
+    this.compareView.replaceChildren(...images);
+  }
+
+  /** Switches between the list and the side by side comparison */
+  private showCompare(compare: boolean): void {
+    this.compareView.hidden = !compare;
+    this.grid.hidden = compare;
+    this.compareButton.textContent = compare ? 'Back to list' : 'Compare selected';
+  }
+}
+
+/** Caption of a variation: seed, size and time of saving */
+function describe(variation: Variation): string {
+  const created = new Date(variation.created).toLocaleString();
+  try {
+    const { seed, config } = JSON.parse(variation.settings) as SettingsDocument;
+    return `Seed ${seed}, ${config.canvasSize.width}×${config.canvasSize.height} – ${created}`;
+  } catch {
+    return created;
+  }
+}
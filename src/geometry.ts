@@ -0,0 +1,71 @@
+/**
+ * Shape geometry shared by the canvas renderer and the SVG export,
+ * so both outputs place every corner at exactly the same position.
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Returns the corner points of a regular polygon.
+ * The first corner points straight up.
+ */
+export function getPolygonPoints(
+  x: number,
+  y: number,
+  radius: number,
+  sides: number
+): Point[] {
+  const points: Point[] = [];
+  const slice = (Math.PI * 2) / sides;
+  const startAngle = -Math.PI / 2;
+
+  for (let i = 0; i < sides; i++) {
+    const angle = startAngle + i * slice;
+    points.push({
+      x: x + radius * Math.cos(angle),
+      y: y + radius * Math.sin(angle),
+    });
+  }
+  return points;
+}
+
+/**
+ * Distance between two points. If 'wrap' is given, the plane is a torus of
+ * that size: a point at the right edge is close to one at the left edge.
+ */
+export function getDistance(
+  a: Point,
+  b: Point,
+  wrap?: { width: number; height: number }
+): number {
+  let dx = Math.abs(a.x - b.x);
+  let dy = Math.abs(a.y - b.y);
+  if (wrap) {
+    dx %= wrap.width;
+    dy %= wrap.height;
+    dx = Math.min(dx, wrap.width - dx);
+    dy = Math.min(dy, wrap.height - dy);
+  }
+  return Math.hypot(dx, dy);
+}
+
+/**
+ * Direction from 'a' to 'b' in radians (0 = right, clockwise on the canvas).
+ * With 'wrap', the shortest way around the torus is taken (tile mode).
+ */
+export function getDirection(
+  a: Point,
+  b: Point,
+  wrap?: { width: number; height: number }
+): number {
+  let dx = b.x - a.x;
+  let dy = b.y - a.y;
+  if (wrap) {
+    dx -= wrap.width * Math.round(dx / wrap.width);
+    dy -= wrap.height * Math.round(dy / wrap.height);
+  }
+  return Math.atan2(dy, dx);
+}
@@ -0,0 +1,309 @@
+/**
+ * Animated GIF encoder for the animation export.
+ * GIF frames hold at most 256 colors, so every frame gets its own palette
+ * by median cut over its colors (reduced to 5 bits per channel). Pixels
+ * that are mostly transparent become the transparent palette entry.
+ */
+
+/** Bits kept per color channel for the histogram */
+const CHANNEL_BITS = 5;
+const LEVELS = 1 << CHANNEL_BITS;
+/** Palette entries for colors; the last of the 256 is transparent */
+const MAX_COLORS = 255;
+const TRANSPARENT_INDEX = 255;
+/** Pixels below this alpha are transparent; GIF knows no partial transparency */
+const ALPHA_THRESHOLD = 128;
+/** GIF limits LZW codes to 12 bits */
+const MAX_CODE = 4095;
+/** Frame is removed before the next one, so transparent pixels don't show the old frame */
+const DISPOSE_TO_BACKGROUND = 2;
+
+/** Histogram bin of a color */
+function toBin(r: number, g: number, b: number): number {
+  const shift = 8 - CHANNEL_BITS;
+  return ((r >> shift) << (2 * CHANNEL_BITS)) | ((g >> shift) << CHANNEL_BITS) | (b >> shift);
+}
+
+function getChannel(bin: number, channel: number): number {
+  return (bin >> ((2 - channel) * CHANNEL_BITS)) & (LEVELS - 1);
+}
+
+/** Colors of a median cut box */
+interface ColorBox {
+  bins: number[];
+  /** Pixels in the box */
+  count: number;
+}
+
+/** Channel with the widest range in the box, and that range */
+function getWidestChannel(box: ColorBox): { channel: number; range: number } {
+  let widest = { channel: 0, range: -1 };
+  for (let channel = 0; channel < 3; channel++) {
+    let min = LEVELS;
+    let max = -1;
+    for (const bin of box.bins) {
+      const value = getChannel(bin, channel);
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }
+    if (max - min > widest.range) {
+      widest = { channel, range: max - min };
+    }
+  }
+  return widest;
+}
+
+/**
+ * Palette of up to MAX_COLORS colors by median cut.
+ * Returns the palette as RGB triples and the palette index of every
+ * histogram bin that occurs.
+ */
+function quantize(histogram: Uint32Array): { palette: number[]; indices: Uint8Array } {
+  const bins: number[] = [];
+  let total = 0;
+  histogram.forEach((count, bin) => {
+    if (count > 0) {
+      bins.push(bin);
+      total += count;
+    }
+  });
+  const boxes: ColorBox[] = bins.length > 0 ? [{ bins, count: total }] : [];
+
+  while (boxes.length < MAX_COLORS) {
+    // Split the box with the most pixels and a range left to split
+    let index = -1;
+    for (let i = 0; i < boxes.length; i++) {
+      if (boxes[i].bins.length > 1 && (index < 0 || boxes[i].count > boxes[index].count)) {
+        index = i;
+      }
+    }
+    if (index < 0) {
+      break;
+    }
+    const box = boxes[index];
+    const { channel } = getWidestChannel(box);
+    box.bins.sort((a, b) => getChannel(a, channel) - getChannel(b, channel));
+    // Cut where half of the pixels are on either side
+    let sum = 0;
+    let cut = 1;
+    for (; cut < box.bins.length - 1; cut++) {
+      sum += histogram[box.bins[cut - 1]];
+      if (sum >= box.count / 2) {
+        break;
+      }
+    }
+    const lower = box.bins.slice(0, cut);
+    const upper = box.bins.slice(cut);
+    const countOf = (part: number[]) => part.reduce((sum, bin) => sum + histogram[bin], 0);
+    boxes.splice(
+      index,
+      1,
+      { bins: lower, count: countOf(lower) },
+      { bins: upper, count: countOf(upper) }
+    );
+  }
+
+  // Every box becomes the average of its colors, weighted by their pixels
+  const palette: number[] = [];
+  const indices = new Uint8Array(histogram.length);
+  boxes.forEach((box, i) => {
+    const sums = [0, 0, 0];
+    for (const bin of box.bins) {
+      indices[bin] = i;
+      for (let channel = 0; channel < 3; channel++) {
+        sums[channel] += (getChannel(bin, channel) + 0.5) * histogram[bin];
+      }
+    }
+    for (const value of sums) {
+      palette.push(Math.round((value / box.count) * (256 / LEVELS)) & 0xff);
+    }
+  });
+  return { palette, indices };
+}
+
+/** Growing byte buffer */
+class ByteWriter {
+  private bytes = new Uint8Array(1024);
+  public length = 0;
+
+  public byte(value: number): void {
+    if (this.length === this.bytes.length) {
+      const larger = new Uint8Array(this.bytes.length * 2);
+      larger.set(this.bytes);
+      this.bytes = larger;
+    }
+    this.bytes[this.length++] = value;
+  }
+
+  public word(value: number): void {
+    this.byte(value & 0xff);
+    this.byte((value >> 8) & 0xff);
+  }
+
+  public string(text: string): void {
+    for (let i = 0; i < text.length; i++) {
+      this.byte(text.charCodeAt(i));
+    }
+  }
+
+  public toArray(): Uint8Array<ArrayBuffer> {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+/**
+ * LZW compression of the palette indices as GIF expects it, written in
+ * sub-blocks of at most 255 bytes.
+ */
+function writeLzw(out: ByteWriter, indices: Uint8Array, minCodeSize: number): void {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  // Codes of the known sequences, by prefix code and next index
+  let table = new Map<number, number>();
+
+  let block: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const flushBlock = () => {
+    out.byte(block.length);
+    block.forEach((value) => out.byte(value));
+    block = [];
+  };
+  const writeCode = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+      if (block.length === 255) {
+        flushBlock();
+      }
+    }
+  };
+
+  out.byte(minCodeSize);
+  writeCode(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = (prefix << 8) | index;
+    const known = table.get(key);
+    if (known !== undefined) {
+      prefix = known;
+      continue;
+    }
+    writeCode(prefix);
+    if (nextCode <= MAX_CODE) {
+      // The decoder grows the code size as soon as the next code needs it
+      if (nextCode === 1 << codeSize) {
+        codeSize++;
+      }
+      table.set(key, nextCode++);
+    } else {
+      // Table full: start over
+      writeCode(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = index;
+  }
+  writeCode(prefix);
+  writeCode(endCode);
+  if (bitCount > 0) {
+    block.push(bitBuffer & 0xff);
+  }
+  if (block.length > 0) {
+    flushBlock();
+  }
+  out.byte(0); // Block terminator
+}
+
+export class GifEncoder {
+  private width: number;
+  private height: number;
+  /** Frame duration in hundredths of a second, the unit of GIF */
+  private delay: number;
+  private out = new ByteWriter();
+
+  /** Every frame is shown 1/fps seconds (rounded to 1/100); the animation loops forever */
+  constructor(width: number, height: number, fps: number) {
+    if (width > 0xffff || height > 0xffff) {
+      throw new Error('GIF images can be at most 65535 pixels wide and high.');
+    }
+    this.width = width;
+    this.height = height;
+    this.delay = Math.max(2, Math.round(100 / fps));
+
+    const out = this.out;
+    out.string('GIF89a');
+    out.word(width);
+    out.word(height);
+    out.byte(0); // No global palette; every frame has its own
+    out.byte(0); // Background color index
+    out.byte(0); // Pixel aspect ratio
+    // Netscape extension: repeat endlessly
+    out.byte(0x21);
+    out.byte(0xff);
+    out.byte(11);
+    out.string('NETSCAPE2.0');
+    out.byte(3);
+    out.byte(1);
+    out.word(0);
+    out.byte(0);
+  }
+
+  /** Adds the next frame; 'pixels' holds its RGBA data as returned by getImageData */
+  public addFrame(pixels: Uint8ClampedArray): void {
+    const pixelCount = this.width * this.height;
+    const histogram = new Uint32Array(LEVELS * LEVELS * LEVELS);
+    for (let i = 0; i < pixelCount; i++) {
+      const p = i * 4;
+      if (pixels[p + 3] >= ALPHA_THRESHOLD) {
+        histogram[toBin(pixels[p], pixels[p + 1], pixels[p + 2])]++;
+      }
+    }
+    const { palette, indices } = quantize(histogram);
+    const frame = new Uint8Array(pixelCount);
+    let transparent = false;
+    for (let i = 0; i < pixelCount; i++) {
+      const p = i * 4;
+      if (pixels[p + 3] >= ALPHA_THRESHOLD) {
+        frame[i] = indices[toBin(pixels[p], pixels[p + 1], pixels[p + 2])];
+      } else {
+        frame[i] = TRANSPARENT_INDEX;
+        transparent = true;
+      }
+    }
+
+    const out = this.out;
+    // Graphic control extension: duration, disposal and transparency
+    out.byte(0x21);
+    out.byte(0xf9);
+    out.byte(4);
+    out.byte((DISPOSE_TO_BACKGROUND << 2) | (transparent ? 1 : 0));
+    out.word(this.delay);
+    out.byte(TRANSPARENT_INDEX);
+    out.byte(0);
+    // Image descriptor with a local palette of 256 entries (2^(7+1))
+    out.byte(0x2c);
+    out.word(0);
+    out.word(0);
+    out.word(this.width);
+    out.word(this.height);
+    out.byte(0x80 | 7);
+    for (let i = 0; i < 256 * 3; i++) {
+      out.byte(palette[i] ?? 0);
+    }
+    writeLzw(out, frame, 8);
+  }
+
+  /** Finishes the animation */
+  public finish(): Blob {
+    this.out.byte(0x3b); // Trailer
+    return new Blob([this.out.toArray()], { type: 'image/gif' });
+  }
+}
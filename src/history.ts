@@ -0,0 +1,54 @@
+/**
+ * Undo and redo of settings changes and re-rolled seeds.
+ * Every state is stored as serialized settings (see settings.ts), so
+ * restoring one goes through the same path as importing a settings file.
+ */
+
+/** Oldest states are dropped beyond this number */
+const MAX_STATES = 50;
+
+export class SettingsHistory {
+  private states: string[] = [];
+  /** Index of the current state in 'states', -1 while empty */
+  private index = -1;
+
+  /**
+   * Records a new state after the current one; redoable states are dropped.
+   * Nothing happens if the state equals the current one.
+   */
+  public push(state: string): void {
+    if (this.states[this.index] === state) {
+      return;
+    }
+    this.states.splice(this.index + 1);
+    this.states.push(state);
+    if (this.states.length > MAX_STATES) {
+      this.states.shift();
+    }
+    this.index = this.states.length - 1;
+  }
+
+  public canUndo(): boolean {
+    return this.index > 0;
+  }
+
+  public canRedo(): boolean {
+    return this.index < this.states.length - 1;
+  }
+
+  /** Steps back and returns the state to restore, or null at the oldest state */
+  public undo(): string | null {
+    if (!this.canUndo()) {
+      return null;
+    }
+    return this.states[--this.index];
+  }
+
+  /** Steps forward and returns the state to restore, or null at the newest state */
+  public redo(): string | null {
+    if (!this.canRedo()) {
+      return null;
+    }
+    return this.states[++this.index];
+  }
+}
@@ -0,0 +1,155 @@
+import type { RenderContext } from './render';
+
+/**
+ * Sprite atlas of the uploaded SVG icons.
+ * The SVGs are rasterized once into the cells of one image; drawing then
+ * only copies cells, tinted in the color of the symbol.
+ */
+
+/** Canvas of the atlas and the sprites: in the page, a worker or Node */
+export type AtlasCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type CanvasFactory = (width: number, height: number) => AtlasCanvas;
+
+/** A loaded icon image with its natural size */
+export interface AtlasImage {
+  image: CanvasImageSource;
+  width: number;
+  height: number;
+}
+
+/** The packed icons; can be sent to the render worker */
+export interface IconAtlasData {
+  image: CanvasImageSource;
+  /** Side of the square cells in pixels */
+  cellSize: number;
+  columns: number;
+  count: number;
+}
+
+/** Upper limit of the cell size, keeps the atlas small for huge font sizes */
+const MAX_CELL_SIZE = 256;
+/** Cells have 4× the resolution of the icons, so exports up to scale 4 stay sharp */
+const CELL_RESOLUTION = 4;
+
+export function getAtlasCellSize(fontSize: number): number {
+  return Math.min(MAX_CELL_SIZE, Math.ceil(fontSize * CELL_RESOLUTION));
+}
+
+function getContext(canvas: AtlasCanvas): RenderContext {
+  return canvas.getContext('2d') as RenderContext;
+}
+
+/**
+ * Draws the images into the cells of one canvas, centered and scaled to fit.
+ * Missing images (null) leave their cell empty.
+ */
+export function packIconAtlas(
+  images: (AtlasImage | null)[],
+  cellSize: number,
+  createCanvas: CanvasFactory
+): { canvas: AtlasCanvas; columns: number } {
+  const columns = Math.max(1, Math.ceil(Math.sqrt(images.length)));
+  const rows = Math.max(1, Math.ceil(images.length / columns));
+  const canvas = createCanvas(columns * cellSize, rows * cellSize);
+  const ctx = getContext(canvas);
+  images.forEach((entry, i) => {
+    if (!entry || entry.width <= 0 || entry.height <= 0) {
+      return;
+    }
+    const scale = cellSize / Math.max(entry.width, entry.height);
+    const width = entry.width * scale;
+    const height = entry.height * scale;
+    ctx.drawImage(
+      entry.image,
+      (i % columns) * cellSize + (cellSize - width) / 2,
+      Math.floor(i / columns) * cellSize + (cellSize - height) / 2,
+      width,
+      height
+    );
+  });
+  return { canvas, columns };
+}
+
+/** Loads SVG markup as image; null if the browser cannot render it */
+async function loadSvgImage(svg: string): Promise<AtlasImage | null> {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return { image, width: image.naturalWidth, height: image.naturalHeight };
+  } catch {
+    return null;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/** Rasterizes SVG icons in the browser; the result can be transferred to workers */
+export async function rasterizeSvgIcons(
+  svgs: string[],
+  cellSize: number
+): Promise<IconAtlasData> {
+  const images = await Promise.all(svgs.map(loadSvgImage));
+  const { canvas, columns } = packIconAtlas(
+    images,
+    cellSize,
+    (width, height) => new OffscreenCanvas(width, height)
+  );
+  return {
+    image: (canvas as OffscreenCanvas).transferToImageBitmap(),
+    cellSize,
+    columns,
+    count: svgs.length,
+  };
+}
+
+/** Number of tinted sprites kept; the cache starts over when it is full */
+const MAX_SPRITES = 1024;
+
+/** Hands out the atlas icons in the colors of the symbols */
+export class IconAtlas {
+  private data: IconAtlasData;
+  private createCanvas: CanvasFactory;
+  /** Tinted sprites by icon and color; symbols share few colors */
+  private sprites = new Map<string, AtlasCanvas>();
+
+  constructor(data: IconAtlasData, createCanvas: CanvasFactory) {
+    this.data = data;
+    this.createCanvas = createCanvas;
+  }
+
+  /** The icon in the given color, or null if the atlas does not contain it */
+  public getSprite(index: number, color: string): AtlasCanvas | null {
+    if (index < 0 || index >= this.data.count) {
+      return null;
+    }
+    const key = `${index}|${color}`;
+    let sprite = this.sprites.get(key);
+    if (!sprite) {
+      if (this.sprites.size >= MAX_SPRITES) {
+        this.sprites.clear();
+      }
+      const { image, cellSize, columns } = this.data;
+      sprite = this.createCanvas(cellSize, cellSize);
+      const ctx = getContext(sprite);
+      ctx.drawImage(
+        image,
+        (index % columns) * cellSize,
+        Math.floor(index / columns) * cellSize,
+        cellSize,
+        cellSize,
+        0,
+        0,
+        cellSize,
+        cellSize
+      );
+      // Keeps the shape of the icon, but fills it with the color
+      ctx.globalCompositeOperation = 'source-in';
+      ctx.fillStyle = color;
+      ctx.fillRect(0, 0, cellSize, cellSize);
+      this.sprites.set(key, sprite);
+    }
+    return sprite;
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Names and search terms of the Font Awesome icons, for the icon picker.
+ * They come from the metadata of the npm package (icons.yml); only the
+ * solid style matches the bundled font.
+ */
+
+export interface CatalogIcon {
+  /** Font Awesome name, e.g. 'server' */
+  name: string;
+  label: string;
+  /** Hex codepoint as used in 'symbols.list' */
+  code: string;
+  /** Further search terms from the metadata */
+  terms: string[];
+}
+
+export interface IconPack {
+  name: string;
+  /** Font Awesome names of the icons */
+  icons: string[];
+}
+
+/** Curated packs for common team themes */
+export const ICON_PACKS: IconPack[] = [
+  {
+    name: 'Dev / Ops',
+    icons: [
+      'server', 'database', 'code', 'terminal', 'bug', 'code-branch',
+      'network-wired', 'cloud', 'cogs', 'microchip', 'hdd', 'memory', 'sitemap',
+      'project-diagram', 'laptop-code', 'shield-alt', 'lock', 'key', 'robot',
+      'cubes', 'stream', 'tachometer-alt', 'file-code', 'sync-alt',
+    ],
+  },
+  {
+    name: 'Music',
+    icons: [
+      'music', 'guitar', 'drum', 'drum-steelpan', 'headphones', 'headphones-alt',
+      'microphone', 'microphone-alt', 'compact-disc', 'record-vinyl', 'volume-up',
+      'play', 'pause', 'stop', 'forward', 'backward', 'sliders-h',
+      'broadcast-tower', 'podcast', 'file-audio',
+    ],
+  },
+  {
+    name: 'Science',
+    icons: [
+      'flask', 'atom', 'microscope', 'dna', 'vial', 'vials', 'magnet',
+      'satellite', 'rocket', 'brain', 'calculator', 'infinity', 'square-root-alt',
+      'radiation', 'biohazard', 'bacteria', 'virus', 'seedling',
+      'thermometer-half', 'meteor', 'globe', 'binoculars', 'prescription-bottle',
+    ],
+  },
+  {
+    name: 'Travel',
+    icons: [
+      'plane', 'suitcase', 'suitcase-rolling', 'map', 'map-marked-alt', 'compass',
+      'globe-europe', 'passport', 'hotel', 'umbrella-beach', 'mountain', 'car',
+      'bus', 'train', 'ship', 'camera', 'route', 'luggage-cart', 'campground',
+      'anchor', 'bicycle', 'subway', 'taxi', 'map-pin',
+    ],
+  },
+];
+
+/** Removes the quotes of a YAML scalar */
+function unquote(value: string): string {
+  if (value.startsWith("'") && value.endsWith("'")) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (value.startsWith('"') && value.endsWith('"')) {
+    return value.slice(1, -1);
+  }
+  return value;
+}
+
+/**
+ * Reads the solid icons from Font Awesome's icons.yml.
+ * Not a general YAML parser: it relies on the fixed layout of that file
+ * (one icon per top-level key, fields indented by two spaces).
+ */
+export function parseIconMetadata(yaml: string): CatalogIcon[] {
+  const icons: CatalogIcon[] = [];
+  let current: (CatalogIcon & { styles: string[] }) | null = null;
+  /** Field whose list entries follow ('styles' or 'terms') */
+  let list: 'styles' | 'terms' | null = null;
+
+  const finish = () => {
+    if (current?.code && current.styles.includes('solid')) {
+      const { styles: _styles, ...icon } = current;
+      icons.push(icon);
+    }
+  };
+
+  for (const line of yaml.split(/\r?\n/)) {
+    const key = /^([\w-]+):\s*$/.exec(line);
+    if (key) {
+      finish();
+      current = { name: key[1], label: key[1], code: '', terms: [], styles: [] };
+      list = null;
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+    const field = /^ {2,4}(\w+):\s*(.*)$/.exec(line);
+    if (field) {
+      const [, name, value] = field;
+      list = name === 'styles' || name === 'terms' ? name : null;
+      if (name === 'label') {
+        current.label = unquote(value);
+      } else if (name === 'unicode') {
+        current.code = unquote(value).toLowerCase();
+      }
+      continue;
+    }
+    const entry = /^\s+- (.*)$/.exec(line);
+    if (entry && list === 'styles') {
+      current.styles.push(unquote(entry[1]));
+    } else if (entry && list === 'terms') {
+      current.terms.push(unquote(entry[1]));
+    }
+  }
+  finish();
+  return icons;
+}
+
+/**
+ * Icons matching every word of the query in their name, label or terms.
+ * Matches in the name come first. An empty query matches all icons.
+ */
+export function searchIcons(icons: CatalogIcon[], query: string): CatalogIcon[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return icons;
+  }
+  const rank = (icon: CatalogIcon) => (words.every((word) => icon.name.includes(word)) ? 0 : 1);
+  return icons
+    .filter((icon) => {
+      const text = [icon.name, icon.label, ...icon.terms].join(' ').toLowerCase();
+      return words.every((word) => text.includes(word));
+    })
+    .sort((a, b) => rank(a) - rank(b));
+}
+
+/** Codepoints of the pack icons that exist in the catalog */
+export function getPackCodes(pack: IconPack, icons: CatalogIcon[]): string[] {
+  const codesByName = new Map(icons.map((icon) => [icon.name, icon.code]));
+  return pack.icons.flatMap((name) => codesByName.get(name) ?? []);
+}
@@ -0,0 +1,26 @@
+import iconFontUrl from '@fortawesome/fontawesome-free/webfonts/fa-solid-900.woff2?url';
+import { ICON_FONT_FAMILY } from './icons';
+
+/**
+ * Font Awesome from the npm package, bundled by Vite,
+ * so the app also works offline.
+ */
+
+const loaded = new WeakMap<FontFaceSet, Promise<void>>();
+
+/**
+ * Loads the bundled icon font into a font set. Pages and workers have
+ * separate font sets, so both call this with their own.
+ */
+export function loadIconFont(fonts: FontFaceSet): Promise<void> {
+  let promise = loaded.get(fonts);
+  if (!promise) {
+    promise = new FontFace(ICON_FONT_FAMILY, `url("${iconFontUrl}")`, { weight: '900' })
+      .load()
+      .then((font) => {
+        fonts.add(font);
+      });
+    loaded.set(fonts, promise);
+  }
+  return promise;
+}
@@ -0,0 +1,190 @@
+import type { Config } from './config';
+import {
+  getPackCodes,
+  ICON_PACKS,
+  parseIconMetadata,
+  searchIcons,
+  type CatalogIcon,
+} from './iconCatalog';
+
+/** Loaded on first use; the metadata is only needed by the picker */
+let catalog: Promise<CatalogIcon[]> | null = null;
+
+function loadCatalog(): Promise<CatalogIcon[]> {
+  catalog ??= import('@fortawesome/fontawesome-free/metadata/icons.yml?raw').then(
+    (module) => parseIconMetadata(module.default)
+  );
+  return catalog;
+}
+
+/**
+ * The icon picker dialog for 'symbols.list'.
+ * Shows every glyph of the bundled font with a name search and themed packs.
+ * The selection is a set, so duplicates disappear; it replaces the list
+ * on "Apply" and is reported via 'onChange'.
+ */
+export class IconPicker {
+  private config: Config;
+  private onChange: () => void;
+  private dialog: HTMLDialogElement;
+  private searchInput: HTMLInputElement;
+  private selectedOnlyInput: HTMLInputElement;
+  private grid: HTMLDivElement;
+  private statusElement: HTMLDivElement;
+  private icons: CatalogIcon[] = [];
+  /** Chosen codepoints (lower case) in the order they were chosen */
+  private selection = new Set<string>();
+
+  constructor(config: Config, onChange: () => void) {
+    this.config = config;
+    this.onChange = onChange;
+    this.dialog = document.getElementById('iconPickerDialog') as HTMLDialogElement;
+    this.searchInput = document.getElementById('iconPickerSearch') as HTMLInputElement;
+    this.selectedOnlyInput = document.getElementById('iconPickerSelectedOnly') as HTMLInputElement;
+    this.grid = document.getElementById('iconPickerGrid') as HTMLDivElement;
+    this.statusElement = document.getElementById('iconPickerStatus') as HTMLDivElement;
+
+    const openButton = document.getElementById('openIconPicker') as HTMLButtonElement;
+    const packSelect = document.getElementById('iconPickerPack') as HTMLSelectElement;
+    const addPackButton = document.getElementById('addIconPack') as HTMLButtonElement;
+    const usePackButton = document.getElementById('useIconPack') as HTMLButtonElement;
+    const clearButton = document.getElementById('clearIconSelection') as HTMLButtonElement;
+    const applyButton = document.getElementById('applyIconPicker') as HTMLButtonElement;
+    const closeButton = document.getElementById('closeIconPicker') as HTMLButtonElement;
+
+    ICON_PACKS.forEach((pack, i) => {
+      packSelect.add(new Option(`${pack.name} (${pack.icons.length})`, String(i)));
+    });
+
+    openButton.addEventListener('click', () => {
+      this.open();
+    });
+    this.searchInput.addEventListener('input', () => {
+      this.renderGrid();
+    });
+    this.selectedOnlyInput.addEventListener('change', () => {
+      this.renderGrid();
+    });
+    const selectPack = (replace: boolean) => {
+      const codes = getPackCodes(ICON_PACKS[parseInt(packSelect.value)], this.icons);
+      if (replace) {
+        this.selection.clear();
+      }
+      codes.forEach((code) => this.selection.add(code));
+      this.renderGrid();
+    };
+    addPackButton.addEventListener('click', () => selectPack(false));
+    usePackButton.addEventListener('click', () => selectPack(true));
+    clearButton.addEventListener('click', () => {
+      this.selection.clear();
+      this.renderGrid();
+    });
+    applyButton.addEventListener('click', () => {
+      if (this.apply()) {
+        this.dialog.close();
+      }
+    });
+    closeButton.addEventListener('click', () => {
+      this.dialog.close();
+    });
+  }
+
+  private async open(): Promise<void> {
+    this.selection = new Set(this.config.symbols.list.map((code) => code.toLowerCase()));
+    this.searchInput.value = '';
+    this.selectedOnlyInput.checked = false;
+    this.grid.replaceChildren();
+    this.statusElement.textContent = 'Loading icons…';
+    this.dialog.showModal();
+    try {
+      this.icons = await loadCatalog();
+    } catch (error) {
+      console.error('Error loading the icon names:', error);
+      this.statusElement.textContent = 'The icon names could not be loaded.';
+      return;
+    }
+    this.renderGrid();
+    this.searchInput.focus();
+  }
+
+  /**
+   * Replaces 'symbols.list' with the selection. Icons that stay keep their
+   * position and weight, new ones are appended.
+   * @returns false if nothing would be left to draw
+   */
+  private apply(): boolean {
+    const { symbols } = this.config;
+    const sourceIcons = symbols.sources.reduce((sum, source) => sum + source.icons.length, 0);
+    if (this.selection.size === 0 && sourceIcons === 0) {
+      window.alert('Select at least one icon.');
+      return false;
+    }
+
+    const weights = new Map<string, number>();
+    symbols.list.forEach((code, i) => {
+      const normalized = code.toLowerCase();
+      if (!weights.has(normalized)) {
+        weights.set(normalized, symbols.listWeights[i] ?? 1);
+      }
+    });
+    const list = [
+      ...[...weights.keys()].filter((code) => this.selection.has(code)),
+      ...[...this.selection].filter((code) => !weights.has(code)),
+    ];
+    symbols.list = list;
+    symbols.listWeights = list.map((code) => weights.get(code) ?? 1);
+    this.onChange();
+    return true;
+  }
+
+  /** Catalog icons plus selected codepoints the catalog does not know */
+  private getAllIcons(): CatalogIcon[] {
+    const known = new Set(this.icons.map((icon) => icon.code));
+    const unknown = [...this.selection]
+      .filter((code) => !known.has(code))
+      .map((code) => ({ name: code, label: 'Not in Font Awesome 5 Free', code, terms: [] }));
+    return [...unknown, ...this.icons];
+  }
+
+  private renderGrid(): void {
+    let icons = searchIcons(this.getAllIcons(), this.searchInput.value);
+    if (this.selectedOnlyInput.checked) {
+      icons = icons.filter((icon) => this.selection.has(icon.code));
+    }
+
+    this.grid.replaceChildren(
+      ...icons.map((icon) => {
+        const item = document.createElement('label');
+        item.className = 'icon-picker-item';
+        item.title = `${icon.label} (${icon.code})`;
+
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.checked = this.selection.has(icon.code);
+        checkbox.addEventListener('change', () => {
+          if (checkbox.checked) {
+            this.selection.add(icon.code);
+          } else {
+            this.selection.delete(icon.code);
+          }
+          this.updateStatus(icons.length);
+        });
+
+        const glyph = document.createElement('span');
+        glyph.className = 'icon-picker-glyph';
+        glyph.textContent = String.fromCodePoint(parseInt(icon.code, 16));
+        const name = document.createElement('span');
+        name.className = 'icon-picker-name';
+        name.textContent = icon.name;
+
+        item.append(checkbox, glyph, name);
+        return item;
+      })
+    );
+    this.updateStatus(icons.length);
+  }
+
+  private updateStatus(shown: number): void {
+    this.statusElement.textContent = `${this.selection.size} selected, ${shown} shown`;
+  }
+}
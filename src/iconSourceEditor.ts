@@ -0,0 +1,340 @@
+import type { Config, IconSource, IconSourceType } from './config';
+import { DEFAULT_ICON_SOURCE, ICON_FONT_FAMILY, isHexCodepoint } from './icons';
+
+/** Natural size of uploaded SVGs; large enough to stay sharp in the atlas */
+const SVG_SIZE = 256;
+
+/** Hints for the icon input, by source type */
+const ICON_PLACEHOLDERS: Record<Exclude<IconSourceType, 'svg'>, string> = {
+  emoji: '🚀 🐛 ☕',
+  text: 'A B C or whole words',
+  font: 'Hex codepoints, e.g. e87d e88a',
+};
+
+/**
+ * Prepares an uploaded SVG file: without scripts and event handlers (the
+ * SVG export embeds the markup) and with a viewBox and a size, so it can
+ * be scaled and rendered as image. Returns null if the file is no SVG.
+ */
+export function normalizeSvg(text: string): string | null {
+  const doc = new DOMParser().parseFromString(text, 'image/svg+xml');
+  const svg = doc.documentElement;
+  if (svg.nodeName !== 'svg' || doc.querySelector('parsererror')) {
+    return null;
+  }
+  svg.querySelectorAll('script, foreignObject').forEach((element) => element.remove());
+  for (const element of [svg, ...svg.querySelectorAll('*')]) {
+    for (const attribute of [...element.attributes]) {
+      if (attribute.name.toLowerCase().startsWith('on')) {
+        element.removeAttribute(attribute.name);
+      }
+    }
+  }
+
+  let viewBox = (svg.getAttribute('viewBox') ?? '').split(/[\s,]+/).map(Number);
+  if (viewBox.length !== 4 || viewBox.some((value) => !Number.isFinite(value))) {
+    const width = parseFloat(svg.getAttribute('width') ?? '') || SVG_SIZE;
+    const height = parseFloat(svg.getAttribute('height') ?? '') || SVG_SIZE;
+    viewBox = [0, 0, width, height];
+    svg.setAttribute('viewBox', viewBox.join(' '));
+  }
+  const [, , width, height] = viewBox;
+  if (!(width > 0 && height > 0)) {
+    return null;
+  }
+  const scale = SVG_SIZE / Math.max(width, height);
+  svg.setAttribute('width', String(Math.round(width * scale)));
+  svg.setAttribute('height', String(Math.round(height * scale)));
+  return new XMLSerializer().serializeToString(svg);
+}
+
+/** Emoji one by one; sequences like 👩‍💻 or flags stay together */
+function splitEmoji(text: string): string[] {
+  const segmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+  return [...segmenter.segment(text)]
+    .map(({ segment }) => segment)
+    .filter((segment) => segment.trim() !== '');
+}
+
+/**
+ * The icon source panel of the settings.
+ * Lists Font Awesome and the added sources with a weight per icon, and adds
+ * emoji, text, icons of installed fonts and SVG files. Edits
+ * config.symbols directly; every change is reported via 'onChange'.
+ */
+export class IconSourceEditor {
+  private config: Config;
+  private onChange: () => void;
+  private sourceList: HTMLDivElement;
+  /** Sources whose weights are shown, so re-rendering keeps them open */
+  private openSources = new Set<string>();
+
+  constructor(config: Config, onChange: () => void) {
+    this.config = config;
+    this.onChange = onChange;
+    this.sourceList = document.getElementById('iconSourceList') as HTMLDivElement;
+
+    const typeSelect = document.getElementById('iconSourceType') as HTMLSelectElement;
+    const fontFields = document.getElementById('iconSourceFontFields') as HTMLDivElement;
+    const familyInput = document.getElementById('iconSourceFontFamily') as HTMLInputElement;
+    const weightInput = document.getElementById('iconSourceFontWeight') as HTMLInputElement;
+    const iconsInput = document.getElementById('iconSourceIcons') as HTMLInputElement;
+    const filesInput = document.getElementById('iconSourceFiles') as HTMLInputElement;
+    const addButton = document.getElementById('addIconSource') as HTMLButtonElement;
+
+    // Only text and font sources have a font; SVG files come from the file picker
+    const updateFields = () => {
+      const type = typeSelect.value as IconSourceType;
+      fontFields.hidden = type !== 'font' && type !== 'text';
+      iconsInput.hidden = type === 'svg';
+      if (type !== 'svg') {
+        iconsInput.placeholder = ICON_PLACEHOLDERS[type];
+      }
+      addButton.textContent = type === 'svg' ? 'Choose SVG files…' : 'Add icons';
+    };
+    typeSelect.addEventListener('change', updateFields);
+    updateFields();
+
+    addButton.addEventListener('click', () => {
+      const type = typeSelect.value as IconSourceType;
+      if (type === 'svg') {
+        filesInput.click();
+        return;
+      }
+      const added = this.addSource(
+        type,
+        familyInput.value.trim(),
+        parseInt(weightInput.value) || 400,
+        iconsInput.value
+      );
+      if (added) {
+        iconsInput.value = '';
+      }
+    });
+    filesInput.addEventListener('change', async () => {
+      const files = [...(filesInput.files ?? [])];
+      // Reset, so the same files can be chosen again
+      filesInput.value = '';
+      if (files.length > 0) {
+        await this.addSvgFiles(files);
+      }
+    });
+
+    this.update();
+  }
+
+  /** Writes the current sources into the panel */
+  public update(): void {
+    this.renderSources();
+  }
+
+  private changed(): void {
+    this.update();
+    this.onChange();
+  }
+
+  /** Adds a text, emoji or font source; returns false if the input is invalid */
+  private addSource(
+    type: Exclude<IconSourceType, 'svg'>,
+    fontFamily: string,
+    fontWeight: number,
+    input: string
+  ): boolean {
+    const icons = type === 'emoji' ? splitEmoji(input) : input.split(/\s+/).filter(Boolean);
+    if (icons.length === 0) {
+      window.alert('Enter at least one icon.');
+      return false;
+    }
+    if (type === 'font') {
+      if (!fontFamily) {
+        window.alert('Enter the family of the icon font.');
+        return false;
+      }
+      const invalid = icons.filter((code) => !isHexCodepoint(code));
+      if (invalid.length > 0) {
+        window.alert(`Not a hex codepoint: ${invalid.join(', ')}`);
+        return false;
+      }
+    }
+    const names: Record<typeof type, string> = {
+      emoji: 'Emoji',
+      text: fontFamily ? `Text (${fontFamily})` : 'Text',
+      font: fontFamily,
+    };
+    this.config.symbols.sources.push({
+      ...structuredClone(DEFAULT_ICON_SOURCE),
+      type,
+      name: names[type],
+      fontFamily: type === 'emoji' ? '' : fontFamily,
+      fontWeight: Math.min(1000, Math.max(1, fontWeight)),
+      icons,
+    });
+    this.changed();
+    return true;
+  }
+
+  private async addSvgFiles(files: File[]): Promise<void> {
+    const icons: string[] = [];
+    const rejected: string[] = [];
+    for (const file of files) {
+      const svg = normalizeSvg(await file.text());
+      if (svg) {
+        icons.push(svg);
+      } else {
+        rejected.push(file.name);
+      }
+    }
+    if (rejected.length > 0) {
+      window.alert(`These files are no valid SVG images: ${rejected.join(', ')}`);
+    }
+    if (icons.length === 0) {
+      return;
+    }
+    this.config.symbols.sources.push({
+      ...structuredClone(DEFAULT_ICON_SOURCE),
+      type: 'svg',
+      name: files.length === 1 ? files[0].name : `${icons.length} SVG files`,
+      icons,
+    });
+    this.changed();
+  }
+
+  /** Number of icons of all sources together */
+  private countIcons(): number {
+    const { list, sources } = this.config.symbols;
+    return list.length + sources.reduce((sum, source) => sum + source.icons.length, 0);
+  }
+
+  /** One collapsible row per source: Font Awesome first, then the added sources */
+  private renderSources(): void {
+    const { symbols } = this.config;
+    this.sourceList.replaceChildren();
+
+    this.sourceList.appendChild(
+      this.createSourceRow(
+        'fa',
+        `Font Awesome (${symbols.list.length})`,
+        symbols.list.map((code) => String.fromCodePoint(parseInt(code, 16) || 0x20)),
+        { fontFamily: `"${ICON_FONT_FAMILY}"`, fontWeight: 900 },
+        symbols.listWeights,
+        null
+      )
+    );
+
+    symbols.sources.forEach((source, i) => {
+      this.sourceList.appendChild(
+        this.createSourceRow(
+          `source-${i}`,
+          `${source.name || source.type} (${source.icons.length})`,
+          source.type === 'font'
+            ? source.icons.map((code) => String.fromCodePoint(parseInt(code, 16)))
+            : source.icons,
+          this.getPreviewFont(source),
+          source.weights,
+          // At least one icon has to remain
+          this.countIcons() > source.icons.length
+            ? () => {
+                symbols.sources.splice(i, 1);
+                this.openSources.clear();
+              }
+            : null,
+          source.type === 'svg'
+        )
+      );
+    });
+  }
+
+  private getPreviewFont(source: IconSource): { fontFamily: string; fontWeight: number } {
+    return {
+      fontFamily: source.fontFamily ? `"${source.fontFamily}"` : '',
+      fontWeight: source.fontWeight,
+    };
+  }
+
+  /**
+   * A source with its icons and a weight input per icon.
+   * 'onRemove' is null for sources that cannot be removed.
+   */
+  private createSourceRow(
+    id: string,
+    title: string,
+    icons: string[],
+    font: { fontFamily: string; fontWeight: number },
+    weights: number[],
+    onRemove: (() => void) | null,
+    isSvg = false
+  ): HTMLDetailsElement {
+    const details = document.createElement('details');
+    details.className = 'icon-source';
+    details.open = this.openSources.has(id);
+    details.addEventListener('toggle', () => {
+      if (details.open) {
+        this.openSources.add(id);
+      } else {
+        this.openSources.delete(id);
+      }
+    });
+
+    const summary = document.createElement('summary');
+    summary.append(title);
+    if (onRemove) {
+      const removeButton = document.createElement('button');
+      removeButton.type = 'button';
+      removeButton.textContent = '✕';
+      removeButton.title = 'Remove source';
+      removeButton.addEventListener('click', (event) => {
+        event.preventDefault();
+        onRemove();
+        this.changed();
+      });
+      summary.appendChild(removeButton);
+    }
+    details.appendChild(summary);
+
+    const grid = document.createElement('div');
+    grid.className = 'icon-weights';
+    icons.forEach((icon, i) => {
+      const label = document.createElement('label');
+      label.className = 'icon-weight';
+
+      let preview: HTMLElement;
+      if (isSvg) {
+        const image = document.createElement('img');
+        image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(icon)}`;
+        image.alt = '';
+        preview = image;
+      } else {
+        preview = document.createElement('span');
+        preview.textContent = icon;
+        preview.style.fontFamily = font.fontFamily;
+        preview.style.fontWeight = String(font.fontWeight);
+      }
+      preview.classList.add('icon-weight-preview');
+
+      const input = document.createElement('input');
+      input.type = 'number';
+      input.min = '0';
+      input.step = '0.5';
+      input.value = String(weights[i] ?? 1);
+      input.title = 'Weight: how often the icon is picked';
+      input.addEventListener('change', () => {
+        const weight = parseFloat(input.value);
+        if (!(weight >= 0)) {
+          input.value = String(weights[i] ?? 1);
+          return;
+        }
+        // Weights of the icons before this one may be missing; they count as 1
+        while (weights.length < i) {
+          weights.push(1);
+        }
+        weights[i] = weight;
+        this.onChange();
+      });
+
+      label.append(preview, input);
+      grid.appendChild(label);
+    });
+    details.appendChild(grid);
+    return details;
+  }
+}
@@ -0,0 +1,131 @@
+import type { Config, IconSource, IconSourceType } from './config';
+
+/**
+ * The icons a wallpaper is built from.
+ * Font Awesome ('symbols.list') and the additional sources are resolved into
+ * one flat list; symbols refer to their icon by its index in this list.
+ */
+
+/**
+ * Font Awesome webfont. The app and the CLI use the copy from the npm
+ * package; the SVG export embeds the CDN URL via @font-face, so the icons
+ * also render when the file is opened on its own.
+ */
+export const ICON_FONT_FAMILY = 'Font Awesome 5 Free';
+export const ICON_FONT_URL =
+  'https://cdnjs.cloudflare.com/ajax/libs/font-awesome/5.15.4/webfonts/fa-solid-900.woff2';
+
+export const ICON_SOURCE_TYPES: readonly IconSourceType[] = ['font', 'emoji', 'text', 'svg'];
+
+/** Template of a new source; also the schema of 'symbols.sources' entries in validate.ts */
+export const DEFAULT_ICON_SOURCE: IconSource = {
+  type: 'text',
+  name: '',
+  fontFamily: '',
+  fontWeight: 400,
+  icons: [],
+  weights: [],
+};
+
+/** Color emoji fonts of the common systems */
+const EMOJI_FONT_FAMILY = '"Apple Color Emoji", "Segoe UI Emoji", "Noto Color Emoji", sans-serif';
+
+export interface Icon {
+  /** Equal for equal icons, e.g. for the neighbor check */
+  key: string;
+  /** Text to draw; empty for SVG icons */
+  text: string;
+  /** CSS font family list and weight of the text */
+  fontFamily: string;
+  fontWeight: number;
+  /** Index of the SVG icon (see getSvgIcons), -1 for text */
+  svgIndex: number;
+  /** False for emoji, which keep their own colors */
+  tinted: boolean;
+  /** How often the icon is picked, relative to the others */
+  weight: number;
+}
+
+/** Valid hex codepoint as used by 'symbols.list' and 'font' sources */
+export function isHexCodepoint(code: string): boolean {
+  return /^[0-9a-f]{1,6}$/i.test(code) && parseInt(code, 16) <= 0x10ffff;
+}
+
+function quoteFontFamily(family: string): string {
+  return `"${family.replace(/["\\]/g, '\\$&')}"`;
+}
+
+function getWeight(weights: number[], index: number): number {
+  const weight = weights[index];
+  return typeof weight === 'number' && weight >= 0 ? weight : 1;
+}
+
+/** CSS font family list of a source's text */
+function getSourceFontFamily(source: IconSource): string {
+  if (source.type === 'emoji') {
+    return EMOJI_FONT_FAMILY;
+  }
+  return source.fontFamily ? quoteFontFamily(source.fontFamily) : 'sans-serif';
+}
+
+/**
+ * All icons of the configuration: first 'symbols.list', then the sources in
+ * their order. Entries that cannot be drawn (invalid codepoints) are skipped.
+ */
+export function resolveIcons(symbols: Config['symbols']): Icon[] {
+  const icons: Icon[] = [];
+  symbols.list.forEach((code, i) => {
+    if (isHexCodepoint(code)) {
+      icons.push({
+        key: `fa:${code.toLowerCase()}`,
+        text: String.fromCodePoint(parseInt(code, 16)),
+        fontFamily: quoteFontFamily(ICON_FONT_FAMILY),
+        fontWeight: 900,
+        svgIndex: -1,
+        tinted: true,
+        weight: getWeight(symbols.listWeights, i),
+      });
+    }
+  });
+
+  let svgIndex = 0;
+  symbols.sources.forEach((source, sourceIndex) => {
+    const fontFamily = getSourceFontFamily(source);
+    source.icons.forEach((icon, i) => {
+      const weight = getWeight(source.weights, i);
+      if (source.type === 'svg') {
+        icons.push({
+          key: `svg:${sourceIndex}:${i}`,
+          text: '',
+          fontFamily,
+          fontWeight: source.fontWeight,
+          svgIndex: svgIndex++,
+          tinted: true,
+          weight,
+        });
+        return;
+      }
+      if (source.type === 'font' && !isHexCodepoint(icon)) {
+        return;
+      }
+      const text = source.type === 'font' ? String.fromCodePoint(parseInt(icon, 16)) : icon;
+      icons.push({
+        key: `${source.type}:${fontFamily}:${source.fontWeight}:${text}`,
+        text,
+        fontFamily,
+        fontWeight: source.fontWeight,
+        svgIndex: -1,
+        tinted: source.type !== 'emoji',
+        weight,
+      });
+    });
+  });
+  return icons;
+}
+
+/** Markup of all SVG icons, in the order of their 'svgIndex' */
+export function getSvgIcons(symbols: Config['symbols']): string[] {
+  return symbols.sources
+    .filter((source) => source.type === 'svg')
+    .flatMap((source) => source.icons);
+}
@@ -0,0 +1,64 @@
+import type { Config, RotationMode } from './config';
+import type { RandomFn } from './random';
+import type { SymbolData } from './types';
+
+/**
+ * Seeded variation of the symbols: rotation, size and position noise.
+ * The values are stored on every symbol, so all renderers draw the same
+ * transforms.
+ */
+
+export const ROTATION_MODES: readonly RotationMode[] = ['none', 'random', 'cluster'];
+
+export type SymbolTransform = Pick<SymbolData, 'rotation' | 'scale' | 'offsetX' | 'offsetY'>;
+
+export const IDENTITY_TRANSFORM: SymbolTransform = {
+  rotation: 0,
+  scale: 1,
+  offsetX: 0,
+  offsetY: 0,
+};
+
+/** True if the symbol is drawn without rotation and scaling */
+export function isUntransformed(symbol: SymbolTransform): boolean {
+  return symbol.rotation === 0 && symbol.scale === 1;
+}
+
+/**
+ * Transform of one symbol.
+ * @param random seeded per grid slot; always four values are drawn, so
+ *   changing one setting does not reshuffle the others
+ * @param step grid distance the position offset refers to
+ * @param clusterAngle direction from the nearest cluster center to the symbol, null without one
+ * @param weight influence of the clusters from 0 to 1
+ */
+export function computeTransform(
+  jitter: Config['jitter'],
+  random: RandomFn,
+  step: number,
+  clusterAngle: number | null,
+  weight: number
+): SymbolTransform {
+  const [rotationRandom, scaleRandom, offsetXRandom, offsetYRandom] = [
+    random(),
+    random(),
+    random(),
+    random(),
+  ];
+  const signed = (value: number) => value * 2 - 1;
+
+  let rotation = 0;
+  if (jitter.rotation !== 'none') {
+    rotation = (signed(rotationRandom) * jitter.rotationRange * Math.PI) / 180;
+    if (jitter.rotation === 'cluster' && clusterAngle !== null) {
+      // The top of the symbol points away from the cluster center
+      rotation += clusterAngle + Math.PI / 2;
+    }
+  }
+  return {
+    rotation,
+    scale: (1 + signed(scaleRandom) * jitter.scale) * (1 + jitter.clusterSwell * weight),
+    offsetX: signed(offsetXRandom) * jitter.position * step,
+    offsetY: signed(offsetYRandom) * jitter.position * step,
+  };
+}
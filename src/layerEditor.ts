@@ -0,0 +1,385 @@
+import type { Config, Layer, LayerConfig, LayerType } from './config';
+import {
+  DEFAULT_LAYER,
+  getLayerColors,
+  isGridLayer,
+  LAYER_BLEND_MODES,
+  LAYER_TYPE_LABELS,
+  LAYER_TYPES,
+} from './layers';
+import { GRID_LAYOUTS } from './layouts';
+import { toHexColor } from './palettes';
+
+/** A setting a grid layer can change; empty inputs keep the main value */
+interface OverrideField {
+  section: keyof LayerConfig;
+  key: string;
+  label: string;
+  step?: number;
+  /** Select with these options instead of a number input */
+  options?: readonly string[];
+}
+
+const OVERRIDE_FIELDS: OverrideField[] = [
+  { section: 'grid', key: 'layout', label: 'Layout', options: GRID_LAYOUTS },
+  { section: 'grid', key: 'spacingX', label: 'Spacing X (px)' },
+  { section: 'grid', key: 'spacingY', label: 'Spacing Y (px)' },
+  { section: 'symbols', key: 'fontSize', label: 'Icon size (px)' },
+  { section: 'symbols', key: 'density', label: 'Density', step: 0.05 },
+  { section: 'symbols', key: 'defaultIconOpacity', label: 'Icon opacity', step: 0.05 },
+  { section: 'clustering', key: 'count', label: 'Clusters' },
+  { section: 'clustering', key: 'maxRadius', label: 'Cluster radius (px)' },
+  { section: 'shape', key: 'radius', label: 'Form radius (px)' },
+  { section: 'shape', key: 'fillOpacity', label: 'Form fill opacity', step: 0.05 },
+];
+
+/** New layers of these types get a name and colors to start from */
+function createLayer(type: LayerType, config: Config, seedOffset: number): Layer {
+  const layer: Layer = {
+    ...structuredClone(DEFAULT_LAYER),
+    type,
+    name: LAYER_TYPE_LABELS[type],
+    seedOffset,
+  };
+  if (type === 'grid') {
+    // A large, faint grid is the most common reason for a second one
+    const { grid, symbols, shape } = config;
+    layer.opacity = 0.4;
+    layer.config = {
+      grid: { spacingX: grid.spacingX * 2, spacingY: grid.spacingY * 2 },
+      symbols: { fontSize: symbols.fontSize * 2 },
+      shape: { radius: shape.radius * 2 },
+    };
+  } else {
+    layer.colors = getLayerColors(layer, config).map(toHexColor);
+  }
+  if (type === 'vignette') {
+    layer.blendMode = 'multiply';
+  }
+  return layer;
+}
+
+/**
+ * The layer panel of the settings.
+ * Lists config.layers from the top down with visibility, solo, order,
+ * opacity, blend mode and the settings of every layer type. Edits the
+ * configuration directly; 'onChange' receives true when grids have to be
+ * generated again, false when redrawing is enough.
+ */
+export class LayerEditor {
+  private config: Config;
+  private onChange: (regenerate: boolean) => void;
+  private layerList: HTMLDivElement;
+  /** Layers whose settings are shown, so re-rendering keeps them open */
+  private openLayers = new WeakSet<Layer>();
+
+  constructor(config: Config, onChange: (regenerate: boolean) => void) {
+    this.config = config;
+    this.onChange = onChange;
+    this.layerList = document.getElementById('layerList') as HTMLDivElement;
+
+    const typeSelect = document.getElementById('layerType') as HTMLSelectElement;
+    for (const type of LAYER_TYPES) {
+      // There is only one main grid
+      if (type !== 'main') {
+        typeSelect.add(new Option(LAYER_TYPE_LABELS[type], type));
+      }
+    }
+    const addButton = document.getElementById('addLayer') as HTMLButtonElement;
+    addButton.addEventListener('click', () => {
+      const type = typeSelect.value as LayerType;
+      const seedOffset = Math.max(0, ...this.config.layers.map((layer) => layer.seedOffset)) + 1;
+      const layer = createLayer(type, this.config, seedOffset);
+      // Backgrounds go to the bottom, grids and overlays on top
+      const isBackground = type === 'solid' || type.endsWith('gradient');
+      if (isBackground) {
+        this.config.layers.unshift(layer);
+      } else {
+        this.config.layers.push(layer);
+      }
+      this.openLayers.add(layer);
+      this.changed(type === 'grid');
+    });
+
+    this.update();
+  }
+
+  /** Writes the current layers into the panel */
+  public update(): void {
+    this.layerList.replaceChildren(
+      ...this.config.layers
+        .map((layer, i) => this.createLayerRow(layer, i))
+        .reverse()
+    );
+  }
+
+  private changed(regenerate: boolean): void {
+    this.update();
+    this.onChange(regenerate);
+  }
+
+  /** Moves a layer up (towards the top, +1) or down (-1) */
+  private move(index: number, direction: 1 | -1): void {
+    const { layers } = this.config;
+    const target = index + direction;
+    if (target < 0 || target >= layers.length) {
+      return;
+    }
+    [layers[index], layers[target]] = [layers[target], layers[index]];
+    this.changed(false);
+  }
+
+  private createButton(text: string, title: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = text;
+    button.title = title;
+    button.addEventListener('click', (event) => {
+      // Keeps the click from toggling the <details>
+      event.preventDefault();
+      onClick();
+    });
+    return button;
+  }
+
+  private createLayerRow(layer: Layer, index: number): HTMLDetailsElement {
+    const { layers } = this.config;
+    const details = document.createElement('details');
+    details.className = 'layer';
+    details.classList.toggle('layer-hidden', !layer.visible);
+    details.open = this.openLayers.has(layer);
+    details.addEventListener('toggle', () => {
+      if (details.open) {
+        this.openLayers.add(layer);
+      } else {
+        this.openLayers.delete(layer);
+      }
+    });
+
+    const summary = document.createElement('summary');
+    const visible = document.createElement('input');
+    visible.type = 'checkbox';
+    visible.checked = layer.visible;
+    visible.title = 'Show layer';
+    visible.addEventListener('click', (event) => event.stopPropagation());
+    visible.addEventListener('change', () => {
+      layer.visible = visible.checked;
+      this.changed(false);
+    });
+    const name = document.createElement('span');
+    name.className = 'layer-name';
+    name.textContent = layer.name || LAYER_TYPE_LABELS[layer.type];
+
+    const solo = this.createButton('S', 'Solo: show only soloed layers', () => {
+      layer.solo = !layer.solo;
+      this.changed(false);
+    });
+    solo.classList.toggle('active', layer.solo);
+    const up = this.createButton('↑', 'Move up', () => this.move(index, 1));
+    up.disabled = index === layers.length - 1;
+    const down = this.createButton('↓', 'Move down', () => this.move(index, -1));
+    down.disabled = index === 0;
+    summary.append(visible, name, solo, up, down);
+    if (layer.type !== 'main') {
+      summary.append(
+        this.createButton('✕', 'Remove layer', () => {
+          layers.splice(index, 1);
+          this.changed(layer.type === 'grid');
+        })
+      );
+    }
+    details.appendChild(summary);
+
+    const body = document.createElement('div');
+    body.className = 'layer-settings';
+    body.append(
+      this.createTextField('Name', layer.name, (value) => {
+        layer.name = value;
+        name.textContent = value || LAYER_TYPE_LABELS[layer.type];
+        this.onChange(false);
+      }),
+      this.createNumberField('Opacity', layer.opacity, 0.05, (value) => {
+        layer.opacity = Math.min(1, Math.max(0, value));
+        this.onChange(false);
+      }),
+      this.createSelectField('Blend mode', layer.blendMode, LAYER_BLEND_MODES, (value) => {
+        layer.blendMode = value as Layer['blendMode'];
+        this.onChange(false);
+      })
+    );
+    if (isGridLayer(layer)) {
+      this.appendGridFields(body, layer);
+    } else {
+      this.appendBackgroundFields(body, layer);
+    }
+    details.appendChild(body);
+    return details;
+  }
+
+  private appendBackgroundFields(body: HTMLDivElement, layer: Layer): void {
+    const colors = getLayerColors(layer, this.config);
+    const isGradient = layer.type.endsWith('gradient');
+    const colorRow = document.createElement('div');
+    colorRow.className = 'layer-colors';
+    colors.forEach((color, i) => {
+      const input = document.createElement('input');
+      input.type = 'color';
+      input.value = toHexColor(color);
+      input.addEventListener('input', () => {
+        layer.colors = [...colors];
+        layer.colors[i] = input.value;
+        this.onChange(false);
+      });
+      colorRow.appendChild(input);
+    });
+    if (isGradient) {
+      colorRow.append(
+        this.createButton('+', 'Add color stop', () => {
+          layer.colors = [...colors, colors[colors.length - 1]];
+          this.changed(false);
+        }),
+        this.createButton('−', 'Remove the last color stop', () => {
+          layer.colors = colors.slice(0, Math.max(2, colors.length - 1));
+          this.changed(false);
+        })
+      );
+    }
+    body.appendChild(this.wrapField('Colors', colorRow));
+
+    if (layer.type === 'linear-gradient') {
+      body.appendChild(
+        this.createNumberField('Angle (degrees)', layer.angle, 15, (value) => {
+          layer.angle = value;
+          this.onChange(false);
+        })
+      );
+    }
+    if (layer.type === 'noise' || layer.type === 'vignette') {
+      body.appendChild(
+        this.createNumberField(
+          layer.type === 'noise' ? 'Grain strength' : 'Reach',
+          layer.amount,
+          0.05,
+          (value) => {
+            layer.amount = Math.min(1, Math.max(0, value));
+            this.onChange(false);
+          }
+        )
+      );
+    }
+  }
+
+  private appendGridFields(body: HTMLDivElement, layer: Layer): void {
+    if (layer.type === 'main') {
+      const hint = document.createElement('small');
+      hint.className = 'setting-hint';
+      hint.textContent = 'Uses the settings of the panel.';
+      body.appendChild(hint);
+      return;
+    }
+    body.appendChild(
+      this.createNumberField('Layout variant', layer.seedOffset, 1, (value) => {
+        layer.seedOffset = Math.max(0, Math.round(value));
+        this.onChange(true);
+      })
+    );
+
+    const overrides = layer.config as Record<string, Record<string, unknown> | undefined>;
+    for (const field of OVERRIDE_FIELDS) {
+      const mainValue = (this.config[field.section] as Record<string, unknown>)[field.key];
+      const value = overrides[field.section]?.[field.key];
+      const set = (newValue: unknown) => {
+        const section = { ...overrides[field.section] };
+        if (newValue === undefined) {
+          delete section[field.key];
+        } else {
+          section[field.key] = newValue;
+        }
+        if (Object.keys(section).length > 0) {
+          overrides[field.section] = section;
+        } else {
+          delete overrides[field.section];
+        }
+        this.onChange(true);
+      };
+
+      let input: HTMLInputElement | HTMLSelectElement;
+      if (field.options) {
+        const select = document.createElement('select');
+        select.add(new Option(`Main (${mainValue})`, ''));
+        field.options.forEach((option) => select.add(new Option(option, option)));
+        select.value = typeof value === 'string' ? value : '';
+        select.addEventListener('change', () => set(select.value || undefined));
+        input = select;
+      } else {
+        const numberInput = document.createElement('input');
+        numberInput.type = 'number';
+        numberInput.step = String(field.step ?? 1);
+        numberInput.min = '0';
+        numberInput.placeholder = `Main: ${mainValue}`;
+        numberInput.value = typeof value === 'number' ? String(value) : '';
+        numberInput.addEventListener('change', () => {
+          const parsed = parseFloat(numberInput.value);
+          set(Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined);
+        });
+        input = numberInput;
+      }
+      body.appendChild(this.wrapField(field.label, input));
+    }
+  }
+
+  private wrapField(label: string, control: HTMLElement): HTMLLabelElement {
+    const wrapper = document.createElement('label');
+    wrapper.className = 'layer-field';
+    const text = document.createElement('span');
+    text.textContent = label;
+    wrapper.append(text, control);
+    return wrapper;
+  }
+
+  private createTextField(
+    label: string,
+    value: string,
+    onInput: (value: string) => void
+  ): HTMLLabelElement {
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.value = value;
+    input.addEventListener('input', () => onInput(input.value.trim()));
+    return this.wrapField(label, input);
+  }
+
+  private createNumberField(
+    label: string,
+    value: number,
+    step: number,
+    onChange: (value: number) => void
+  ): HTMLLabelElement {
+    const input = document.createElement('input');
+    input.type = 'number';
+    input.step = String(step);
+    input.value = String(value);
+    input.addEventListener('change', () => {
+      const parsed = parseFloat(input.value);
+      if (Number.isFinite(parsed)) {
+        onChange(parsed);
+      } else {
+        input.value = String(value);
+      }
+    });
+    return this.wrapField(label, input);
+  }
+
+  private createSelectField(
+    label: string,
+    value: string,
+    options: readonly string[],
+    onChange: (value: string) => void
+  ): HTMLLabelElement {
+    const select = document.createElement('select');
+    options.forEach((option) => select.add(new Option(option, option)));
+    select.value = value;
+    select.addEventListener('change', () => onChange(select.value));
+    return this.wrapField(label, select);
+  }
+}
@@ -0,0 +1,189 @@
+import type { Config, Layer, LayerBlendMode, LayerConfig, LayerType } from './config';
+import { WallpaperModel } from './model';
+import { hashSeed } from './random';
+import type { Grid } from './types';
+
+/**
+ * The layer stack of a wallpaper (config.layers), from bottom to top.
+ * Background layers are plain fills; grid layers each carry a grid of
+ * their own, generated from the main settings with their overrides.
+ */
+
+export const LAYER_TYPES: readonly LayerType[] = [
+  'solid',
+  'linear-gradient',
+  'radial-gradient',
+  'noise',
+  'vignette',
+  'main',
+  'grid',
+];
+
+export const LAYER_BLEND_MODES: readonly LayerBlendMode[] = [
+  'normal',
+  'multiply',
+  'screen',
+  'overlay',
+  'darken',
+  'lighten',
+  'color-dodge',
+  'color-burn',
+  'hard-light',
+  'soft-light',
+  'difference',
+  'exclusion',
+  'hue',
+  'saturation',
+  'color',
+  'luminosity',
+];
+
+/** Names of the layer types in the layer list */
+export const LAYER_TYPE_LABELS: Record<LayerType, string> = {
+  solid: 'Solid color',
+  'linear-gradient': 'Linear gradient',
+  'radial-gradient': 'Radial gradient',
+  noise: 'Noise grain',
+  vignette: 'Vignette',
+  main: 'Main grid',
+  grid: 'Icon grid',
+};
+
+/** Template of a new layer; also the schema of 'layers' entries in validate.ts */
+export const DEFAULT_LAYER: Layer = {
+  type: 'solid',
+  name: '',
+  visible: true,
+  solo: false,
+  opacity: 1,
+  blendMode: 'normal',
+  colors: [],
+  angle: 90,
+  amount: 0.5,
+  seedOffset: 0,
+  config: {},
+};
+
+/**
+ * Settings grid layers cannot change: shared with the main grid, or like
+ * the mask only used by the main grid
+ */
+export const SHARED_LAYER_FIELDS = [
+  'canvasSize',
+  'layers',
+  'symbols.sources',
+  'mask',
+  'zones',
+  'animation',
+  'editedClusters',
+  'lockedCells',
+];
+
+export function isGridLayer(layer: Layer): boolean {
+  return layer.type === 'main' || layer.type === 'grid';
+}
+
+/** Whether the layer is drawn: while any layer is soloed, only soloed ones are */
+export function isLayerShown(layers: Layer[], layer: Layer): boolean {
+  return layers.some((other) => other.solo) ? layer.solo : layer.visible;
+}
+
+/** Canvas composite operation of a blend mode */
+export function getCompositeOperation(mode: LayerBlendMode): GlobalCompositeOperation {
+  return mode === 'normal' ? 'source-over' : mode;
+}
+
+/**
+ * Colors of a background layer; its own, or the defaults for its type.
+ * Gradients always get at least two stops.
+ */
+export function getLayerColors(layer: Layer, config: Config): string[] {
+  if (layer.colors.length > 0) {
+    return layer.type.endsWith('gradient') && layer.colors.length === 1
+      ? [layer.colors[0], layer.colors[0]]
+      : layer.colors;
+  }
+  switch (layer.type) {
+    case 'linear-gradient':
+    case 'radial-gradient':
+      return [config.colors.background, config.colors.palette[0]];
+    case 'noise':
+      return ['#ffffff'];
+    case 'vignette':
+      return ['#000000'];
+    default:
+      return [config.colors.background];
+  }
+}
+
+/**
+ * The complete configuration of a layer: the main settings with the
+ * overrides of a grid layer merged in, section by section.
+ */
+export function getLayerConfig(config: Config, layer: Layer): Config {
+  if (layer.type !== 'grid') {
+    return config;
+  }
+  const result = structuredClone(config);
+  for (const [section, values] of Object.entries(layer.config)) {
+    Object.assign(result[section as keyof LayerConfig], structuredClone(values));
+  }
+  // Shared with the main grid, so the icon indices and the SVG icon atlas fit every layer
+  result.canvasSize = config.canvasSize;
+  result.symbols.sources = config.symbols.sources;
+  result.layers = [];
+  // Edited clusters and painted cells belong to the main grid
+  result.editedClusters = [];
+  result.lockedCells = [];
+  return result;
+}
+
+/**
+ * Grids of all layers, by layer index: 'mainGrid' for the main grid layer,
+ * a grid generated from the layer settings for every further grid layer
+ * and an empty grid for backgrounds. Equal seeds give equal grids.
+ */
+export function generateLayerGrids(config: Config, seed: number, mainGrid: Grid): Grid[] {
+  const models = createLayerModels(config, seed);
+  return config.layers.map((layer, i) =>
+    layer.type === 'main' ? mainGrid : models[i]?.grid ?? []
+  );
+}
+
+/**
+ * Generated models of the further grid layers, by layer index; null for
+ * the main grid and backgrounds. Kept e.g. to compute animation frames.
+ */
+export function createLayerModels(config: Config, seed: number): (WallpaperModel | null)[] {
+  return config.layers.map((layer) => {
+    if (layer.type !== 'grid') {
+      return null;
+    }
+    const model = new WallpaperModel(getLayerConfig(config, layer));
+    model.generate(hashSeed(seed, layer.seedOffset));
+    return model;
+  });
+}
+
+/**
+ * Grids of all layers in the animation frame at 'time' (0 to 1), like
+ * generateLayerGrids; 'layerModels' comes from createLayerModels.
+ */
+export function getLayerFrames(
+  config: Config,
+  mainModel: WallpaperModel,
+  layerModels: (WallpaperModel | null)[],
+  time: number
+): Grid[] {
+  return config.layers.map((layer, i) => {
+    if (layer.type === 'main') {
+      return mainModel.getFrame(time);
+    }
+    return layerModels[i]?.getFrame(time) ?? [];
+  });
+}
+
+/** The layer grids with the main grid replaced, e.g. after editing its clusters */
+export function withMainGrid(config: Config, grids: Grid[], mainGrid: Grid): Grid[] {
+  return config.layers.map((layer, i) => (layer.type === 'main' ? mainGrid : grids[i] ?? []));
+}
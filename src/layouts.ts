@@ -0,0 +1,391 @@
+import type { Config, GridLayout } from './config';
+import { getDistance, type Point } from './geometry';
+import type { RandomFn } from './random';
+
+/**
+ * Grid layouts: where the symbols are placed on the canvas.
+ * Every layout returns rows of points; layouts without real rows
+ * (spiral, blue noise) return all points in a single row.
+ *
+ * In tile mode ('grid.tileable') every point in the overscan is a copy of a
+ * point inside the canvas, shifted by exactly one canvas width or height.
+ */
+
+/** Area the points are placed in, including the seamless overscan */
+interface LayoutBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+function getBounds(config: Config): LayoutBounds {
+  const { spacingX, spacingY, seamlessRendering, tileable } = config.grid;
+  const { width, height } = config.canvasSize;
+  const { radius: shapeRadius } = config.shape;
+  // Tiles always need the overscan, it holds the shapes cut at the opposite edge
+  const overscan = seamlessRendering || tileable;
+  const expandAmountX = overscan ? spacingX + shapeRadius : 0;
+  const expandAmountY = overscan ? spacingY + shapeRadius : 0;
+  return {
+    minX: -expandAmountX,
+    minY: -expandAmountY,
+    maxX: width + expandAmountX,
+    maxY: height + expandAmountY,
+  };
+}
+
+function isInside(point: Point, bounds: LayoutBounds): boolean {
+  return (
+    point.x >= bounds.minX &&
+    point.x <= bounds.maxX &&
+    point.y >= bounds.minY &&
+    point.y <= bounds.maxY
+  );
+}
+
+/** Remainder that is never negative, for wrapping indices around */
+function modulo(value: number, divisor: number): number {
+  return ((value % divisor) + divisor) % divisor;
+}
+
+/** The canvas area itself, without overscan */
+function getTileBounds(config: Config): LayoutBounds {
+  const { width, height } = config.canvasSize;
+  return { minX: 0, minY: 0, maxX: width, maxY: height };
+}
+
+/**
+ * Step close to 'step' that divides 'size' into whole steps.
+ * 'even' forces an even number of steps.
+ */
+function snapStep(step: number, size: number, even = false): number {
+  const count = even
+    ? Math.max(2, Math.round(size / step / 2) * 2)
+    : Math.max(1, Math.round(size / step));
+  return size / count;
+}
+
+/**
+ * Rows of a regular lattice.
+ * 'offsetRows' shifts every other row by half a step horizontally.
+ */
+function createLattice(
+  config: Config,
+  stepX: number,
+  stepY: number,
+  offsetRows: boolean
+): Point[][] {
+  const { width, height } = config.canvasSize;
+  const { tileable } = config.grid;
+  if (tileable) {
+    // Rows and columns divide the canvas evenly, so the lattice continues
+    // across the edges. Alternating rows need an even number of rows.
+    stepX = snapStep(stepX, width);
+    stepY = snapStep(stepY, height, offsetRows);
+  }
+  const rowOffset = offsetRows ? stepX / 2 : 0;
+  const bounds = getBounds(config);
+  const expandAmountX = -bounds.minX;
+  const expandAmountY = -bounds.minY;
+  const rows: Point[][] = [];
+
+  // Tiles start a whole number of steps before the canvas, so the overscan
+  // rows and columns line up with the ones at the opposite edge
+  const rowsBefore = tileable ? Math.ceil(expandAmountY / stepY) : 0;
+  const startY = tileable
+    ? stepY / 2 - rowsBefore * stepY
+    : stepY / 2 - expandAmountY;
+  const startX = tileable
+    ? stepX / 2 - Math.ceil(expandAmountX / stepX) * stepX
+    : stepX / 2 - expandAmountX;
+
+  let row = -rowsBefore;
+  for (
+    let y = startY;
+    y < height + stepY / 2 + expandAmountY;
+    y += stepY
+  ) {
+    const points: Point[] = [];
+    // Bitwise parity also works for the negative rows before the canvas
+    const xOffset = (row & 1) === 0 ? rowOffset : 0;
+
+    for (
+      let x = xOffset + startX;
+      x < width + xOffset + stepX / 2 + expandAmountX;
+      x += stepX
+    ) {
+      points.push({ x, y });
+    }
+    rows.push(points);
+    row++;
+  }
+  return rows;
+}
+
+/**
+ * Concentric rings around the canvas center.
+ * Ring k has the radius k * spacingY and as many points as fit with spacingX.
+ */
+function createRings(config: Config, bounds: LayoutBounds): Point[][] {
+  const { spacingX, spacingY } = config.grid;
+  const centerX = config.canvasSize.width / 2;
+  const centerY = config.canvasSize.height / 2;
+  const maxRadius = Math.hypot(
+    Math.max(centerX - bounds.minX, bounds.maxX - centerX),
+    Math.max(centerY - bounds.minY, bounds.maxY - centerY)
+  );
+
+  const rows: Point[][] = [[{ x: centerX, y: centerY }]];
+  for (let ring = 1; ring * spacingY <= maxRadius; ring++) {
+    const radius = ring * spacingY;
+    const count = Math.max(1, Math.round((Math.PI * 2 * radius) / spacingX));
+    // Odd rings are rotated by half a step, so the points interlock
+    const startAngle = ring % 2 === 0 ? 0 : Math.PI / count;
+    const points: Point[] = [];
+    for (let i = 0; i < count; i++) {
+      const angle = startAngle + (i * Math.PI * 2) / count;
+      const point = {
+        x: centerX + radius * Math.cos(angle),
+        y: centerY + radius * Math.sin(angle),
+      };
+      if (isInside(point, bounds)) {
+        points.push(point);
+      }
+    }
+    rows.push(points);
+  }
+  return rows;
+}
+
+/**
+ * Sunflower spiral (golden angle) from the canvas center.
+ * Each point covers roughly spacingX * spacingY, like in the lattices.
+ */
+function createSpiral(config: Config, bounds: LayoutBounds): Point[][] {
+  const { spacingX, spacingY } = config.grid;
+  const centerX = config.canvasSize.width / 2;
+  const centerY = config.canvasSize.height / 2;
+  const maxRadius = Math.hypot(
+    Math.max(centerX - bounds.minX, bounds.maxX - centerX),
+    Math.max(centerY - bounds.minY, bounds.maxY - centerY)
+  );
+  const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+  const scale = Math.sqrt((spacingX * spacingY) / Math.PI);
+
+  const points: Point[] = [];
+  for (let i = 0; scale * Math.sqrt(i) <= maxRadius; i++) {
+    const radius = scale * Math.sqrt(i);
+    const angle = i * goldenAngle;
+    const point = {
+      x: centerX + radius * Math.cos(angle),
+      y: centerY + radius * Math.sin(angle),
+    };
+    if (isInside(point, bounds)) {
+      points.push(point);
+    }
+  }
+  return [points];
+}
+
+/**
+ * Blue-noise scatter (Poisson-disk sampling, Bridson's algorithm).
+ * No two points are closer than 'grid.minDistance'.
+ * In tile mode the scatter fills the canvas on a torus: distances and
+ * background cells wrap around at the edges.
+ */
+function createPoissonDisk(config: Config, random: RandomFn): Point[][] {
+  const { minDistance, tileable } = config.grid;
+  const bounds = tileable ? getTileBounds(config) : getBounds(config);
+  const wrap = tileable ? config.canvasSize : undefined;
+  const maxAttempts = 30;
+  const areaWidth = bounds.maxX - bounds.minX;
+  const areaHeight = bounds.maxY - bounds.minY;
+  const columns = Math.ceil(areaWidth / (minDistance / Math.SQRT2));
+  const rowCount = Math.ceil(areaHeight / (minDistance / Math.SQRT2));
+  // Cells divide the area exactly, so they can wrap around in tile mode
+  const cellWidth = areaWidth / columns;
+  const cellHeight = areaHeight / rowCount;
+  const reachX = Math.ceil(minDistance / cellWidth);
+  const reachY = Math.ceil(minDistance / cellHeight);
+  // Each background cell holds at most one point (index into 'points')
+  const cells = new Int32Array(columns * rowCount).fill(-1);
+  const points: Point[] = [];
+  const active: number[] = [];
+
+  const cellIndex = (point: Point) =>
+    Math.min(rowCount - 1, Math.floor((point.y - bounds.minY) / cellHeight)) * columns +
+    Math.min(columns - 1, Math.floor((point.x - bounds.minX) / cellWidth));
+
+  const isFarEnough = (point: Point): boolean => {
+    const cellX = Math.floor((point.x - bounds.minX) / cellWidth);
+    const cellY = Math.floor((point.y - bounds.minY) / cellHeight);
+    const firstY = wrap ? cellY - reachY : Math.max(0, cellY - reachY);
+    const lastY = wrap ? cellY + reachY : Math.min(rowCount - 1, cellY + reachY);
+    const firstX = wrap ? cellX - reachX : Math.max(0, cellX - reachX);
+    const lastX = wrap ? cellX + reachX : Math.min(columns - 1, cellX + reachX);
+    for (let y = firstY; y <= lastY; y++) {
+      for (let x = firstX; x <= lastX; x++) {
+        const index = cells[modulo(y, rowCount) * columns + modulo(x, columns)];
+        if (index >= 0 && getDistance(points[index], point, wrap) < minDistance) {
+          return false;
+        }
+      }
+    }
+    return true;
+  };
+
+  const addPoint = (point: Point) => {
+    cells[cellIndex(point)] = points.length;
+    active.push(points.length);
+    points.push(point);
+  };
+
+  addPoint({
+    x: bounds.minX + random() * (bounds.maxX - bounds.minX),
+    y: bounds.minY + random() * (bounds.maxY - bounds.minY),
+  });
+
+  while (active.length > 0) {
+    const activeIndex = Math.floor(random() * active.length);
+    const origin = points[active[activeIndex]];
+    let found = false;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      // Candidates lie in the ring between minDistance and 2 * minDistance
+      const angle = random() * Math.PI * 2;
+      const distance = minDistance * (1 + random());
+      let candidate = {
+        x: origin.x + distance * Math.cos(angle),
+        y: origin.y + distance * Math.sin(angle),
+      };
+      if (wrap) {
+        candidate = {
+          x: (candidate.x + wrap.width) % wrap.width,
+          y: (candidate.y + wrap.height) % wrap.height,
+        };
+      }
+      if (isInside(candidate, bounds) && isFarEnough(candidate)) {
+        addPoint(candidate);
+        found = true;
+        break;
+      }
+    }
+    if (!found) {
+      active.splice(activeIndex, 1);
+    }
+  }
+  return [points];
+}
+
+/**
+ * Tile mode for the layouts that are no lattices: the points inside the canvas
+ * are repeated around it, so the overscan continues with the opposite edge.
+ * All points end up in one row sorted by position, which draws overlapping
+ * shapes in the same order on both sides of an edge.
+ */
+function repeatAroundTile(config: Config, rows: Point[][]): Point[][] {
+  const { width, height } = config.canvasSize;
+  const bounds = getBounds(config);
+  const points = rows
+    .flat()
+    .filter((point) => point.x < width && point.y < height);
+  const result: Point[] = [];
+
+  for (const offsetY of [-height, 0, height]) {
+    for (const offsetX of [-width, 0, width]) {
+      for (const point of points) {
+        const copy = { x: point.x + offsetX, y: point.y + offsetY };
+        if (isInside(copy, bounds)) {
+          result.push(copy);
+        }
+      }
+    }
+  }
+  result.sort((a, b) => a.y - b.y || a.x - b.x);
+  return [result];
+}
+
+/**
+ * Point the layout is built from: the canvas center for the rings and the
+ * spiral, the top-left corner for the lattices and the blue-noise scatter.
+ * Positions relative to it stay on the same slots when the canvas size changes.
+ */
+export function getLayoutOrigin(config: Config): Point {
+  const { layout } = config.grid;
+  if (layout === 'rings' || layout === 'spiral') {
+    return { x: config.canvasSize.width / 2, y: config.canvasSize.height / 2 };
+  }
+  return { x: 0, y: 0 };
+}
+
+/**
+ * Computes the symbol positions for the configured layout.
+ * Only the blue-noise scatter uses the random function.
+ */
+export function computeLayout(config: Config, random: RandomFn): Point[][] {
+  const { spacingX, spacingY, layout, tileable } = config.grid;
+  // Radial layouts are cut to the canvas in tile mode and repeated around it
+  const radialBounds = tileable ? getTileBounds(config) : getBounds(config);
+
+  switch (layout) {
+    case 'offset':
+      return createLattice(config, spacingX, spacingY, true);
+    case 'square':
+      return createLattice(config, spacingX, spacingY, false);
+    case 'hexagonal':
+      // Rows of a honeycomb are sqrt(3)/2 of the column distance apart,
+      // which lets pointy-top hexagons (shape.corners = 6) interlock evenly
+      return createLattice(config, spacingX, (spacingX * Math.sqrt(3)) / 2, true);
+    case 'diamond':
+      return createLattice(config, spacingX, spacingY / 2, true);
+    case 'rings': {
+      const rows = createRings(config, radialBounds);
+      return tileable ? repeatAroundTile(config, rows) : rows;
+    }
+    case 'spiral': {
+      const rows = createSpiral(config, radialBounds);
+      return tileable ? repeatAroundTile(config, rows) : rows;
+    }
+    case 'poisson': {
+      const rows = createPoissonDisk(config, random);
+      return tileable ? repeatAroundTile(config, rows) : rows;
+    }
+  }
+}
+
+/**
+ * Distance up to which two symbols count as adjacent in a layout.
+ * Slightly larger than the distance of direct neighbors.
+ */
+export function getNeighborDistance(grid: Config['grid']): number {
+  const { spacingX, spacingY, layout, minDistance } = grid;
+  const tolerance = 1.1;
+
+  switch (layout) {
+    case 'offset':
+      return Math.max(spacingX, Math.hypot(spacingX / 2, spacingY)) * tolerance;
+    case 'square':
+    case 'rings':
+      return Math.max(spacingX, spacingY) * tolerance;
+    case 'hexagonal':
+      return spacingX * tolerance;
+    case 'diamond':
+      return Math.hypot(spacingX / 2, spacingY / 2) * tolerance;
+    case 'spiral':
+      return Math.sqrt(spacingX * spacingY) * tolerance;
+    case 'poisson':
+      // Neighbors in the scatter are between minDistance and 2 * minDistance apart
+      return minDistance * 2 * tolerance;
+  }
+}
+
+export const GRID_LAYOUTS: GridLayout[] = [
+  'offset',
+  'square',
+  'hexagonal',
+  'diamond',
+  'rings',
+  'spiral',
+  'poisson',
+];
@@ -0,0 +1,14 @@
+/**
+ * Entry of the library build (npm run build:lib): the embeddable wallpaper
+ * and what is needed to write its settings.
+ */
+
+export { CONFIG, type Config } from './config';
+export { ConfigValidationError } from './validate';
+export {
+  createWallpaper,
+  type ColorSchemeName,
+  type PartialConfig,
+  type WallpaperHandle,
+  type WallpaperOptions,
+} from './wallpaper';
@@ -1,25 +1,101 @@
-import { CONFIG, type Config } from './config';
-
-// Interface for a single symbol in the grid
-interface SymbolData {
-  char: string;
-  x: number;
-  y: number;
-  iconColor: string;
-  shapeColor: string;
-  shapeStrokeColor: string;
-  iconOpacity: number;
-  shapeFillOpacity: number;
-  shapeStrokeOpacity: number;
-  // isColored is no longer needed since we use 'null'
-}
+import { AnimationPlayer } from './animationPlayer';
+import { BatchExport } from './batchExport';
+import { BrowserRasters, createOffscreenCanvas } from './browserRasters';
+import { ClusterEditor } from './clusterEditor';
+import {
+  CONFIG,
+  type BlendColorSpace,
+  type BlendMode,
+  type ClusterPlacement,
+  type Config,
+  type FalloffCurve,
+  type GridLayout,
+  type RotationMode,
+  type ShapeEffect,
+  type StrokeStyle,
+} from './config';
+import { RenderCancelledError, renderPngInWorker } from './exportRenderer';
+import { Gallery } from './gallery';
+import { SettingsHistory } from './history';
+import { loadIconFont } from './iconFont';
+import { IconPicker } from './iconPicker';
+import { IconSourceEditor } from './iconSourceEditor';
+import { LayerEditor } from './layerEditor';
+import { generateLayerGrids, withMainGrid } from './layers';
+import { MaskEditor } from './maskEditor';
+import { WallpaperModel } from './model';
+import { PaintEditor } from './paintEditor';
+import { PaletteEditor } from './paletteEditor';
+import { createSeed, parseSeed } from './random';
+import { drawContent } from './render';
+import {
+  decodeSettingsHash,
+  encodeSettingsHash,
+  hasSettingsHash,
+  parseSettings,
+  serializeSettings,
+  type Settings,
+} from './settings';
+import { getShapes } from './shapes';
+import { TilePreview } from './tilePreview';
+import { createSvg } from './svg';
+import type { Grid } from './types';
+import { ConfigValidationError, validateConfig } from './validate';
+import { ZoneEditor } from './zoneEditor';
 
-// Interface for a cluster center
-interface ClusterCenter {
-  x: number;
-  y: number;
-  color: string;
-}
+/**
+ * What a changed setting requires, from the cheapest to the most expensive:
+ * - draw: only draw the existing grid again (shape look, icon size)
+ * - restyle: recompute colors and opacities of the existing symbols
+ * - regenerate: generate the grid again with the same seed
+ * - resize: resize the canvas, then generate the grid again
+ */
+type ChangeScope = 'draw' | 'restyle' | 'regenerate' | 'resize';
+
+const CHANGE_SCOPES: readonly ChangeScope[] = ['draw', 'restyle', 'regenerate', 'resize'];
+
+/** Scope of every input of the panel that updates the preview live */
+const INPUT_SCOPES: Record<string, ChangeScope> = {
+  canvasWidth: 'resize',
+  canvasHeight: 'resize',
+  spacingX: 'regenerate',
+  spacingY: 'regenerate',
+  gridLayout: 'regenerate',
+  minDistance: 'regenerate',
+  tileable: 'regenerate',
+  fontSize: 'draw',
+  defaultIconOpacity: 'restyle',
+  clusterCount: 'regenerate',
+  clusterRadius: 'regenerate',
+  clusterPlacement: 'regenerate',
+  clusterSeparation: 'regenerate',
+  blendMode: 'regenerate',
+  blendColorSpace: 'restyle',
+  falloff: 'regenerate',
+  symbolDensity: 'regenerate',
+  coloredOpacity: 'restyle',
+  shapeType: 'draw',
+  borderCorners: 'draw',
+  shapeRounding: 'draw',
+  shapeInnerRadius: 'draw',
+  borderRadius: 'draw',
+  borderFillOpacity: 'restyle',
+  borderStrokeWidth: 'draw',
+  borderStrokeOpacity: 'restyle',
+  shapeStrokeStyle: 'draw',
+  shapeEffect: 'draw',
+  shapeEffectSize: 'draw',
+  jitterRotation: 'regenerate',
+  jitterRotationRange: 'regenerate',
+  jitterScale: 'regenerate',
+  jitterClusterSwell: 'regenerate',
+  jitterPosition: 'regenerate',
+};
+
+/** Pause after the last input before the preview is updated, in milliseconds */
+const LIVE_UPDATE_DELAY = 250;
+/** Pause after the last change before it becomes an undo step, in milliseconds */
+const HISTORY_DELAY = 600;
 
 /**
  * The main class encapsulating the background logic.
@@ -28,10 +104,36 @@ class BackgroundGenerator {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
   private config: Config;
-  /** The grid can now have 'null' entries if bubbles are removed due to density */
-  private grid: (SymbolData | null)[][] = [];
-  private symbols: string[] = [];
-  private clusterCenters: ClusterCenter[] = [];
+  /** Grid, clusters and colors; independent of the DOM */
+  private model: WallpaperModel;
+  /** Seed of the current layout; the same seed and config always give the same grid */
+  private seed: number = createSeed();
+  /** If false, a setting that regenerates the grid also rolls a new seed */
+  private seedLocked = true;
+  /** Strongest change of the panel inputs that is waiting to be applied; null if none */
+  private pendingScope: ChangeScope | null = null;
+  private liveUpdateTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Undo and redo steps; a step is recorded once changes have settled */
+  private history = new SettingsHistory();
+  private historyTimer: ReturnType<typeof setTimeout> | null = null;
+  private paletteEditor: PaletteEditor | null = null;
+  private iconSourceEditor: IconSourceEditor | null = null;
+  private layerEditor: LayerEditor | null = null;
+  private maskEditor: MaskEditor | null = null;
+  private clusterEditor: ClusterEditor | null = null;
+  private zoneEditor: ZoneEditor | null = null;
+  private paintEditor: PaintEditor | null = null;
+  private animationPlayer: AnimationPlayer | null = null;
+  private tilePreview: TilePreview | null = null;
+  /** Cancels the running PNG export; null while no export is running */
+  private exportAbort: AbortController | null = null;
+  /** Mask and icon atlas; the grid is generated again or redrawn once they are ready */
+  private rasters = new BrowserRasters(
+    () => this.regenerate(),
+    () => this.draw()
+  );
+  /** Grids of the layers by index; the main grid is taken from the model when drawing */
+  private layerGrids: Grid[] = [];
 
   constructor(canvasId: string, config: Config) {
     this.canvas = document.getElementById(canvasId) as HTMLCanvasElement;
@@ -40,10 +142,7 @@ class BackgroundGenerator {
     }
     this.ctx = this.canvas.getContext('2d')!;
     this.config = config;
-
-    this.symbols = this.config.symbols.list.map((code) =>
-      String.fromCharCode(parseInt(code, 16))
-    );
+    this.model = new WallpaperModel(this.config);
 
     this.setCanvasInternalResolution(
       this.config.canvasSize.width,
@@ -52,351 +151,285 @@ class BackgroundGenerator {
   }
 
   public async generate(): Promise<void> {
+    try {
+      await loadIconFont(document.fonts);
+    } catch (error) {
+      console.error('Error loading the icon font:', error);
+    }
     await document.fonts.ready;
     document.body.classList.add('fonts-loaded');
     this.initUI();
-    this.regenerate();
+    if (hasSettingsHash(window.location.hash)) {
+      this.importSettingsFromHash();
+    } else {
+      this.regenerate();
+    }
   }
 
   /**
    * Clears and regenerates the canvas content.
-   * applyDensity() is no longer needed as populateGrid() now handles this.
+   * The result only depends on the seed and the configuration.
    */
   private regenerate = (): void => {
-    this.createClusters();
-    this.populateGrid();
+    this.rasters.updateMask(this.config.mask);
+    this.model.setMask(this.rasters.mask);
+    this.model.generate(this.seed);
+    this.updateLayerGrids();
+    this.clusterEditor?.reset();
+    this.rasters.updateIconAtlas(this.config.symbols);
     this.draw();
+    this.scheduleHistoryEntry();
   };
 
-  private setCanvasInternalResolution(width: number, height: number): void {
-    const dpr = window.devicePixelRatio || 1;
-    this.canvas.width = width * dpr;
-    this.canvas.height = height * dpr;
-    this.canvas.style.width = `${width}px`;
-    this.canvas.style.height = `${height}px`;
-    this.ctx.scale(dpr, dpr);
-    this.config.canvasSize.width = width;
-    this.config.canvasSize.height = height;
-  }
+  /**
+   * Applies changed colors without re-rolling the layout.
+   */
+  private recolor = (): void => {
+    this.model.recolor();
+    // The color brush offers the new palette
+    this.paintEditor?.update();
+    this.updateLayerGrids();
+    this.draw();
+    this.scheduleHistoryEntry();
+  };
 
-  private createClusters(): void {
-    this.clusterCenters = [];
-    for (let i = 0; i < this.config.clustering.count; i++) {
-      this.clusterCenters.push({
-        x: Math.random() * this.config.canvasSize.width,
-        y: Math.random() * this.config.canvasSize.height,
-        color: this.config.colors.palette[
-          Math.floor(Math.random() * this.config.colors.palette.length)
-        ],
-      });
+  /**
+   * Notes a changed panel input; the preview is updated once the input has
+   * paused for a moment. Of several changes, the most expensive one decides.
+   */
+  private scheduleChange(scope: ChangeScope): void {
+    if (
+      this.pendingScope === null ||
+      CHANGE_SCOPES.indexOf(scope) > CHANGE_SCOPES.indexOf(this.pendingScope)
+    ) {
+      this.pendingScope = scope;
     }
+    if (this.liveUpdateTimer !== null) {
+      clearTimeout(this.liveUpdateTimer);
+    }
+    this.liveUpdateTimer = setTimeout(() => this.applyPendingChange(), LIVE_UPDATE_DELAY);
   }
 
   /**
-   * Populates the 2D grid.
-   * Now calls getColorForSymbol, which can return 'null'
-   * based on the density setting.
+   * Reads the panel inputs and updates the preview as far as the pending
+   * change requires. A locked seed stays, so the layout only changes where
+   * the settings demand it; "New seed" rolls a new one. An unlocked seed is
+   * re-rolled whenever the grid is generated again.
    */
-  private populateGrid(): void {
-    this.grid = [];
-    const { spacingX, spacingY, seamlessRendering } = this.config.grid;
-    const { width, height } = this.config.canvasSize;
-    const { radius: shapeRadius } = this.config.shape;
-
-    if (spacingX <= 0 || spacingY <= 0) {
-      console.warn('SpacingX or SpacingY is 0 or less.');
+  private applyPendingChange(): void {
+    const scope = this.pendingScope;
+    this.pendingScope = null;
+    if (this.liveUpdateTimer !== null) {
+      clearTimeout(this.liveUpdateTimer);
+      this.liveUpdateTimer = null;
+    }
+    if (scope === null || !this.readSettingsFromUI()) {
       return;
     }
-
-    const expandAmountX = seamlessRendering ? spacingX + shapeRadius : 0;
-    const expandAmountY = seamlessRendering ? spacingY + shapeRadius : 0;
-
-    let row = 0;
-    for (
-      let y = spacingY / 2 - expandAmountY;
-      y < height + spacingY / 2 + expandAmountY;
-      y += spacingY
-    ) {
-      this.grid[row] = [];
-      let col = 0;
-      const xOffset = row % 2 === 0 ? spacingX / 2 : 0;
-
-      for (
-        let x = xOffset + spacingX / 2 - expandAmountX;
-        x < width + xOffset + spacingX / 2 + expandAmountX;
-        x += spacingX
-      ) {
-        // Gets color information (can be null if density < 100%)
-        const symbolData = this.getColorForSymbol(x, y);
-
-        if (symbolData) {
-          // Symbol is drawn
-          const symbolChar = this.getRandomSymbol(row, col);
-          this.grid[row][col] = {
-            char: symbolChar,
-            x: x,
-            y: y,
-            ...symbolData,
-          };
-        } else {
-          // Symbol is skipped due to density
-          this.grid[row][col] = null;
-        }
-        col++;
-      }
-      row++;
+    if (!this.seedLocked && (scope === 'resize' || scope === 'regenerate')) {
+      this.seed = createSeed();
+      (document.getElementById('seed') as HTMLInputElement).value = this.seed.toString();
     }
-  }
-
-  private getRandomSymbol(row: number, col: number): string {
-    const leftSymbol =
-      col > 0 && this.grid[row] ? this.grid[row][col - 1]?.char : null;
-    const topSymbol =
-      row > 0 && this.grid[row - 1] ? this.grid[row - 1][col]?.char : null;
-
-    let attempts = 0;
-    const maxAttempts = 10;
-
-    while (attempts < maxAttempts) {
-      const randomSymbol =
-        this.symbols[Math.floor(Math.random() * this.symbols.length)];
-      const isAdjacentMatch =
-        randomSymbol === leftSymbol || randomSymbol === topSymbol;
-
-      if (isAdjacentMatch) {
-        if (Math.random() > this.config.symbols.adjacentPenalty) {
-          return randomSymbol;
-        }
-      } else {
-        return randomSymbol;
-      }
-      attempts++;
+    switch (scope) {
+      case 'resize':
+        this.setCanvasInternalResolution(
+          this.config.canvasSize.width,
+          this.config.canvasSize.height
+        );
+        this.regenerate();
+        break;
+      case 'regenerate':
+        this.regenerate();
+        break;
+      case 'restyle':
+        this.model.recolor();
+        this.model.restyle();
+        // The contrast of the icons depends on their opacity
+        this.paletteEditor?.renderContrastReport();
+        this.updateLayerGrids();
+        this.draw();
+        this.scheduleHistoryEntry();
+        break;
+      case 'draw':
+        this.rasters.updateIconAtlas(this.config.symbols);
+        this.draw();
+        this.scheduleHistoryEntry();
+        break;
     }
-    return this.symbols[Math.floor(Math.random() * this.symbols.length)];
   }
 
   /**
-   * Determines color and opacity.
-   * Can now return 'null' if a pale symbol is removed
-   * by the density setting.
+   * Records the current settings as an undo step once changes have settled,
+   * so dragging a slider becomes one step instead of dozens.
    */
-  private getColorForSymbol(
-    x: number,
-    y: number
-  ): Omit<SymbolData, 'char' | 'x' | 'y'> | null {
-    let nearestDist = Infinity;
-    let nearestCluster: ClusterCenter | null = null;
-
-    for (const cluster of this.clusterCenters) {
-      const dist = Math.hypot(cluster.x - x, cluster.y - y);
-      if (dist < nearestDist) {
-        nearestDist = dist;
-        nearestCluster = cluster;
-      }
-    }
-
-    const { maxRadius, dimmingFactor, minDimOpacity, coloredOpacity } =
-      this.config.clustering;
-    const { defaultIconOpacity, density } = this.config.symbols; // Get density here
-    const {
-      defaultIconColor,
-      coloredIconColor,
-      defaultShapeFillColor,
-      defaultShapeStrokeColor,
-    } = this.config.colors;
-    const {
-      fillOpacity: defaultFillOpacity,
-      strokeOpacity: defaultStrokeOpacity,
-    } = this.config.shape;
-
-    if (nearestCluster && nearestDist < maxRadius) {
-      const probability = 1 - nearestDist / maxRadius;
-
-      if (Math.random() < probability) {
-        // *** BRIGHT / COLORED SYMBOL ***
-        // These are unaffected by density and always returned.
-        return {
-          iconColor: coloredIconColor,
-          shapeColor: nearestCluster.color,
-          shapeStrokeColor: nearestCluster.color,
-          iconOpacity: defaultIconOpacity,
-          shapeFillOpacity: coloredOpacity,
-          shapeStrokeOpacity: coloredOpacity,
-        };
-      }
+  private scheduleHistoryEntry = (): void => {
+    if (this.historyTimer !== null) {
+      clearTimeout(this.historyTimer);
     }
+    this.historyTimer = setTimeout(() => this.recordHistoryEntry(), HISTORY_DELAY);
+  };
 
-    // *** PALE / STANDARD SYMBOL ***
-
-    // NEW: Density check
-    // If density < 100%, there is a chance that the symbol
-    // is not created at all (return null).
-    if (Math.random() > density) {
-      return null;
+  private recordHistoryEntry(): void {
+    if (this.historyTimer !== null) {
+      clearTimeout(this.historyTimer);
+      this.historyTimer = null;
     }
-
-    // Density check passed, calculate opacity based on distance
-    const dimDistanceFactor = Math.min(
-      1,
-      nearestDist / (maxRadius * dimmingFactor)
-    );
-    const dimFillOpacity =
-      (1 - dimDistanceFactor) * (defaultFillOpacity - minDimOpacity) +
-      minDimOpacity;
-    const strokeFillRatio =
-      defaultFillOpacity > 0 ? defaultStrokeOpacity / defaultFillOpacity : 0;
-    const dimStrokeOpacity = dimFillOpacity * strokeFillRatio;
-
-    return {
-      iconColor: defaultIconColor,
-      shapeColor: defaultShapeFillColor,
-      shapeStrokeColor: defaultShapeStrokeColor,
-      iconOpacity: defaultIconOpacity,
-      shapeFillOpacity: dimFillOpacity,
-      shapeStrokeOpacity: dimStrokeOpacity,
-    };
+    this.history.push(serializeSettings(this.config, this.seed));
+    this.updateHistoryButtons();
   }
 
-  private drawPolygon(
-    ctx: CanvasRenderingContext2D,
-    x: number,
-    y: number,
-    radius: number,
-    sides: number
-  ): void {
-    ctx.beginPath();
-    const slice = (Math.PI * 2) / sides;
-    const startAngle = -Math.PI / 2;
-
-    for (let i = 0; i < sides; i++) {
-      const angle = startAngle + i * slice;
-      const px = x + radius * Math.cos(angle);
-      const py = y + radius * Math.sin(angle);
-      if (i === 0) {
-        ctx.moveTo(px, py);
+  /** Steps back (or forward with 'redo') to a recorded state */
+  private stepHistory(redo: boolean): void {
+    // Changes still waiting are applied and recorded first, so they can be undone as well
+    this.applyPendingChange();
+    if (this.historyTimer !== null) {
+      this.recordHistoryEntry();
+    }
+    const state = redo ? this.history.redo() : this.history.undo();
+    if (state === null) {
+      return;
+    }
+    try {
+      this.applySettings(parseSettings(state));
+    } catch (error) {
+      // The state stays current, so undo and redo keep matching what is shown
+      if (redo) {
+        this.history.undo();
       } else {
-        ctx.lineTo(px, py);
+        this.history.redo();
       }
+      console.error('Error restoring settings:', error);
+      window.alert((error as Error).message);
+      return;
+    }
+    // Restoring must not become a new step, otherwise redo would be lost
+    if (this.historyTimer !== null) {
+      clearTimeout(this.historyTimer);
+      this.historyTimer = null;
     }
-    ctx.closePath();
+    this.updateHistoryButtons();
+  }
+
+  private updateHistoryButtons(): void {
+    (document.getElementById('undo') as HTMLButtonElement).disabled = !this.history.canUndo();
+    (document.getElementById('redo') as HTMLButtonElement).disabled = !this.history.canRedo();
   }
 
   /**
-   * Draws the entire content.
-   * Rotation logic has been removed.
+   * Regenerates the grids of the further grid layers, e.g. after the layers
+   * changed. They only depend on the seed, so the main grid keeps its layout.
    */
-  private drawContent(
-    ctx: CanvasRenderingContext2D,
-    width: number,
-    height: number
-  ): void {
-    const { fontSize } = this.config.symbols; // iconRotation removed
-    const { corners, radius, strokeWidth } = this.config.shape;
-    // angleRad removed
-
-    ctx.fillStyle = this.config.colors.background;
-    ctx.fillRect(0, 0, width, height);
-
-    ctx.font = `900 ${fontSize}px "Font Awesome 5 Free"`;
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-
-    for (const row of this.grid) {
-      if (row) {
-        for (const symbol of row) {
-          if (symbol) { // Only draw if symbol is not 'null'
-            // --- 3a. Shape Fill ---
-            if (corners >= 2) {
-              ctx.globalAlpha = symbol.shapeFillOpacity;
-              ctx.fillStyle = symbol.shapeColor;
-              if (corners === 2) {
-                ctx.beginPath();
-                ctx.arc(symbol.x, symbol.y, radius, 0, Math.PI * 2);
-                ctx.fill();
-              } else {
-                this.drawPolygon(ctx, symbol.x, symbol.y, radius, corners);
-                ctx.fill();
-              }
-            }
-
-            // --- 3b. Shape Border ---
-            if (strokeWidth > 0 && corners >= 2) {
-              ctx.globalAlpha = symbol.shapeStrokeOpacity;
-              ctx.strokeStyle = symbol.shapeStrokeColor;
-              ctx.lineWidth = strokeWidth;
-              if (corners === 2) {
-                ctx.beginPath();
-                ctx.arc(symbol.x, symbol.y, radius, 0, Math.PI * 2);
-                ctx.stroke();
-              } else {
-                this.drawPolygon(ctx, symbol.x, symbol.y, radius, corners);
-                ctx.stroke();
-              }
-            }
-
-            // --- 3c. Symbol (Icon) ---
-            // Rotation logic (save/translate/rotate/restore) removed
-            ctx.globalAlpha = symbol.iconOpacity;
-            ctx.fillStyle = symbol.iconColor;
-            // Draw directly at the symbol position
-            ctx.fillText(symbol.char, symbol.x, symbol.y);
-          }
-        }
-      }
-    }
-    ctx.globalAlpha = 1.0;
+  private updateLayerGrids = (): void => {
+    this.layerGrids = generateLayerGrids(this.config, this.seed, this.model.grid);
+    this.animationPlayer?.reset();
+  };
+
+  /** Grids of all layers, with the current main grid (its clusters can be edited) */
+  private getGrids(): Grid[] {
+    return withMainGrid(this.config, this.layerGrids, this.model.grid);
   }
 
-  private draw(): void {
-    this.drawContent(
+  private setCanvasInternalResolution(width: number, height: number): void {
+    const dpr = window.devicePixelRatio || 1;
+    this.canvas.width = width * dpr;
+    this.canvas.height = height * dpr;
+    this.canvas.style.width = `${width}px`;
+    this.canvas.style.height = `${height}px`;
+    this.ctx.scale(dpr, dpr);
+    this.config.canvasSize.width = width;
+    this.config.canvasSize.height = height;
+  }
+
+  private draw = (): void => {
+    // While the animated preview is on, the current frame replaces the still grids
+    drawContent(
       this.ctx,
+      this.animationPlayer?.getFrameGrids() ?? this.getGrids(),
+      this.config,
       this.config.canvasSize.width,
-      this.config.canvasSize.height
+      this.config.canvasSize.height,
+      createOffscreenCanvas,
+      this.rasters.iconAtlas
     );
-  }
+    this.tilePreview?.update();
+    // Zones and cluster markers are only drawn on the preview, never exported
+    if (this.zoneEditor?.isEnabled()) {
+      this.zoneEditor.drawOverlay(this.ctx);
+    }
+    if (this.clusterEditor?.isEnabled()) {
+      this.clusterEditor.drawOverlay(this.ctx);
+    }
+    if (this.paintEditor?.isEnabled()) {
+      this.paintEditor.drawOverlay(this.ctx);
+    }
+  };
 
   /**
-   * Initializes UI elements and their event listeners.
+   * Writes the current configuration and seed into the UI elements.
+   * Called on start and whenever settings are imported.
    */
-  private initUI(): void {
-    // Get UI elements
+  private updateUIFromConfig(): void {
     const canvasWidthInput = document.getElementById('canvasWidth') as HTMLInputElement;
     const canvasHeightInput = document.getElementById('canvasHeight') as HTMLInputElement;
     const spacingXInput = document.getElementById('spacingX') as HTMLInputElement;
     const spacingYInput = document.getElementById('spacingY') as HTMLInputElement;
+    const gridLayoutSelect = document.getElementById('gridLayout') as HTMLSelectElement;
+    const minDistanceInput = document.getElementById('minDistance') as HTMLInputElement;
+    const tileableInput = document.getElementById('tileable') as HTMLInputElement;
+    const exportScaleInput = document.getElementById('exportScale') as HTMLInputElement;
     const fontSizeInput = document.getElementById('fontSize') as HTMLInputElement;
     const defaultIconOpacityInput = document.getElementById('defaultIconOpacity') as HTMLInputElement;
     const defaultIconOpacityValueSpan = document.getElementById('defaultIconOpacityValue') as HTMLSpanElement;
     const clusterCountInput = document.getElementById('clusterCount') as HTMLInputElement;
     const clusterRadiusInput = document.getElementById('clusterRadius') as HTMLInputElement;
-    
-    // UI element for density (re-added)
+    const clusterPlacementSelect = document.getElementById('clusterPlacement') as HTMLSelectElement;
+    const clusterSeparationInput = document.getElementById('clusterSeparation') as HTMLInputElement;
+    const blendModeSelect = document.getElementById('blendMode') as HTMLSelectElement;
+    const blendColorSpaceSelect = document.getElementById('blendColorSpace') as HTMLSelectElement;
+    const falloffSelect = document.getElementById('falloff') as HTMLSelectElement;
     const symbolDensityInput = document.getElementById('symbolDensity') as HTMLInputElement;
     const symbolDensityValueSpan = document.getElementById('symbolDensityValue') as HTMLSpanElement;
     const coloredOpacityInput = document.getElementById('coloredOpacity') as HTMLInputElement;
     const coloredOpacityValueSpan = document.getElementById('coloredOpacityValue') as HTMLSpanElement;
-
+    const shapeTypeSelect = document.getElementById('shapeType') as HTMLSelectElement;
     const borderCornersInput = document.getElementById('borderCorners') as HTMLInputElement;
+    const shapeRoundingInput = document.getElementById('shapeRounding') as HTMLInputElement;
+    const shapeInnerRadiusInput = document.getElementById('shapeInnerRadius') as HTMLInputElement;
     const borderRadiusInput = document.getElementById('borderRadius') as HTMLInputElement;
     const borderFillOpacityInput = document.getElementById('borderFillOpacity') as HTMLInputElement;
     const borderFillOpacityValueSpan = document.getElementById('borderFillOpacityValue') as HTMLSpanElement;
     const borderStrokeWidthInput = document.getElementById('borderStrokeWidth') as HTMLInputElement;
     const borderStrokeOpacityInput = document.getElementById('borderStrokeOpacity') as HTMLInputElement;
     const borderStrokeOpacityValueSpan = document.getElementById('borderStrokeOpacityValue') as HTMLSpanElement;
+    const shapeStrokeStyleSelect = document.getElementById('shapeStrokeStyle') as HTMLSelectElement;
+    const shapeEffectSelect = document.getElementById('shapeEffect') as HTMLSelectElement;
+    const shapeEffectSizeInput = document.getElementById('shapeEffectSize') as HTMLInputElement;
+    const jitterRotationSelect = document.getElementById('jitterRotation') as HTMLSelectElement;
+    const jitterRotationRangeInput = document.getElementById('jitterRotationRange') as HTMLInputElement;
+    const jitterScaleInput = document.getElementById('jitterScale') as HTMLInputElement;
+    const jitterClusterSwellInput = document.getElementById('jitterClusterSwell') as HTMLInputElement;
+    const jitterPositionInput = document.getElementById('jitterPosition') as HTMLInputElement;
+    const seedInput = document.getElementById('seed') as HTMLInputElement;
+    const lockSeedInput = document.getElementById('lockSeed') as HTMLInputElement;
 
-    const applySettingsButton = document.getElementById('applySettings') as HTMLButtonElement;
-    const downloadImageButton = document.getElementById('downloadImage') as HTMLButtonElement;
-
-    // Set initial values for UI elements from configuration
     canvasWidthInput.value = this.config.canvasSize.width.toString();
     canvasHeightInput.value = this.config.canvasSize.height.toString();
     spacingXInput.value = this.config.grid.spacingX.toString();
     spacingYInput.value = this.config.grid.spacingY.toString();
+    gridLayoutSelect.value = this.config.grid.layout;
+    minDistanceInput.value = this.config.grid.minDistance.toString();
+    tileableInput.checked = this.config.grid.tileable;
+    exportScaleInput.value = this.config.canvasSize.exportScale.toString();
     fontSizeInput.value = this.config.symbols.fontSize.toString();
     defaultIconOpacityInput.value = this.config.symbols.defaultIconOpacity.toString();
     defaultIconOpacityValueSpan.textContent = this.config.symbols.defaultIconOpacity.toFixed(2);
     clusterCountInput.value = this.config.clustering.count.toString();
     clusterRadiusInput.value = this.config.clustering.maxRadius.toString();
+    clusterPlacementSelect.value = this.config.clustering.placement;
+    clusterSeparationInput.value = this.config.clustering.minSeparation.toString();
+    blendModeSelect.value = this.config.clustering.blendMode;
+    blendColorSpaceSelect.value = this.config.clustering.blendColorSpace;
+    falloffSelect.value = this.config.clustering.falloff;
 
     // Initial values for density (re-added)
     symbolDensityInput.value = this.config.symbols.density.toString();
@@ -404,13 +437,235 @@ class BackgroundGenerator {
     coloredOpacityInput.value = this.config.clustering.coloredOpacity.toString();
     coloredOpacityValueSpan.textContent = this.config.clustering.coloredOpacity.toFixed(2);
 
+    shapeTypeSelect.value = this.config.shape.type;
     borderCornersInput.value = this.config.shape.corners.toString();
+    shapeRoundingInput.value = this.config.shape.rounding.toString();
+    shapeInnerRadiusInput.value = this.config.shape.innerRadius.toString();
     borderRadiusInput.value = this.config.shape.radius.toString();
     borderFillOpacityInput.value = this.config.shape.fillOpacity.toString();
     borderFillOpacityValueSpan.textContent = this.config.shape.fillOpacity.toFixed(2);
     borderStrokeWidthInput.value = this.config.shape.strokeWidth.toString();
     borderStrokeOpacityInput.value = this.config.shape.strokeOpacity.toString();
     borderStrokeOpacityValueSpan.textContent = this.config.shape.strokeOpacity.toFixed(2);
+    shapeStrokeStyleSelect.value = this.config.shape.strokeStyle;
+    shapeEffectSelect.value = this.config.shape.effect;
+    shapeEffectSizeInput.value = this.config.shape.effectSize.toString();
+    this.updateShapeFields();
+
+    jitterRotationSelect.value = this.config.jitter.rotation;
+    jitterRotationRangeInput.value = this.config.jitter.rotationRange.toString();
+    jitterScaleInput.value = this.config.jitter.scale.toString();
+    jitterClusterSwellInput.value = this.config.jitter.clusterSwell.toString();
+    jitterPositionInput.value = this.config.jitter.position.toString();
+    this.updateJitterLabels();
+
+    seedInput.value = this.seed.toString();
+    lockSeedInput.checked = this.seedLocked;
+
+    this.paletteEditor?.update();
+    this.iconSourceEditor?.update();
+    this.layerEditor?.update();
+    this.maskEditor?.update();
+    this.zoneEditor?.update();
+    this.paintEditor?.update();
+    this.animationPlayer?.update();
+  }
+
+  /** Shows the slider values and only the settings the chosen shape uses */
+  private updateShapeFields(): void {
+    const type = (document.getElementById('shapeType') as HTMLSelectElement).value;
+    const rounding = parseFloat((document.getElementById('shapeRounding') as HTMLInputElement).value);
+    const innerRadius = parseFloat(
+      (document.getElementById('shapeInnerRadius') as HTMLInputElement).value
+    );
+    (document.getElementById('shapeRoundingValue') as HTMLSpanElement).textContent =
+      rounding.toFixed(2);
+    (document.getElementById('shapeInnerRadiusValue') as HTMLSpanElement).textContent =
+      `${Math.round(innerRadius * 100)}%`;
+    (document.getElementById('shapeRoundingGroup') as HTMLDivElement).hidden =
+      type !== 'rounded-polygon';
+    (document.getElementById('shapeInnerRadiusGroup') as HTMLDivElement).hidden =
+      type !== 'star' && type !== 'ring';
+  }
+
+  /** Shows the values of the jitter sliders as percentages */
+  private updateJitterLabels(): void {
+    const percent = (id: string) =>
+      Math.round(parseFloat((document.getElementById(id) as HTMLInputElement).value) * 100);
+    (document.getElementById('jitterScaleValue') as HTMLSpanElement).textContent =
+      `±${percent('jitterScale')}%`;
+    (document.getElementById('jitterClusterSwellValue') as HTMLSpanElement).textContent =
+      `+${percent('jitterClusterSwell')}%`;
+    (document.getElementById('jitterPositionValue') as HTMLSpanElement).textContent =
+      `${percent('jitterPosition')}%`;
+  }
+
+  /**
+   * Takes the values of the panel inputs into the configuration.
+   * Returns false and keeps the configuration if a value is invalid,
+   * e.g. an empty field while the user is still typing.
+   */
+  private readSettingsFromUI(): boolean {
+    const value = (id: string) => (document.getElementById(id) as HTMLInputElement).value;
+    const number = (id: string) => parseFloat(value(id));
+    const integer = (id: string) => parseInt(value(id));
+    const checked = (id: string) => (document.getElementById(id) as HTMLInputElement).checked;
+
+    const candidate = structuredClone(this.config);
+    candidate.canvasSize.width = integer('canvasWidth');
+    candidate.canvasSize.height = integer('canvasHeight');
+    candidate.grid.spacingX = integer('spacingX');
+    candidate.grid.spacingY = integer('spacingY');
+    candidate.grid.layout = value('gridLayout') as GridLayout;
+    candidate.grid.minDistance = integer('minDistance');
+    candidate.grid.tileable = checked('tileable');
+    candidate.symbols.fontSize = integer('fontSize');
+    candidate.symbols.defaultIconOpacity = number('defaultIconOpacity');
+    candidate.symbols.density = number('symbolDensity');
+    candidate.clustering.count = integer('clusterCount');
+    candidate.clustering.maxRadius = integer('clusterRadius');
+    candidate.clustering.placement = value('clusterPlacement') as ClusterPlacement;
+    candidate.clustering.minSeparation = integer('clusterSeparation');
+    candidate.clustering.blendMode = value('blendMode') as BlendMode;
+    candidate.clustering.blendColorSpace = value('blendColorSpace') as BlendColorSpace;
+    candidate.clustering.falloff = value('falloff') as FalloffCurve;
+    candidate.clustering.coloredOpacity = number('coloredOpacity');
+
+    candidate.shape.type = value('shapeType');
+    candidate.shape.corners = integer('borderCorners');
+    candidate.shape.rounding = number('shapeRounding');
+    candidate.shape.innerRadius = number('shapeInnerRadius');
+    candidate.shape.radius = integer('borderRadius');
+    candidate.shape.fillOpacity = number('borderFillOpacity');
+    candidate.shape.strokeWidth = integer('borderStrokeWidth');
+    candidate.shape.strokeOpacity = number('borderStrokeOpacity');
+    candidate.shape.strokeStyle = value('shapeStrokeStyle') as StrokeStyle;
+    candidate.shape.effect = value('shapeEffect') as ShapeEffect;
+    candidate.shape.effectSize = number('shapeEffectSize') || 0;
+
+    candidate.jitter.rotation = value('jitterRotation') as RotationMode;
+    candidate.jitter.rotationRange = number('jitterRotationRange') || 0;
+    candidate.jitter.scale = number('jitterScale');
+    candidate.jitter.clusterSwell = number('jitterClusterSwell');
+    candidate.jitter.position = number('jitterPosition');
+
+    try {
+      const { canvasSize, grid, symbols, clustering, shape, jitter } = validateConfig(candidate);
+      // Only the sections of these inputs; the editors keep their objects
+      Object.assign(this.config, { canvasSize, grid, symbols, clustering, shape, jitter });
+      return true;
+    } catch (error) {
+      if (!(error instanceof ConfigValidationError)) {
+        throw error;
+      }
+      console.warn('Settings not applied:', error.message);
+      return false;
+    }
+  }
+
+  /**
+   * Initializes UI elements and their event listeners.
+   */
+  private initUI(): void {
+    // Get UI elements
+    const defaultIconOpacityInput = document.getElementById('defaultIconOpacity') as HTMLInputElement;
+    const defaultIconOpacityValueSpan = document.getElementById('defaultIconOpacityValue') as HTMLSpanElement;
+    
+    // UI element for density (re-added)
+    const symbolDensityInput = document.getElementById('symbolDensity') as HTMLInputElement;
+    const symbolDensityValueSpan = document.getElementById('symbolDensityValue') as HTMLSpanElement;
+    const coloredOpacityInput = document.getElementById('coloredOpacity') as HTMLInputElement;
+    const coloredOpacityValueSpan = document.getElementById('coloredOpacityValue') as HTMLSpanElement;
+
+    const shapeTypeSelect = document.getElementById('shapeType') as HTMLSelectElement;
+    const shapeRoundingInput = document.getElementById('shapeRounding') as HTMLInputElement;
+    const shapeInnerRadiusInput = document.getElementById('shapeInnerRadius') as HTMLInputElement;
+    const borderFillOpacityInput = document.getElementById('borderFillOpacity') as HTMLInputElement;
+    const borderFillOpacityValueSpan = document.getElementById('borderFillOpacityValue') as HTMLSpanElement;
+    const borderStrokeOpacityInput = document.getElementById('borderStrokeOpacity') as HTMLInputElement;
+    const borderStrokeOpacityValueSpan = document.getElementById('borderStrokeOpacityValue') as HTMLSpanElement;
+
+    const jitterScaleInput = document.getElementById('jitterScale') as HTMLInputElement;
+    const jitterClusterSwellInput = document.getElementById('jitterClusterSwell') as HTMLInputElement;
+    const jitterPositionInput = document.getElementById('jitterPosition') as HTMLInputElement;
+
+    const seedInput = document.getElementById('seed') as HTMLInputElement;
+    const lockSeedInput = document.getElementById('lockSeed') as HTMLInputElement;
+    const newSeedButton = document.getElementById('newSeed') as HTMLButtonElement;
+    const undoButton = document.getElementById('undo') as HTMLButtonElement;
+    const redoButton = document.getElementById('redo') as HTMLButtonElement;
+
+    const downloadImageButton = document.getElementById('downloadImage') as HTMLButtonElement;
+    const downloadSvgButton = document.getElementById('downloadSvg') as HTMLButtonElement;
+    const exportScaleInput = document.getElementById('exportScale') as HTMLInputElement;
+    const cancelExportButton = document.getElementById('cancelExport') as HTMLButtonElement;
+
+    const exportSettingsButton = document.getElementById('exportSettings') as HTMLButtonElement;
+    const importSettingsButton = document.getElementById('importSettings') as HTMLButtonElement;
+    const importSettingsFileInput = document.getElementById('importSettingsFile') as HTMLInputElement;
+    const copyShareLinkButton = document.getElementById('copyShareLink') as HTMLButtonElement;
+
+    this.paletteEditor = new PaletteEditor(this.config, this.recolor);
+    this.iconSourceEditor = new IconSourceEditor(this.config, this.regenerate);
+    this.layerEditor = new LayerEditor(this.config, (regenerateGrids) => {
+      if (regenerateGrids) {
+        this.updateLayerGrids();
+      }
+      this.draw();
+    });
+    this.maskEditor = new MaskEditor(this.config, this.regenerate);
+    new IconPicker(this.config, () => {
+      this.iconSourceEditor?.update();
+      this.regenerate();
+    });
+    this.clusterEditor = new ClusterEditor(
+      this.canvas,
+      this.model,
+      this.config,
+      () => {
+        this.draw();
+        this.scheduleHistoryEntry();
+      }
+    );
+    this.zoneEditor = new ZoneEditor(this.canvas, this.config, (regenerateGrid) => {
+      if (regenerateGrid) {
+        this.regenerate();
+      } else {
+        this.draw();
+        this.scheduleHistoryEntry();
+      }
+    });
+    this.paintEditor = new PaintEditor(this.canvas, this.model, this.config, () => {
+      this.draw();
+      this.scheduleHistoryEntry();
+    });
+    this.animationPlayer = new AnimationPlayer(
+      this.model,
+      this.config,
+      () => this.seed,
+      () => this.rasters.iconAtlas,
+      () => this.getExportFileName(),
+      (href, fileName) => this.triggerDownload(href, fileName),
+      this.draw
+    );
+    this.tilePreview = new TilePreview(this.canvas);
+    new BatchExport(
+      this.model,
+      this.config,
+      () => this.seed,
+      () => this.rasters.iconAtlasData,
+      (href, fileName) => this.triggerDownload(href, fileName)
+    );
+    new Gallery(
+      this.canvas,
+      () => serializeSettings(this.config, this.seed),
+      (settings) => this.tryApplySettings(() => parseSettings(settings))
+    );
+    // Built-in and custom shapes (see shapes.ts)
+    for (const shape of getShapes()) {
+      shapeTypeSelect.add(new Option(shape.label, shape.name));
+    }
+    this.updateUIFromConfig();
 
     // Event listeners for opacity ranges
     defaultIconOpacityInput.addEventListener('input', () => {
@@ -422,6 +677,12 @@ class BackgroundGenerator {
     borderStrokeOpacityInput.addEventListener('input', () => {
       borderStrokeOpacityValueSpan.textContent = parseFloat(borderStrokeOpacityInput.value).toFixed(2);
     });
+    for (const input of [shapeTypeSelect, shapeRoundingInput, shapeInnerRadiusInput]) {
+      input.addEventListener('input', () => this.updateShapeFields());
+    }
+    for (const input of [jitterScaleInput, jitterClusterSwellInput, jitterPositionInput]) {
+      input.addEventListener('input', () => this.updateJitterLabels());
+    }
 
     // Event listener for density (re-added)
     symbolDensityInput.addEventListener('input', () => {
@@ -431,71 +692,257 @@ class BackgroundGenerator {
       coloredOpacityValueSpan.textContent = parseFloat(coloredOpacityInput.value).toFixed(2);
     });
 
-    // "Apply" button listener
-    applySettingsButton.addEventListener('click', () => {
-      // Update configuration from UI values
-      this.config.canvasSize.width = parseInt(canvasWidthInput.value);
-      this.config.canvasSize.height = parseInt(canvasHeightInput.value);
-      this.config.grid.spacingX = parseInt(spacingXInput.value);
-      this.config.grid.spacingY = parseInt(spacingYInput.value);
-      this.config.symbols.fontSize = parseInt(fontSizeInput.value);
-      this.config.symbols.defaultIconOpacity = parseFloat(defaultIconOpacityInput.value);
-      this.config.clustering.count = parseInt(clusterCountInput.value);
-      this.config.clustering.maxRadius = parseInt(clusterRadiusInput.value);
-
-      // Update density value (re-added)
-      this.config.symbols.density = parseFloat(symbolDensityInput.value);
-      this.config.clustering.coloredOpacity = parseFloat(coloredOpacityInput.value);
-
-      this.config.shape.corners = parseInt(borderCornersInput.value);
-      this.config.shape.radius = parseInt(borderRadiusInput.value);
-      this.config.shape.fillOpacity = parseFloat(borderFillOpacityInput.value);
-      this.config.shape.strokeWidth = parseInt(borderStrokeWidthInput.value);
-      this.config.shape.strokeOpacity = parseFloat(borderStrokeOpacityInput.value);
-
-      // Reset canvas and regenerate
-      this.setCanvasInternalResolution(
-        this.config.canvasSize.width,
-        this.config.canvasSize.height
-      );
+    // Seed controls
+    seedInput.addEventListener('change', () => {
+      const seed = parseSeed(seedInput.value);
+      if (seed === null) {
+        // Invalid input: show the seed that is actually in use
+        seedInput.value = this.seed.toString();
+        return;
+      }
+      // A manually entered seed should survive the next settings change
+      this.seed = seed;
+      this.seedLocked = true;
+      lockSeedInput.checked = true;
       this.regenerate();
     });
+    lockSeedInput.addEventListener('change', () => {
+      this.seedLocked = lockSeedInput.checked;
+    });
+    newSeedButton.addEventListener('click', () => {
+      this.seed = createSeed();
+      seedInput.value = this.seed.toString();
+      this.regenerate();
+    });
+
+    // Every input updates the preview; of a burst of changes only the last is applied
+    for (const [id, scope] of Object.entries(INPUT_SCOPES)) {
+      document.getElementById(id)!.addEventListener('input', () => this.scheduleChange(scope));
+    }
+
+    // Undo and redo, also with the usual shortcuts outside of text fields
+    undoButton.addEventListener('click', () => this.stepHistory(false));
+    redoButton.addEventListener('click', () => this.stepHistory(true));
+    document.addEventListener('keydown', (event) => {
+      if (!(event.ctrlKey || event.metaKey) || isTextField(event.target)) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key === 'z' || key === 'y') {
+        event.preventDefault();
+        this.stepHistory(key === 'y' || event.shiftKey);
+      }
+    });
+    // Editors that change the config without regenerating (layers, zones, animation, …)
+    document.getElementById('settings-panel')!.addEventListener('change', this.scheduleHistoryEntry);
+    this.updateHistoryButtons();
 
     downloadImageButton.addEventListener('click', () => {
       this.downloadImage();
     });
+    downloadSvgButton.addEventListener('click', () => {
+      this.downloadSvg();
+    });
+    // Only affects exports, so the layout is kept
+    exportScaleInput.addEventListener('change', () => {
+      const scale = parseFloat(exportScaleInput.value);
+      try {
+        // Same range as in imported settings, so every share link and history step stays valid
+        const { canvasSize } = validateConfig({ canvasSize: { exportScale: scale } }, this.config);
+        this.config.canvasSize.exportScale = canvasSize.exportScale;
+      } catch {
+        exportScaleInput.value = this.config.canvasSize.exportScale.toString();
+      }
+    });
+    cancelExportButton.addEventListener('click', () => {
+      this.exportAbort?.abort();
+    });
+
+    // Settings import/export
+    exportSettingsButton.addEventListener('click', () => {
+      this.exportSettings();
+    });
+    importSettingsButton.addEventListener('click', () => {
+      importSettingsFileInput.click();
+    });
+    importSettingsFileInput.addEventListener('change', () => {
+      const file = importSettingsFileInput.files?.[0];
+      // Reset, so the same file can be imported again
+      importSettingsFileInput.value = '';
+      if (file) {
+        this.tryApplySettings(async () => parseSettings(await file.text()));
+      }
+    });
+    copyShareLinkButton.addEventListener('click', () => {
+      this.copyShareLink(copyShareLinkButton);
+    });
+    window.addEventListener('hashchange', () => {
+      if (hasSettingsHash(window.location.hash)) {
+        this.importSettingsFromHash();
+      }
+    });
   }
 
-  private downloadImage(): void {
-    const downloadWidth = this.config.canvasSize.width;
-    const downloadHeight = this.config.canvasSize.height;
+  /** Replaces configuration and seed and regenerates the wallpaper */
+  private applySettings(settings: Settings): void {
+    Object.assign(this.config, settings.config);
+    this.seed = settings.seed;
+    this.seedLocked = true;
+    this.updateUIFromConfig();
+    this.setCanvasInternalResolution(
+      this.config.canvasSize.width,
+      this.config.canvasSize.height
+    );
+    this.regenerate();
+  }
 
-    const tempCanvas = document.createElement('canvas');
-    const tempCtx = tempCanvas.getContext('2d')!;
-    const dpr = window.devicePixelRatio || 1;
+  /** Applies settings and reports invalid ones to the user instead of failing silently */
+  private async tryApplySettings(
+    load: () => Settings | Promise<Settings>
+  ): Promise<void> {
+    try {
+      this.applySettings(await load());
+    } catch (error) {
+      console.error('Error importing settings:', error);
+      window.alert((error as Error).message);
+    }
+  }
+
+  private importSettingsFromHash(): void {
+    this.tryApplySettings(() => decodeSettingsHash(window.location.hash));
+  }
 
-    tempCanvas.width = downloadWidth * dpr;
-    tempCanvas.height = downloadHeight * dpr;
-    tempCtx.scale(dpr, dpr);
+  private exportSettings(): void {
+    const json = serializeSettings(this.config, this.seed);
+    const url = URL.createObjectURL(
+      new Blob([json], { type: 'application/json' })
+    );
+    this.triggerDownload(url, `${this.getExportFileName()}.json`);
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
 
-    // Call central drawing method on temporary context
-    this.drawContent(tempCtx, downloadWidth, downloadHeight);
+  /**
+   * Puts the settings into the URL hash and copies the link.
+   * Opening the link shows exactly the same wallpaper.
+   */
+  private async copyShareLink(button: HTMLButtonElement): Promise<void> {
+    const hash = encodeSettingsHash(this.config, this.seed);
+    // replaceState does not fire 'hashchange', so the wallpaper is not regenerated
+    window.history.replaceState(null, '', hash);
+    const url = window.location.href;
+    try {
+      await navigator.clipboard.writeText(url);
+      const label = button.textContent;
+      button.textContent = 'Link copied!';
+      setTimeout(() => {
+        button.textContent = label;
+      }, 2000);
+    } catch {
+      // Clipboard access can be denied; let the user copy the link manually
+      window.prompt('Copy this link:', url);
+    }
+  }
 
-    // Download logic
-    const dataURL = tempCanvas.toDataURL('image/png');
+  /** Base name of exported files, e.g. 'hintergrund_1920x1080_42' */
+  private getExportFileName(): string {
+    const { width, height } = this.config.canvasSize;
+    return `hintergrund_${width}x${height}_${this.seed}`;
+  }
+
+  /** Shows the export progress (0 to 1), or hides it if progress is null */
+  private showExportProgress(progress: number | null): void {
+    const container = document.getElementById('exportProgress') as HTMLDivElement;
+    const bar = document.getElementById('exportProgressBar') as HTMLProgressElement;
+    const downloadImageButton = document.getElementById('downloadImage') as HTMLButtonElement;
+    container.hidden = progress === null;
+    downloadImageButton.disabled = progress !== null;
+    bar.value = progress ?? 0;
+  }
+
+  private triggerDownload(href: string, fileName: string): void {
     const link = document.createElement('a');
-    link.href = dataURL;
-    link.download = `hintergrund_${downloadWidth}x${downloadHeight}.png`;
+    link.href = href;
+    link.download = fileName;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   }
+
+  /**
+   * Exports the current grid as PNG at the export scale.
+   * Rendering runs in a worker, in strips, so large images neither block
+   * the page nor run into the canvas size limits of the browser.
+   */
+  private async downloadImage(): Promise<void> {
+    if (this.exportAbort) {
+      return;
+    }
+    const { width, height, exportScale } = this.config.canvasSize;
+    this.exportAbort = new AbortController();
+    this.showExportProgress(0);
+
+    try {
+      const png = await renderPngInWorker(
+        {
+          grids: this.getGrids(),
+          config: this.config,
+          width,
+          height,
+          offsetX: 0,
+          scale: exportScale,
+          iconAtlas: this.rasters.iconAtlasData,
+        },
+        (progress) => this.showExportProgress(progress),
+        this.exportAbort.signal
+      );
+      const suffix = exportScale === 1 ? '' : `@${exportScale}x`;
+      const url = URL.createObjectURL(png);
+      this.triggerDownload(url, `${this.getExportFileName()}${suffix}.png`);
+      // Revoke after the click has been handled, otherwise some browsers abort the download
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (error) {
+      if (!(error instanceof RenderCancelledError)) {
+        console.error('Error exporting image:', error);
+        window.alert(`The image could not be exported: ${(error as Error).message}`);
+      }
+    } finally {
+      this.exportAbort = null;
+      this.showExportProgress(null);
+    }
+  }
+
+  /**
+   * Exports the current grid as a vector graphic.
+   * Uses the same grid as the canvas, so both files show the same image.
+   */
+  private downloadSvg(): void {
+    const { width, height } = this.config.canvasSize;
+    const svg = createSvg(this.getGrids(), this.config, width, height);
+    const url = URL.createObjectURL(
+      new Blob([svg], { type: 'image/svg+xml' })
+    );
+    this.triggerDownload(url, `${this.getExportFileName()}.svg`);
+    // Revoke after the click has been handled, otherwise some browsers abort the download
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+}
+
+/** Inputs in which Ctrl+Z undoes typing instead of settings */
+function isTextField(target: EventTarget | null): boolean {
+  if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) {
+    return true;
+  }
+  return (
+    target instanceof HTMLInputElement &&
+    !['checkbox', 'radio', 'range', 'color', 'button', 'file'].includes(target.type)
+  );
 }
 
 // ---- Start application ----
 window.addEventListener('DOMContentLoaded', () => {
   try {
-    const generator = new BackgroundGenerator('bg-canvas', CONFIG);
+    // Work on a copy, so CONFIG keeps the defaults for imports and share links
+    const generator = new BackgroundGenerator('bg-canvas', structuredClone(CONFIG));
     generator.generate();
   } catch (error) {
     console.error('Error initializing generator:', error);
@@ -0,0 +1,278 @@
+import chroma from 'chroma-js';
+import type { Config, MaskChannel, MaskColorSource, MaskType } from './config';
+import type { CanvasFactory } from './iconAtlas';
+import type { RenderContext } from './render';
+
+/**
+ * Image and text masks (config.mask).
+ * The mask is rasterized once into a small bitmap; the model then asks the
+ * MaskField how much of a grid position lies inside the mask and which
+ * color the mask has there. Rasterizing needs a canvas (page, worker or
+ * Node), sampling does not, so the model stays free of the DOM.
+ */
+
+export const MASK_TYPES: readonly MaskType[] = ['none', 'image', 'text'];
+export const MASK_CHANNELS: readonly MaskChannel[] = ['alpha', 'darkness'];
+export const MASK_COLOR_SOURCES: readonly MaskColorSource[] = ['mask', 'palette'];
+
+/** Longer side of the rasterized mask; enough for icon grids of any spacing */
+export const MASK_RESOLUTION = 512;
+
+/** Font size text masks are measured in, before they are scaled to the resolution */
+const TEXT_MEASURE_SIZE = 100;
+const TEXT_LINE_HEIGHT = 1.2;
+
+/** RGBA pixels of the rasterized mask, like ImageData */
+export interface MaskRaster {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+/** An image of an 'image' mask, loaded by the platform (browser or Node) */
+export interface MaskImage {
+  image: CanvasImageSource;
+  width: number;
+  height: number;
+}
+
+/** The fields that change the raster; the others only change how it is placed */
+export function getMaskSourceKey(mask: Config['mask']): string {
+  const { type, image, text, fontFamily, fontWeight, color } = mask;
+  switch (type) {
+    case 'image':
+      return image ? `image\n${image}` : '';
+    case 'text':
+      return text.trim() ? `text\n${text}\n${fontFamily}\n${fontWeight}\n${color}` : '';
+    default:
+      return '';
+  }
+}
+
+/** CSS font of a text mask at the given size */
+export function getMaskFont(mask: Config['mask'], size: number): string {
+  return `${mask.fontWeight} ${size}px ${mask.fontFamily || 'sans-serif'}`;
+}
+
+function getContext(canvas: ReturnType<CanvasFactory>): RenderContext {
+  return canvas.getContext('2d') as RenderContext;
+}
+
+/**
+ * Draws the mask into a bitmap of at most MASK_RESOLUTION pixels per side.
+ * 'image' is the loaded image of 'image' masks; text masks are drawn in
+ * mask.color, one line per line of the text.
+ * Returns null if there is nothing to draw.
+ */
+export function rasterizeMask(
+  mask: Config['mask'],
+  image: MaskImage | null,
+  createCanvas: CanvasFactory
+): MaskRaster | null {
+  if (mask.type === 'image') {
+    if (!image || image.width <= 0 || image.height <= 0) {
+      return null;
+    }
+    const scale = MASK_RESOLUTION / Math.max(image.width, image.height);
+    const width = Math.max(1, Math.round(image.width * scale));
+    const height = Math.max(1, Math.round(image.height * scale));
+    const ctx = getContext(createCanvas(width, height));
+    ctx.drawImage(image.image, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+  }
+
+  if (mask.type === 'text') {
+    const lines = mask.text.split('\n').filter((line) => line.trim());
+    if (lines.length === 0) {
+      return null;
+    }
+    // Measure at a fixed size, then draw at the size that fills the resolution
+    const measure = getContext(createCanvas(1, 1));
+    measure.font = getMaskFont(mask, TEXT_MEASURE_SIZE);
+    const textWidth = Math.max(...lines.map((line) => measure.measureText(line).width));
+    const textHeight = lines.length * TEXT_MEASURE_SIZE * TEXT_LINE_HEIGHT;
+    const scale = MASK_RESOLUTION / Math.max(textWidth, textHeight);
+    const width = Math.max(1, Math.round(textWidth * scale));
+    const height = Math.max(1, Math.round(textHeight * scale));
+    const fontSize = TEXT_MEASURE_SIZE * scale;
+
+    const ctx = getContext(createCanvas(width, height));
+    ctx.font = getMaskFont(mask, fontSize);
+    ctx.fillStyle = mask.color;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    lines.forEach((line, i) => {
+      ctx.fillText(line, width / 2, (i + 0.5) * fontSize * TEXT_LINE_HEIGHT);
+    });
+    return ctx.getImageData(0, 0, width, height);
+  }
+  return null;
+}
+
+/** Loads the image of an 'image' mask in the browser; null if it cannot be decoded */
+export async function loadMaskImage(dataUrl: string): Promise<MaskImage | null> {
+  try {
+    const image = new Image();
+    image.src = dataUrl;
+    await image.decode();
+    // SVGs without a size report 0; they are drawn at the resolution then
+    return {
+      image,
+      width: image.naturalWidth || MASK_RESOLUTION,
+      height: image.naturalHeight || MASK_RESOLUTION,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** Rasterizes the mask in the browser, after its font or image has loaded */
+export async function rasterizeMaskInBrowser(mask: Config['mask']): Promise<MaskRaster | null> {
+  const createCanvas: CanvasFactory = (width, height) => new OffscreenCanvas(width, height);
+  if (mask.type === 'image') {
+    return rasterizeMask(mask, await loadMaskImage(mask.image), createCanvas);
+  }
+  if (mask.type === 'text') {
+    await document.fonts.load(getMaskFont(mask, TEXT_MEASURE_SIZE), mask.text);
+  }
+  return rasterizeMask(mask, null, createCanvas);
+}
+
+/**
+ * Box blur of a channel, in place; three passes come close to a gaussian.
+ * Used to feather the mask edge.
+ */
+function blurChannel(values: Float32Array, width: number, height: number, radius: number): void {
+  const r = Math.max(1, Math.round(radius / Math.sqrt(3)));
+  const line = new Float32Array(Math.max(width, height));
+  const blurLine = (start: number, step: number, length: number) => {
+    for (let i = 0; i < length; i++) {
+      line[i] = values[start + i * step];
+    }
+    // Running sum over the window; pixels beyond the edge count as empty
+    let sum = 0;
+    for (let i = 0; i < Math.min(r, length); i++) {
+      sum += line[i];
+    }
+    for (let i = 0; i < length; i++) {
+      if (i + r < length) {
+        sum += line[i + r];
+      }
+      if (i - r - 1 >= 0) {
+        sum -= line[i - r - 1];
+      }
+      values[start + i * step] = sum / (2 * r + 1);
+    }
+  };
+  for (let pass = 0; pass < 3; pass++) {
+    for (let y = 0; y < height; y++) {
+      blurLine(y * width, 1, width);
+    }
+    for (let x = 0; x < width; x++) {
+      blurLine(x, width, height);
+    }
+  }
+}
+
+/**
+ * The placed mask: coverage and color for every point of the canvas.
+ * The mask fits into a square of 'scale' times the shorter canvas side,
+ * centered at (x, y) as share of the canvas size.
+ */
+export class MaskField {
+  private width: number;
+  private height: number;
+  /** 0 (outside) to 1 (inside) per pixel, softened at the edge by the feathering */
+  private coverage: Float32Array;
+  /** Colors per pixel; inside colors bleed into the feathered edge */
+  private colors: string[];
+  /** Canvas pixels per mask pixel, and the top left corner of the mask on the canvas */
+  private pixelSize: number;
+  private left: number;
+  private top: number;
+
+  constructor(raster: MaskRaster, mask: Config['mask'], canvasSize: Config['canvasSize']) {
+    const { width, height, data } = raster;
+    this.width = width;
+    this.height = height;
+    const size = Math.min(canvasSize.width, canvasSize.height) * mask.scale;
+    this.pixelSize = size / Math.max(width, height);
+    this.left = canvasSize.width * mask.x - (width * this.pixelSize) / 2;
+    this.top = canvasSize.height * mask.y - (height * this.pixelSize) / 2;
+
+    // Pixels above the threshold are inside; their colors are summed up weighted by it
+    const count = width * height;
+    this.coverage = new Float32Array(count);
+    const channels = [new Float32Array(count), new Float32Array(count), new Float32Array(count)];
+    for (let i = 0; i < count; i++) {
+      const r = data[i * 4];
+      const g = data[i * 4 + 1];
+      const b = data[i * 4 + 2];
+      const alpha = data[i * 4 + 3] / 255;
+      const value =
+        mask.channel === 'darkness'
+          ? alpha * (1 - (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255)
+          : alpha;
+      const inside = (mask.invert ? 1 - value : value) >= mask.threshold ? 1 : 0;
+      this.coverage[i] = inside;
+      channels[0][i] = r * inside;
+      channels[1][i] = g * inside;
+      channels[2][i] = b * inside;
+    }
+
+    // Feathering blurs the inside, so the edge fades out over 'feather' pixels
+    const blurRadius = mask.feather / this.pixelSize;
+    const weights = this.coverage.slice();
+    if (blurRadius >= 0.5) {
+      blurChannel(this.coverage, width, height, blurRadius);
+      channels.forEach((channel) => blurChannel(channel, width, height, blurRadius));
+    }
+    const colorCache = new Map<number, string>();
+    this.colors = Array.from({ length: count }, (_, i) => {
+      const weight = blurRadius >= 0.5 ? this.coverage[i] : weights[i];
+      if (weight <= 0) {
+        return '';
+      }
+      const [r, g, b] = channels.map((channel) => Math.round(channel[i] / weight));
+      const key = (r << 16) | (g << 8) | b;
+      let color = colorCache.get(key);
+      if (!color) {
+        color = chroma(r, g, b).hex();
+        colorCache.set(key, color);
+      }
+      return color;
+    });
+  }
+
+  /** Index of the mask pixel at a canvas position, or -1 outside the mask */
+  private getPixel(x: number, y: number): number {
+    const col = Math.floor((x - this.left) / this.pixelSize);
+    const row = Math.floor((y - this.top) / this.pixelSize);
+    if (col < 0 || row < 0 || col >= this.width || row >= this.height) {
+      return -1;
+    }
+    return row * this.width + col;
+  }
+
+  /** How much of a canvas position lies inside the mask, from 0 to 1 */
+  public getCoverage(x: number, y: number): number {
+    const pixel = this.getPixel(x, y);
+    return pixel >= 0 ? this.coverage[pixel] : 0;
+  }
+
+  /** Color of the mask at a canvas position; null outside */
+  public getColor(x: number, y: number): string | null {
+    const pixel = this.getPixel(x, y);
+    return pixel >= 0 && this.colors[pixel] ? this.colors[pixel] : null;
+  }
+
+  /** Area of the canvas the mask covers, e.g. for placing clusters in it */
+  public getBounds(): { x: number; y: number; width: number; height: number } {
+    return {
+      x: this.left,
+      y: this.top,
+      width: this.width * this.pixelSize,
+      height: this.height * this.pixelSize,
+    };
+  }
+}
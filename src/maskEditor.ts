@@ -0,0 +1,173 @@
+import type { Config, MaskChannel, MaskColorSource, MaskType } from './config';
+import { normalizeSvg } from './iconSourceEditor';
+import { MASK_RESOLUTION } from './mask';
+import { toHexColor } from './palettes';
+
+/**
+ * Reads an uploaded mask image as data URL. SVGs are cleaned up like SVG
+ * icons; other images are scaled down to the mask resolution first, so
+ * the configuration (and share links) stay small.
+ * Returns null if the file cannot be read as image.
+ */
+async function readMaskImage(file: File): Promise<string | null> {
+  if (file.type === 'image/svg+xml' || file.name.toLowerCase().endsWith('.svg')) {
+    const svg = normalizeSvg(await file.text());
+    return svg && `data:image/svg+xml,${encodeURIComponent(svg)}`;
+  }
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, MASK_RESOLUTION / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/png');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The mask panel of the settings: image or text, placement, threshold,
+ * feathering and where the colors come from. Edits config.mask directly;
+ * every change is reported via 'onChange'.
+ */
+export class MaskEditor {
+  private config: Config;
+  private onChange: () => void;
+
+  private typeSelect = document.getElementById('maskType') as HTMLSelectElement;
+  private imageFields = document.getElementById('maskImageFields') as HTMLDivElement;
+  private imageStatus = document.getElementById('maskImageStatus') as HTMLSpanElement;
+  private textFields = document.getElementById('maskTextFields') as HTMLDivElement;
+  private textInput = document.getElementById('maskText') as HTMLTextAreaElement;
+  private fontFamilyInput = document.getElementById('maskFontFamily') as HTMLInputElement;
+  private fontWeightInput = document.getElementById('maskFontWeight') as HTMLInputElement;
+  private colorInput = document.getElementById('maskColor') as HTMLInputElement;
+  private settings = document.getElementById('maskSettings') as HTMLDivElement;
+  private channelSelect = document.getElementById('maskChannel') as HTMLSelectElement;
+  private invertInput = document.getElementById('maskInvert') as HTMLInputElement;
+  private scaleInput = document.getElementById('maskScale') as HTMLInputElement;
+  private xInput = document.getElementById('maskX') as HTMLInputElement;
+  private yInput = document.getElementById('maskY') as HTMLInputElement;
+  private thresholdInput = document.getElementById('maskThreshold') as HTMLInputElement;
+  private featherInput = document.getElementById('maskFeather') as HTMLInputElement;
+  private colorSourceSelect = document.getElementById('maskColorSource') as HTMLSelectElement;
+
+  constructor(config: Config, onChange: () => void) {
+    this.config = config;
+    this.onChange = onChange;
+
+    const fileInput = document.getElementById('maskImageFile') as HTMLInputElement;
+    const chooseButton = document.getElementById('chooseMaskImage') as HTMLButtonElement;
+    chooseButton.addEventListener('click', () => fileInput.click());
+    fileInput.addEventListener('change', async () => {
+      const file = fileInput.files?.[0];
+      // Reset, so the same file can be chosen again
+      fileInput.value = '';
+      if (!file) {
+        return;
+      }
+      const image = await readMaskImage(file);
+      if (!image) {
+        window.alert(`${file.name} is no valid PNG or SVG image.`);
+        return;
+      }
+      this.config.mask.image = image;
+      this.config.mask.type = 'image';
+      this.changed();
+    });
+
+    // Text is applied when the field is left, not on every key
+    const controls: HTMLElement[] = [
+      this.typeSelect,
+      this.textInput,
+      this.fontFamilyInput,
+      this.fontWeightInput,
+      this.colorInput,
+      this.channelSelect,
+      this.invertInput,
+      this.scaleInput,
+      this.xInput,
+      this.yInput,
+      this.thresholdInput,
+      this.featherInput,
+      this.colorSourceSelect,
+    ];
+    for (const control of controls) {
+      control.addEventListener('change', () => {
+        this.readFields();
+        this.changed();
+      });
+    }
+    // Slider values follow while dragging; the grid only when they are released
+    for (const input of [this.scaleInput, this.xInput, this.yInput, this.thresholdInput]) {
+      input.addEventListener('input', () => this.updateLabels());
+    }
+
+    this.update();
+  }
+
+  /** Writes config.mask into the fields */
+  public update(): void {
+    const { mask } = this.config;
+    this.typeSelect.value = mask.type;
+    this.textInput.value = mask.text;
+    this.fontFamilyInput.value = mask.fontFamily;
+    this.fontWeightInput.value = mask.fontWeight.toString();
+    this.colorInput.value = toHexColor(mask.color);
+    this.channelSelect.value = mask.channel;
+    this.invertInput.checked = mask.invert;
+    this.scaleInput.value = mask.scale.toString();
+    this.xInput.value = mask.x.toString();
+    this.yInput.value = mask.y.toString();
+    this.thresholdInput.value = mask.threshold.toString();
+    this.featherInput.value = mask.feather.toString();
+    this.colorSourceSelect.value = mask.colorSource;
+
+    this.imageFields.hidden = mask.type !== 'image';
+    this.textFields.hidden = mask.type !== 'text';
+    this.settings.hidden = mask.type === 'none';
+    this.imageStatus.textContent = mask.image ? 'Image loaded' : 'No image chosen';
+    this.updateLabels();
+  }
+
+  private changed(): void {
+    this.update();
+    this.onChange();
+  }
+
+  private readFields(): void {
+    const { mask } = this.config;
+    const number = (input: HTMLInputElement, fallback: number) => {
+      const value = parseFloat(input.value);
+      return Number.isFinite(value) ? value : fallback;
+    };
+    mask.type = this.typeSelect.value as MaskType;
+    mask.text = this.textInput.value;
+    mask.fontFamily = this.fontFamilyInput.value.trim();
+    mask.fontWeight = Math.round(number(this.fontWeightInput, mask.fontWeight));
+    mask.color = this.colorInput.value;
+    mask.channel = this.channelSelect.value as MaskChannel;
+    mask.invert = this.invertInput.checked;
+    mask.scale = number(this.scaleInput, mask.scale);
+    mask.x = number(this.xInput, mask.x);
+    mask.y = number(this.yInput, mask.y);
+    mask.threshold = number(this.thresholdInput, mask.threshold);
+    mask.feather = Math.max(0, number(this.featherInput, mask.feather));
+    mask.colorSource = this.colorSourceSelect.value as MaskColorSource;
+  }
+
+  private updateLabels(): void {
+    const percent = (input: HTMLInputElement) => `${Math.round(parseFloat(input.value) * 100)}%`;
+    (document.getElementById('maskScaleValue') as HTMLSpanElement).textContent =
+      percent(this.scaleInput);
+    (document.getElementById('maskXValue') as HTMLSpanElement).textContent =
+      percent(this.xInput);
+    (document.getElementById('maskYValue') as HTMLSpanElement).textContent =
+      percent(this.yInput);
+    (document.getElementById('maskThresholdValue') as HTMLSpanElement).textContent =
+      percent(this.thresholdInput);
+  }
+}
@@ -0,0 +1,1198 @@
+import { animateClusters, getFadeAmount, getIconSwapAmount } from './animation';
+import { applyFalloff, interpolateColor, mixColors } from './blending';
+import { createClusterPlacer } from './clusterPlacement';
+import type { Config, LockedCell } from './config';
+import { getIconColor } from './contrast';
+import { getDirection, getDistance, type Point } from './geometry';
+import { resolveIcons, type Icon } from './icons';
+import { computeTransform, IDENTITY_TRANSFORM, type SymbolTransform } from './jitter';
+import { computeLayout, getLayoutOrigin, getNeighborDistance } from './layouts';
+import { MaskField, type MaskRaster } from './mask';
+import { NeighborIndex } from './neighbors';
+import type { GridSlot, PaintBrush } from './paint';
+import { createRandom, hashSeed, type RandomFn } from './random';
+import type { ClusterCenter, Grid, SymbolData } from './types';
+import { getZoneEffect, isInZone } from './zones';
+
+/** Influence of the clusters on a grid position */
+interface ClusterInfluence {
+  /** Index of the nearest cluster, -1 if there are no clusters */
+  nearestIndex: number;
+  nearestDist: number;
+  /** 0 (outside all clusters) to 1 (in a cluster center), shaped by the falloff curve */
+  weight: number;
+  /** Color of the nearest cluster or the blend of all clusters in range; null if out of range */
+  color: string | null;
+}
+
+/**
+ * Fixed random values of a grid slot in animations. Every frame tests
+ * against the same values, so symbols fade in and out as the clusters
+ * move instead of flickering from frame to frame.
+ */
+interface AnimationSlot {
+  /** Icon of the slot; empty slots get one too, they can show up in later frames */
+  icon: number;
+  /** Icon the slot cross-fades to, and when (0 to 1) during the loop */
+  swapIcon: number;
+  swapTime: number;
+  /** The slot swaps its icon if this is below animation.iconSwap */
+  swapPick: number;
+  /** Thresholds of the random tests of getSymbolState */
+  colorPick: number;
+  densityPick: number;
+  maskPick: number;
+  zonePick: number;
+}
+
+/** Separates the animation values of a slot from its jitter */
+const ANIMATION_SALT = 2;
+/** Tries to find another icon for a slot that swaps its icon */
+const MAX_SWAP_ATTEMPTS = 10;
+
+/** Separates the icon of a painted cell without a known icon from its jitter */
+const LOCK_SALT = 3;
+
+/** Tries to find a cluster position outside the exclusion zones */
+const MAX_ZONE_ATTEMPTS = 50;
+
+/** Precision of the positions that identify tile partners (1/100 px) */
+const TILE_KEY_PRECISION = 100;
+
+/**
+ * The grid, cluster and color model of a wallpaper.
+ * It has no DOM dependencies, so the browser app and the
+ * command-line renderer generate exactly the same layout.
+ */
+export class WallpaperModel {
+  private config: Config;
+  /** The grid can now have 'null' entries if bubbles are removed due to density */
+  public grid: Grid = [];
+  public clusterCenters: ClusterCenter[] = [];
+  /** Positions of all grid slots, including the 'null' ones */
+  private points: Point[][] = [];
+  /** Icons of all sources; symbols refer to them by index */
+  private icons: Icon[] = [];
+  /** Running sums of the icon weights, for the weighted pick */
+  private iconWeightSums: number[] = [];
+  /** Random function seeded at the start of every generation */
+  private random: RandomFn = Math.random;
+  /** Seed of the current generation; also seeds the jitter of every grid slot */
+  private seed = 0;
+  /** Rasterized mask (see mask.ts); placed on the canvas at every generation */
+  private maskRaster: MaskRaster | null;
+  private maskField: MaskField | null = null;
+  /** Random values of the grid slots for animations; created with the first frame */
+  private animationSlots: AnimationSlot[][] | null = null;
+  /** Radius of every cluster while a frame is computed; null uses clustering.maxRadius */
+  private clusterRadii: number[] | null = null;
+
+  /** @param mask Rasterized config.mask, null if there is none (yet) */
+  constructor(config: Config, mask: MaskRaster | null = null) {
+    this.config = config;
+    this.maskRaster = mask;
+  }
+
+  /** Replaces the rasterized mask; takes effect with the next generation */
+  public setMask(mask: MaskRaster | null): void {
+    this.maskRaster = mask;
+  }
+
+  /** The rasterized mask, e.g. to generate the same composition in other sizes */
+  public getMask(): MaskRaster | null {
+    return this.maskRaster;
+  }
+
+  /**
+   * Generates clusters and grid for the given seed.
+   * The random function is re-seeded first, so the result only depends
+   * on the seed and the configuration.
+   */
+  public generate(seed: number): void {
+    this.seed = seed;
+    this.random = createRandom(seed);
+    this.prepareIcons();
+    this.prepareMask();
+    this.createClusters();
+    this.applyEditedClusters();
+    this.populateGrid();
+  }
+
+  /**
+   * Generates the grid for given cluster centers instead of random ones,
+   * e.g. for a composition reframed to another size (see reframe.ts).
+   * The symbols are still chosen with the seed.
+   */
+  public generateFromClusters(seed: number, clusters: ClusterCenter[]): void {
+    this.seed = seed;
+    this.random = createRandom(seed);
+    this.prepareIcons();
+    this.prepareMask();
+    this.clusterCenters = clusters.map((cluster) => ({
+      ...cluster,
+      color: this.getPaletteColor(cluster.colorPick),
+    }));
+    this.populateGrid();
+  }
+
+  /**
+   * Applies the current colors to the existing clusters and symbols.
+   * Positions, shapes and opacities stay the same, so the layout is not re-rolled.
+   */
+  public recolor(): void {
+    for (const cluster of this.clusterCenters) {
+      cluster.color = this.getPaletteColor(cluster.colorPick);
+    }
+    this.updateSymbolColors();
+  }
+
+  /**
+   * Applies the current opacity settings to the existing symbols.
+   * Like recolor, the layout stays; symbols left out by the density or a
+   * zone stay left out, so a lower density needs a new grid.
+   */
+  public restyle(): void {
+    const { coloredOpacity, blendMode } = this.config.clustering;
+    const { defaultIconOpacity } = this.config.symbols;
+    for (const row of this.grid) {
+      for (const symbol of row) {
+        if (!symbol) {
+          continue;
+        }
+        const { x, y } = symbol;
+        let fill = coloredOpacity;
+        let stroke = coloredOpacity;
+        if (!symbol.masked) {
+          const { nearestDist, weight } = this.getClusterInfluence(x, y);
+          const dim = this.getDimOpacities(nearestDist);
+          if (symbol.clusterIndex === null) {
+            fill = dim.fill;
+            stroke = dim.stroke;
+          } else if (blendMode === 'gradient') {
+            fill = dim.fill + (coloredOpacity - dim.fill) * weight;
+            stroke = dim.stroke + (coloredOpacity - dim.stroke) * weight;
+          }
+        }
+        const zone = getZoneEffect(this.config.zones, this.config.canvasSize, { x, y });
+        const zoneOpacity = zone?.opacity ?? 1;
+        symbol.iconOpacity = defaultIconOpacity * zoneOpacity;
+        symbol.shapeFillOpacity = fill * zoneOpacity;
+        symbol.shapeStrokeOpacity = stroke * zoneOpacity;
+      }
+    }
+    this.applyLockedCells();
+  }
+
+  /**
+   * Grid of an animation frame at 'time' (0 to 1 over the loop; see
+   * animation.ts). Starts from the current grid and clusters, so edited
+   * clusters are animated as well; the grid itself is not changed.
+   * Symbols that cross-fade to another icon appear twice in their row.
+   */
+  public getFrame(time: number): Grid {
+    this.animationSlots ??= this.createAnimationSlots();
+    const slots = this.animationSlots;
+    // Painted cells stand still
+    const locked = new Set(this.getLockedSlots().map(({ row, col }) => `${row},${col}`));
+    const { clusters, radii } = animateClusters(this.clusterCenters, this.config, this.seed, time);
+    // The influence and color helpers read the clusters of the model; they get the moved ones
+    const placed = this.clusterCenters;
+    this.clusterCenters = clusters;
+    this.clusterRadii = radii;
+    try {
+      return this.points.map((points, row) =>
+        points.flatMap(({ x, y }, col) => {
+          if (locked.has(`${row},${col}`)) {
+            const symbol = this.grid[row][col];
+            return symbol ? [symbol] : [];
+          }
+          return this.getFrameSymbols(slots[row][col], x, y, time);
+        })
+      );
+    } finally {
+      this.clusterCenters = placed;
+      this.clusterRadii = null;
+    }
+  }
+
+  private prepareIcons(): void {
+    this.icons = resolveIcons(this.config.symbols);
+    let sum = 0;
+    this.iconWeightSums = this.icons.map((icon) => (sum += icon.weight));
+  }
+
+  /** Places the mask on the canvas with the current settings */
+  private prepareMask(): void {
+    this.maskField =
+      this.maskRaster && this.config.mask.type !== 'none'
+        ? new MaskField(this.maskRaster, this.config.mask, this.config.canvasSize)
+        : null;
+  }
+
+  /** Recomputes the colors of all symbols from the current cluster colors */
+  private updateSymbolColors(): void {
+    for (const row of this.grid) {
+      for (const symbol of row) {
+        if (symbol) {
+          Object.assign(
+            symbol,
+            this.getSymbolColors(symbol.x, symbol.y, symbol.clusterIndex, undefined, symbol.masked)
+          );
+        }
+      }
+    }
+    this.applyLockedCells();
+  }
+
+  private getPaletteColor(colorPick: number): string {
+    const { palette } = this.config.colors;
+    return palette[Math.floor(colorPick * palette.length)];
+  }
+
+  /** Index of the cluster center closest to the point within 'tolerance', or -1 */
+  public findClusterAt(x: number, y: number, tolerance: number): number {
+    let foundIndex = -1;
+    let foundDist = tolerance;
+    this.clusterCenters.forEach((cluster, i) => {
+      const dist = Math.hypot(cluster.x - x, cluster.y - y);
+      if (dist <= foundDist) {
+        foundDist = dist;
+        foundIndex = i;
+      }
+    });
+    return foundIndex;
+  }
+
+  /**
+   * Adds a cluster center with a color from the palette.
+   * Like every cluster edit, the grid is generated again from the stored
+   * clusters, so the seed and the settings reproduce the edited wallpaper.
+   * @returns the index of the new cluster
+   */
+  public addCluster(x: number, y: number, paletteIndex: number): number {
+    const colorPick = this.getColorPick(paletteIndex);
+    this.clusterCenters.push({
+      x,
+      y,
+      color: this.getPaletteColor(colorPick),
+      colorPick,
+    });
+    this.saveEditedClusters();
+    this.generate(this.seed);
+    return this.clusterCenters.length - 1;
+  }
+
+  /** Moves a cluster center */
+  public moveCluster(index: number, x: number, y: number): void {
+    const cluster = this.clusterCenters[index];
+    cluster.x = x;
+    cluster.y = y;
+    this.saveEditedClusters();
+    this.generate(this.seed);
+  }
+
+  /** Gives a cluster another palette color; positions and opacities stay unchanged */
+  public setClusterColor(index: number, paletteIndex: number): void {
+    const cluster = this.clusterCenters[index];
+    cluster.colorPick = this.getColorPick(paletteIndex);
+    cluster.color = this.getPaletteColor(cluster.colorPick);
+    // Blended symbols can depend on this cluster without belonging to it
+    this.updateSymbolColors();
+    this.saveEditedClusters();
+  }
+
+  /** Removes a cluster center */
+  public removeCluster(index: number): void {
+    this.clusterCenters.splice(index, 1);
+    this.saveEditedClusters();
+    this.generate(this.seed);
+  }
+
+  /** Drops the edits and generates the clusters from the seed again */
+  public resetClusters(): void {
+    this.config.editedClusters = [];
+    this.generate(this.seed);
+  }
+
+  /** The grid slot closest to the point, null if none is within half a grid step */
+  public findSlotAt(x: number, y: number): GridSlot | null {
+    let found: GridSlot | null = null;
+    let foundDist = this.getCellTolerance();
+    this.points.forEach((points, row) => {
+      points.forEach((point, col) => {
+        const dist = getDistance({ x, y }, point);
+        if (dist <= foundDist) {
+          found = { row, col };
+          foundDist = dist;
+        }
+      });
+    });
+    return found;
+  }
+
+  /**
+   * Paints a grid slot with a brush and locks it (see config.lockedCells),
+   * so it keeps its look when the grid is generated again.
+   * 'paletteIndex' is the color of the 'color' brush.
+   */
+  public paintCell(slot: GridSlot, brush: PaintBrush, paletteIndex: number): void {
+    const point = this.points[slot.row]?.[slot.col];
+    if (!point) {
+      return;
+    }
+    const { lockedCells } = this.config;
+    const index = this.findLockedCell(point);
+    if (brush === 'unlock') {
+      if (index >= 0) {
+        lockedCells.splice(index, 1);
+      }
+      return;
+    }
+    const cell = index >= 0 ? lockedCells[index] : this.describeSlot(slot, point);
+    switch (brush) {
+      case 'color':
+        cell.state = 'color';
+        cell.color = paletteIndex;
+        break;
+      case 'pale':
+        cell.state = 'pale';
+        break;
+      case 'remove':
+        cell.state = 'empty';
+        break;
+      case 'icon': {
+        const current = this.icons.findIndex((icon) => icon.key === cell.icon);
+        let icon = this.pickIcon(Math.random);
+        for (let i = 1; i < MAX_SWAP_ATTEMPTS && icon === current; i++) {
+          icon = this.pickIcon(Math.random);
+        }
+        cell.icon = this.icons[icon]?.key ?? '';
+        if (cell.state === 'empty') {
+          cell.state = 'pale';
+        }
+        break;
+      }
+    }
+    // A cell that shows a symbol keeps its icon from now on
+    if (cell.state !== 'empty' && !cell.icon) {
+      cell.icon = this.icons[this.pickIcon(Math.random)]?.key ?? '';
+    }
+    if (index < 0) {
+      lockedCells.push(cell);
+    }
+    this.applyLockedCells();
+  }
+
+  /** Positions of the grid slots that are painted and locked */
+  public getLockedPositions(): Point[] {
+    return this.getLockedSlots().map(({ row, col }) => this.points[row][col]);
+  }
+
+  /** Canvas size the distances wrap around at in tile mode, otherwise undefined */
+  private getWrap(): Config['canvasSize'] | undefined {
+    return this.config.grid.tileable ? this.config.canvasSize : undefined;
+  }
+
+  /**
+   * In tile mode, slots one canvas width or height apart are partners that
+   * must show the same symbol. They share this key; without tile mode it is null.
+   */
+  private getTileKey(x: number, y: number): string | null {
+    if (!this.config.grid.tileable) {
+      return null;
+    }
+    const { width, height } = this.config.canvasSize;
+    // Rounded, so accumulated floating point errors don't separate partners
+    const wrap = (value: number, size: number) => {
+      const period = Math.round(size * TILE_KEY_PRECISION);
+      const rounded = Math.round(value * TILE_KEY_PRECISION) % period;
+      return (rounded + period) % period;
+    };
+    return `${wrap(x, width)},${wrap(y, height)}`;
+  }
+
+  /** Distance within which a painted cell belongs to a grid slot: half a grid step */
+  private getCellTolerance(): number {
+    const { layout, minDistance, spacingX, spacingY } = this.config.grid;
+    return (layout === 'poisson' ? minDistance : Math.min(spacingX, spacingY)) / 2;
+  }
+
+  /**
+   * Index of the painted cell of a grid slot in config.lockedCells, -1 if
+   * the slot is not painted. In tile mode the tile partners share the cell.
+   */
+  private findLockedCell(point: Point): number {
+    const wrap = this.getWrap();
+    let found = -1;
+    let foundDist = this.getCellTolerance();
+    this.config.lockedCells.forEach((cell, i) => {
+      const position = this.getLockedCellPosition(cell);
+      const dist = position ? getDistance(position, point, wrap) : Infinity;
+      if (dist <= foundDist) {
+        found = i;
+        foundDist = dist;
+      }
+    });
+    return found;
+  }
+
+  /**
+   * Position of a painted cell in the current layout; null if its slot of
+   * the blue-noise scatter no longer exists
+   */
+  private getLockedCellPosition(cell: LockedCell): Point | null {
+    const { layout, spacingX, spacingY } = this.config.grid;
+    if (layout === 'poisson' && cell.slot >= 0) {
+      return this.points[0]?.[cell.slot] ?? null;
+    }
+    const origin = getLayoutOrigin(this.config);
+    return { x: origin.x + cell.x * spacingX, y: origin.y + cell.y * spacingY };
+  }
+
+  /** Grid slots with a painted cell, and the cell */
+  private getLockedSlots(): (GridSlot & { cell: LockedCell })[] {
+    const slots: (GridSlot & { cell: LockedCell })[] = [];
+    if (this.config.lockedCells.length === 0) {
+      return slots;
+    }
+    this.points.forEach((points, row) => {
+      points.forEach((point, col) => {
+        const index = this.findLockedCell(point);
+        if (index >= 0) {
+          slots.push({ row, col, cell: this.config.lockedCells[index] });
+        }
+      });
+    });
+    return slots;
+  }
+
+  /**
+   * Replaces the symbols of the painted slots with their locked look.
+   * Tile partners get a copy of the first one, like in populateGrid.
+   */
+  private applyLockedCells(): void {
+    const symbols = new Map<LockedCell, SymbolData | null>();
+    for (const { row, col, cell } of this.getLockedSlots()) {
+      const { x, y } = this.points[row][col];
+      const first = symbols.get(cell);
+      if (first !== undefined) {
+        this.grid[row][col] = first && { ...first, x, y };
+        continue;
+      }
+      const symbol = this.getLockedSymbol(cell, x, y, this.grid[row][col]);
+      this.grid[row][col] = symbol;
+      symbols.set(cell, symbol);
+    }
+  }
+
+  /** Symbol of a painted cell at a grid position; null for empty cells */
+  private getLockedSymbol(
+    cell: LockedCell,
+    x: number,
+    y: number,
+    current: SymbolData | null
+  ): SymbolData | null {
+    if (cell.state === 'empty') {
+      return null;
+    }
+    const { colors, clustering, symbols } = this.config;
+    const influence = this.getClusterInfluence(x, y);
+    const zone = getZoneEffect(this.config.zones, this.config.canvasSize, { x, y });
+    const zoneOpacity = zone?.opacity ?? 1;
+
+    let look: Pick<
+      SymbolData,
+      'iconColor' | 'shapeColor' | 'shapeStrokeColor' | 'shapeFillOpacity' | 'shapeStrokeOpacity'
+    >;
+    if (cell.state === 'color') {
+      const color = colors.palette[cell.color % colors.palette.length];
+      look = {
+        iconColor: getIconColor(color, this.config),
+        shapeColor: color,
+        shapeStrokeColor: color,
+        shapeFillOpacity: clustering.coloredOpacity,
+        shapeStrokeOpacity: clustering.coloredOpacity,
+      };
+    } else {
+      const dim = this.getDimOpacities(influence.nearestDist);
+      look = {
+        iconColor: colors.defaultIconColor,
+        shapeColor: colors.defaultShapeFillColor,
+        shapeStrokeColor: colors.defaultShapeStrokeColor,
+        shapeFillOpacity: dim.fill,
+        shapeStrokeOpacity: dim.stroke,
+      };
+    }
+
+    // The stored icon, or the generated one if its source is gone
+    let icon = this.icons.findIndex((entry) => entry.key === cell.icon);
+    if (icon < 0) {
+      icon =
+        current?.icon ??
+        this.pickIcon(createRandom(hashSeed(this.seed, Math.round(x), Math.round(y), LOCK_SALT)));
+    }
+    return {
+      icon,
+      x,
+      y,
+      ...look,
+      ...this.getSymbolTransform(x, y, influence),
+      clusterIndex: null,
+      masked: false,
+      iconOpacity: symbols.defaultIconOpacity * zoneOpacity,
+      shapeFillOpacity: look.shapeFillOpacity * zoneOpacity,
+      shapeStrokeOpacity: look.shapeStrokeOpacity * zoneOpacity,
+    };
+  }
+
+  /** A painted cell that keeps the current look of a grid slot */
+  private describeSlot(slot: GridSlot, point: Point): LockedCell {
+    const { layout, spacingX, spacingY } = this.config.grid;
+    const symbol = this.grid[slot.row][slot.col];
+    const origin = getLayoutOrigin(this.config);
+    // Grid units, rounded so the settings stay readable
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+    const cell: LockedCell = {
+      x: round((point.x - origin.x) / spacingX),
+      y: round((point.y - origin.y) / spacingY),
+      // The scatter has all points in one row
+      slot: layout === 'poisson' ? slot.col : -1,
+      state: 'empty',
+      color: 0,
+      icon: '',
+    };
+    if (!symbol) {
+      return cell;
+    }
+    cell.icon = this.icons[symbol.icon]?.key ?? '';
+    const influence = this.getClusterInfluence(symbol.x, symbol.y);
+    // Gradient symbols fade out towards the pale ones; the stronger half counts as colored
+    const colored =
+      symbol.masked ||
+      (symbol.clusterIndex !== null &&
+        (this.config.clustering.blendMode !== 'gradient' || influence.weight >= 0.5));
+    if (!colored) {
+      cell.state = 'pale';
+      return cell;
+    }
+    cell.state = 'color';
+    const { palette } = this.config.colors;
+    const exact = palette.indexOf(symbol.shapeColor);
+    const cluster = this.clusterCenters[symbol.clusterIndex ?? influence.nearestIndex];
+    if (exact >= 0) {
+      cell.color = exact;
+    } else if (cluster) {
+      cell.color = Math.min(palette.length - 1, Math.floor(cluster.colorPick * palette.length));
+    }
+    return cell;
+  }
+
+  /**
+   * Replaces the generated clusters with the edited ones, if there are any.
+   * The generated ones are placed anyway, so the symbols use the same random values.
+   */
+  private applyEditedClusters(): void {
+    const { editedClusters, canvasSize, colors } = this.config;
+    if (editedClusters.length === 0) {
+      return;
+    }
+    this.clusterCenters = editedClusters.map((cluster) => {
+      const colorPick = this.getColorPick(cluster.color % colors.palette.length);
+      return {
+        x: cluster.x * canvasSize.width,
+        y: cluster.y * canvasSize.height,
+        color: this.getPaletteColor(colorPick),
+        colorPick,
+      };
+    });
+  }
+
+  /** Stores all clusters in config.editedClusters after an edit */
+  private saveEditedClusters(): void {
+    const { canvasSize } = this.config;
+    const { length } = this.config.colors.palette;
+    // Shares of the canvas, rounded so the settings stay readable
+    const share = (value: number, size: number) =>
+      Math.round(Math.min(1, Math.max(0, value / size)) * 10000) / 10000;
+    this.config.editedClusters = this.clusterCenters.map((cluster) => ({
+      x: share(cluster.x, canvasSize.width),
+      y: share(cluster.y, canvasSize.height),
+      color: Math.min(length - 1, Math.floor(cluster.colorPick * length)),
+    }));
+  }
+
+  /** colorPick that selects the given palette entry */
+  private getColorPick(paletteIndex: number): number {
+    return (paletteIndex + 0.5) / this.config.colors.palette.length;
+  }
+
+  private createClusters(): void {
+    this.clusterCenters = [];
+    const placeCluster = createClusterPlacer(this.config, this.random, this.maskField);
+    const { zones, canvasSize } = this.config;
+    const inZone = (point: Point) => zones.some((zone) => isInZone(zone, canvasSize, point));
+    for (let i = 0; i < this.config.clustering.count; i++) {
+      let point = placeCluster(this.clusterCenters);
+      for (let attempt = 1; attempt < MAX_ZONE_ATTEMPTS && inZone(point); attempt++) {
+        point = placeCluster(this.clusterCenters);
+      }
+      // No centers in exclusion zones; a cluster without a free spot is left out
+      if (inZone(point)) {
+        continue;
+      }
+      const { x, y } = point;
+      const colorPick = this.random();
+      this.clusterCenters.push({
+        x,
+        y,
+        color: this.getPaletteColor(colorPick),
+        colorPick,
+      });
+    }
+  }
+
+  /**
+   * Populates the 2D grid.
+   * Now calls getColorForSymbol, which can return 'null'
+   * based on the density setting.
+   * The positions come from the configured layout (see layouts.ts).
+   */
+  private populateGrid(): void {
+    this.grid = [];
+    this.points = [];
+    this.animationSlots = null;
+    const { spacingX, spacingY, layout, minDistance } = this.config.grid;
+
+    if (spacingX <= 0 || spacingY <= 0) {
+      console.warn('SpacingX or SpacingY is 0 or less.');
+      return;
+    }
+    if (layout === 'poisson' && minDistance <= 0) {
+      console.warn('MinDistance is 0 or less.');
+      return;
+    }
+    if (this.icons.length === 0) {
+      console.warn('No icons to place.');
+      return;
+    }
+
+    const neighbors = new NeighborIndex(getNeighborDistance(this.config.grid));
+    const rows = computeLayout(this.config, this.random);
+    this.points = rows;
+    // Symbols by tile key: tile partners get a copy of the first one
+    const shared = new Map<string, SymbolData | null>();
+
+    rows.forEach((points, row) => {
+      this.grid[row] = [];
+      points.forEach(({ x, y }, col) => {
+        const key = this.getTileKey(x, y);
+        const partner = key !== null ? shared.get(key) : undefined;
+        if (partner !== undefined) {
+          this.grid[row][col] = partner && { ...partner, x, y };
+          if (partner) {
+            neighbors.add(x, y, this.icons[partner.icon].key);
+          }
+          return;
+        }
+
+        // Gets color information (can be null if density < 100%)
+        const symbolData = this.getColorForSymbol(x, y);
+
+        if (symbolData) {
+          // Symbol is drawn
+          const icon = this.getRandomSymbol(neighbors.getNeighborKeys(x, y));
+          neighbors.add(x, y, this.icons[icon].key);
+          this.grid[row][col] = {
+            icon,
+            x: x,
+            y: y,
+            ...symbolData,
+          };
+        } else {
+          // Symbol is skipped due to density
+          this.grid[row][col] = null;
+        }
+        if (key !== null) {
+          shared.set(key, this.grid[row][col]);
+        }
+      });
+    });
+    this.applyLockedCells();
+  }
+
+  /**
+   * Picks a random icon according to the icon weights.
+   * With equal weights, this is the same as a uniform pick, so seeds
+   * keep their layout.
+   */
+  private pickIcon(random: RandomFn = this.random): number {
+    const total = this.iconWeightSums[this.iconWeightSums.length - 1];
+    if (!(total > 0)) {
+      // All weights 0: fall back to equal chances instead of drawing nothing
+      return Math.floor(random() * this.icons.length);
+    }
+    const target = random() * total;
+    // First icon whose running sum exceeds the target
+    let low = 0;
+    let high = this.iconWeightSums.length - 1;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (this.iconWeightSums[middle] > target) {
+        high = middle;
+      } else {
+        low = middle + 1;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * Picks a random symbol and returns the index of its icon. Icons already
+   * used by a neighbor are rejected with the probability 'adjacentPenalty'.
+   */
+  private getRandomSymbol(neighborKeys: string[]): number {
+    let attempts = 0;
+    const maxAttempts = 10;
+
+    while (attempts < maxAttempts) {
+      const randomSymbol = this.pickIcon();
+      const isAdjacentMatch = neighborKeys.includes(this.icons[randomSymbol].key);
+
+      if (isAdjacentMatch) {
+        if (this.random() > this.config.symbols.adjacentPenalty) {
+          return randomSymbol;
+        }
+      } else {
+        return randomSymbol;
+      }
+      attempts++;
+    }
+    return this.pickIcon();
+  }
+
+  /**
+   * How strongly the clusters influence a point.
+   * - nearest: only the nearest cluster counts
+   * - mix/gradient: all clusters in range count, their colors are blended
+   */
+  private getClusterInfluence(x: number, y: number): ClusterInfluence {
+    const { maxRadius, blendMode, blendColorSpace, falloff } =
+      this.config.clustering;
+    const wrap = this.getWrap();
+    let nearestDist = Infinity;
+    let nearestIndex = -1;
+    const colors: string[] = [];
+    const weights: number[] = [];
+
+    const getRadius = (index: number) => this.clusterRadii?.[index] ?? maxRadius;
+
+    this.clusterCenters.forEach((cluster, i) => {
+      const dist = getDistance(cluster, { x, y }, wrap);
+      if (dist < nearestDist) {
+        nearestDist = dist;
+        nearestIndex = i;
+      }
+      const radius = getRadius(i);
+      if (blendMode !== 'nearest' && dist < radius) {
+        colors.push(cluster.color);
+        weights.push(applyFalloff(falloff, dist / radius));
+      }
+    });
+
+    if (blendMode === 'nearest' || colors.length === 0) {
+      const radius = getRadius(nearestIndex);
+      const inRange = nearestIndex >= 0 && nearestDist < radius;
+      return {
+        nearestIndex,
+        nearestDist,
+        weight: inRange ? applyFalloff(falloff, nearestDist / radius) : 0,
+        color: inRange ? this.clusterCenters[nearestIndex].color : null,
+      };
+    }
+
+    // Probability that at least one of the clusters in range colors the point
+    const weight = 1 - weights.reduce((rest, w) => rest * (1 - w), 1);
+    return {
+      nearestIndex,
+      nearestDist,
+      weight,
+      color: mixColors(colors, weights, blendColorSpace),
+    };
+  }
+
+  /**
+   * Rotation, size and offset of a symbol (see jitter.ts). The random part
+   * is seeded by the grid position instead of the shared random function,
+   * so the jitter leaves the layout of a seed unchanged and edits around a
+   * cluster don't reshuffle other symbols.
+   */
+  private getSymbolTransform(
+    x: number,
+    y: number,
+    influence: ClusterInfluence
+  ): SymbolTransform {
+    const { jitter, grid } = this.config;
+    if (
+      jitter.rotation === 'none' &&
+      jitter.scale === 0 &&
+      jitter.clusterSwell === 0 &&
+      jitter.position === 0
+    ) {
+      return { ...IDENTITY_TRANSFORM };
+    }
+    const random = createRandom(hashSeed(this.seed, Math.round(x), Math.round(y)));
+    const step =
+      grid.layout === 'poisson' ? grid.minDistance : Math.min(grid.spacingX, grid.spacingY);
+    const cluster = this.clusterCenters[influence.nearestIndex];
+    const clusterAngle = cluster ? getDirection(cluster, { x, y }, this.getWrap()) : null;
+    return computeTransform(jitter, random, step, clusterAngle, influence.weight);
+  }
+
+  /**
+   * Color of a symbol inside the mask: the mask's own color there, or with
+   * 'palette' the color of the nearest cluster, so the clusters still decide
+   * which palette colors show up in the mask. Without clusters every symbol
+   * picks a palette color, seeded by its position.
+   */
+  private getMaskColor(x: number, y: number, influence: ClusterInfluence): string {
+    if (this.config.mask.colorSource === 'mask') {
+      const color = this.maskField?.getColor(x, y);
+      if (color) {
+        return color;
+      }
+    }
+    const cluster = this.clusterCenters[influence.nearestIndex];
+    if (cluster) {
+      return cluster.color;
+    }
+    const random = createRandom(hashSeed(this.seed, Math.round(x), Math.round(y), 1));
+    return this.getPaletteColor(random());
+  }
+
+  /**
+   * Colors of a symbol: colored by its cluster(s), or pale if clusterIndex is null.
+   * In the 'gradient' blend mode the colors fade from pale to the cluster color.
+   * Symbols inside the mask take the mask color. Icons in colored bubbles
+   * follow config.iconColors.
+   */
+  private getSymbolColors(
+    x: number,
+    y: number,
+    clusterIndex: number | null,
+    influence: ClusterInfluence = this.getClusterInfluence(x, y),
+    masked = false
+  ): Pick<SymbolData, 'iconColor' | 'shapeColor' | 'shapeStrokeColor'> {
+    const { defaultIconColor, defaultShapeFillColor, defaultShapeStrokeColor } =
+      this.config.colors;
+    const { blendMode, blendColorSpace } = this.config.clustering;
+
+    if (masked) {
+      const color = this.getMaskColor(x, y, influence);
+      return {
+        iconColor: getIconColor(color, this.config),
+        shapeColor: color,
+        shapeStrokeColor: color,
+      };
+    }
+    if (blendMode === 'gradient' && influence.color) {
+      const { color, weight } = influence;
+      return {
+        iconColor: interpolateColor(
+          defaultIconColor,
+          getIconColor(color, this.config),
+          weight,
+          blendColorSpace
+        ),
+        shapeColor: interpolateColor(defaultShapeFillColor, color, weight, blendColorSpace),
+        shapeStrokeColor: interpolateColor(defaultShapeStrokeColor, color, weight, blendColorSpace),
+      };
+    }
+    if (clusterIndex !== null && influence.color) {
+      return {
+        iconColor: getIconColor(influence.color, this.config),
+        shapeColor: influence.color,
+        shapeStrokeColor: influence.color,
+      };
+    }
+    return {
+      iconColor: defaultIconColor,
+      shapeColor: defaultShapeFillColor,
+      shapeStrokeColor: defaultShapeStrokeColor,
+    };
+  }
+
+  /**
+   * Determines color and opacity; null if the symbol is left out.
+   * In exclusion zones symbols are thinned out and dimmed on top of the
+   * cluster and density logic.
+   */
+  private getColorForSymbol(
+    x: number,
+    y: number
+  ): Omit<SymbolData, 'icon' | 'x' | 'y'> | null {
+    const zone = getZoneEffect(this.config.zones, this.config.canvasSize, { x, y });
+    if (zone && this.random() >= zone.density) {
+      return null;
+    }
+    const symbolData = this.getSymbolState(x, y);
+    if (zone && symbolData) {
+      symbolData.iconOpacity *= zone.opacity;
+      symbolData.shapeFillOpacity *= zone.opacity;
+      symbolData.shapeStrokeOpacity *= zone.opacity;
+    }
+    return symbolData;
+  }
+
+  /** Opacities of a pale symbol, fading with the distance to the nearest cluster */
+  private getDimOpacities(nearestDist: number): { fill: number; stroke: number } {
+    const { maxRadius, dimmingFactor, minDimOpacity } = this.config.clustering;
+    const {
+      fillOpacity: defaultFillOpacity,
+      strokeOpacity: defaultStrokeOpacity,
+    } = this.config.shape;
+    const dimDistanceFactor = Math.min(
+      1,
+      nearestDist / (maxRadius * dimmingFactor)
+    );
+    const dimFillOpacity =
+      (1 - dimDistanceFactor) * (defaultFillOpacity - minDimOpacity) +
+      minDimOpacity;
+    const strokeFillRatio =
+      defaultFillOpacity > 0 ? defaultStrokeOpacity / defaultFillOpacity : 0;
+    return { fill: dimFillOpacity, stroke: dimFillOpacity * strokeFillRatio };
+  }
+
+  /**
+   * Determines color and opacity.
+   * Can now return 'null' if a pale symbol is removed
+   * by the density setting.
+   */
+  private getSymbolState(
+    x: number,
+    y: number
+  ): Omit<SymbolData, 'icon' | 'x' | 'y'> | null {
+    const influence = this.getClusterInfluence(x, y);
+    const { nearestIndex, nearestDist, weight } = influence;
+    const transform = this.getSymbolTransform(x, y, influence);
+
+    const { coloredOpacity, blendMode } = this.config.clustering;
+    const { defaultIconOpacity, density } = this.config.symbols; // Get density here
+
+    // Inside the mask symbols are colored; at a feathered edge with falling probability
+    const maskCoverage = this.maskField?.getCoverage(x, y) ?? 0;
+    if (maskCoverage > 0 && this.random() < maskCoverage) {
+      return {
+        ...this.getSymbolColors(x, y, null, influence, true),
+        ...transform,
+        clusterIndex: null,
+        masked: true,
+        iconOpacity: defaultIconOpacity,
+        shapeFillOpacity: coloredOpacity,
+        shapeStrokeOpacity: coloredOpacity,
+      };
+    }
+
+    // The gradient mode fades smoothly instead of the binary probability test
+    if (blendMode !== 'gradient' && weight > 0) {
+      if (this.random() < weight) {
+        // *** BRIGHT / COLORED SYMBOL ***
+        // These are unaffected by density and always returned.
+        return {
+          ...this.getSymbolColors(x, y, nearestIndex, influence),
+          ...transform,
+          clusterIndex: nearestIndex,
+          masked: false,
+          iconOpacity: defaultIconOpacity,
+          shapeFillOpacity: coloredOpacity,
+          shapeStrokeOpacity: coloredOpacity,
+        };
+      }
+    }
+
+    // *** PALE / STANDARD SYMBOL ***
+
+    // NEW: Density check
+    // If density < 100%, there is a chance that the symbol
+    // is not created at all (return null).
+    // In the gradient mode, symbols closer to a cluster are kept more often.
+    const keepProbability =
+      blendMode === 'gradient' ? density + (1 - density) * weight : density;
+    if (this.random() > keepProbability) {
+      return null;
+    }
+
+    // Density check passed, calculate opacity based on distance
+    const { fill: dimFillOpacity, stroke: dimStrokeOpacity } = this.getDimOpacities(nearestDist);
+
+    if (blendMode === 'gradient' && weight > 0) {
+      // Fade from the pale opacity to the colored opacity
+      return {
+        ...this.getSymbolColors(x, y, nearestIndex, influence),
+        ...transform,
+        clusterIndex: nearestIndex,
+        masked: false,
+        iconOpacity: defaultIconOpacity,
+        shapeFillOpacity: dimFillOpacity + (coloredOpacity - dimFillOpacity) * weight,
+        shapeStrokeOpacity: dimStrokeOpacity + (coloredOpacity - dimStrokeOpacity) * weight,
+      };
+    }
+
+    return {
+      ...this.getSymbolColors(x, y, null, influence),
+      ...transform,
+      clusterIndex: null,
+      masked: false,
+      iconOpacity: defaultIconOpacity,
+      shapeFillOpacity: dimFillOpacity,
+      shapeStrokeOpacity: dimStrokeOpacity,
+    };
+  }
+
+  /**
+   * Seed of the animation values of a slot. In tile mode it comes from the
+   * wrapped position, so tile partners animate alike.
+   */
+  private getSlotSeed(x: number, y: number): number {
+    const { width, height } = this.config.canvasSize;
+    const wrap = (value: number, size: number) => {
+      if (!this.config.grid.tileable) {
+        return Math.round(value);
+      }
+      const period = Math.round(size);
+      return ((Math.round(value) % period) + period) % period;
+    };
+    return hashSeed(this.seed, wrap(x, width), wrap(y, height), ANIMATION_SALT);
+  }
+
+  private createAnimationSlots(): AnimationSlot[][] {
+    return this.points.map((points, row) =>
+      points.map(({ x, y }, col) => {
+        const random = createRandom(this.getSlotSeed(x, y));
+        const slot = {
+          colorPick: random(),
+          densityPick: random(),
+          maskPick: random(),
+          zonePick: random(),
+          swapPick: random(),
+          swapTime: random(),
+          icon: this.grid[row]?.[col]?.icon ?? this.pickIcon(random),
+          swapIcon: -1,
+        };
+        slot.swapIcon = this.pickIcon(random);
+        for (let i = 1; i < MAX_SWAP_ATTEMPTS && slot.swapIcon === slot.icon; i++) {
+          slot.swapIcon = this.pickIcon(random);
+        }
+        return slot;
+      })
+    );
+  }
+
+  /** Symbols of a slot in a frame: none, one, or two while the icon cross-fades */
+  private getFrameSymbols(slot: AnimationSlot, x: number, y: number, time: number): SymbolData[] {
+    const state = this.getFrameState(slot, x, y);
+    if (!state) {
+      return [];
+    }
+    const swap =
+      slot.swapPick < this.config.animation.iconSwap ? getIconSwapAmount(time, slot.swapTime) : 0;
+    if (swap <= 0 || swap >= 1) {
+      return [{ icon: swap >= 1 ? slot.swapIcon : slot.icon, x, y, ...state }];
+    }
+    // The second copy only adds the new icon; the shape is already drawn by the first
+    return [
+      { icon: slot.icon, x, y, ...state, iconOpacity: state.iconOpacity * (1 - swap) },
+      {
+        icon: slot.swapIcon,
+        x,
+        y,
+        ...state,
+        iconOpacity: state.iconOpacity * swap,
+        shapeFillOpacity: 0,
+        shapeStrokeOpacity: 0,
+      },
+    ];
+  }
+
+  /**
+   * Color and opacity of a slot in an animation frame; null if it stays empty.
+   * Follows getColorForSymbol and getSymbolState, but tests against the fixed
+   * values of the slot, and the cluster colors fade in instead of switching.
+   */
+  private getFrameState(
+    slot: AnimationSlot,
+    x: number,
+    y: number
+  ): Omit<SymbolData, 'icon' | 'x' | 'y'> | null {
+    const zone = getZoneEffect(this.config.zones, this.config.canvasSize, { x, y });
+    if (zone && slot.zonePick >= zone.density) {
+      return null;
+    }
+    const zoneOpacity = zone?.opacity ?? 1;
+    const influence = this.getClusterInfluence(x, y);
+    const { nearestIndex, nearestDist, weight } = influence;
+    const transform = this.getSymbolTransform(x, y, influence);
+    const { coloredOpacity, blendMode, blendColorSpace } = this.config.clustering;
+    const { defaultIconOpacity, density } = this.config.symbols;
+
+    // The mask does not move, so its symbols don't fade
+    const maskCoverage = this.maskField?.getCoverage(x, y) ?? 0;
+    if (slot.maskPick < maskCoverage) {
+      return {
+        ...this.getSymbolColors(x, y, null, influence, true),
+        ...transform,
+        clusterIndex: null,
+        masked: true,
+        iconOpacity: defaultIconOpacity * zoneOpacity,
+        shapeFillOpacity: coloredOpacity * zoneOpacity,
+        shapeStrokeOpacity: coloredOpacity * zoneOpacity,
+      };
+    }
+
+    const dim = this.getDimOpacities(nearestDist);
+    if (blendMode === 'gradient') {
+      // Already smooth; only the thinning fades instead of popping
+      const keep = getFadeAmount(density + (1 - density) * weight, slot.densityPick);
+      if (keep <= 0) {
+        return null;
+      }
+      const clusterIndex = weight > 0 ? nearestIndex : null;
+      return {
+        ...this.getSymbolColors(x, y, clusterIndex, influence),
+        ...transform,
+        clusterIndex,
+        masked: false,
+        iconOpacity: defaultIconOpacity * keep * zoneOpacity,
+        shapeFillOpacity: (dim.fill + (coloredOpacity - dim.fill) * weight) * keep * zoneOpacity,
+        shapeStrokeOpacity:
+          (dim.stroke + (coloredOpacity - dim.stroke) * weight) * keep * zoneOpacity,
+      };
+    }
+
+    // 'colored' fades the symbol to its cluster color; a pale symbol thinned out
+    // by the density only shows while it is colored, fading in and out
+    const colored = weight > 0 ? getFadeAmount(weight, slot.colorPick) : 0;
+    const pale = slot.densityPick <= density ? 1 : 0;
+    const visible = colored + (1 - colored) * pale;
+    if (visible <= 0) {
+      return null;
+    }
+    const paleColors = this.getSymbolColors(x, y, null, influence);
+    const coloredColors =
+      colored > 0 ? this.getSymbolColors(x, y, nearestIndex, influence) : paleColors;
+    const mix = pale ? colored : 1;
+    const blend = (from: string, to: string) =>
+      mix <= 0 ? from : mix >= 1 ? to : interpolateColor(from, to, mix, blendColorSpace);
+    return {
+      iconColor: blend(paleColors.iconColor, coloredColors.iconColor),
+      shapeColor: blend(paleColors.shapeColor, coloredColors.shapeColor),
+      shapeStrokeColor: blend(paleColors.shapeStrokeColor, coloredColors.shapeStrokeColor),
+      ...transform,
+      clusterIndex: colored >= 0.5 ? nearestIndex : null,
+      masked: false,
+      iconOpacity: defaultIconOpacity * visible * zoneOpacity,
+      shapeFillOpacity: (colored * coloredOpacity + (1 - colored) * pale * dim.fill) * zoneOpacity,
+      shapeStrokeOpacity:
+        (colored * coloredOpacity + (1 - colored) * pale * dim.stroke) * zoneOpacity,
+    };
+  }
+}
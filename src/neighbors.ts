@@ -0,0 +1,50 @@
+/**
+ * Spatial index of the symbols placed so far.
+ * Works for every layout, because neighbors are found by distance
+ * instead of by row and column.
+ */
+export class NeighborIndex {
+  private cellSize: number;
+  private cells = new Map<string, { x: number; y: number; iconKey: string }[]>();
+
+  /** @param distance Distance up to which two symbols count as neighbors */
+  constructor(distance: number) {
+    this.cellSize = distance;
+  }
+
+  private key(cellX: number, cellY: number): string {
+    return `${cellX},${cellY}`;
+  }
+
+  /** @param iconKey Identifies the icon of the symbol */
+  public add(x: number, y: number, iconKey: string): void {
+    const key = this.key(
+      Math.floor(x / this.cellSize),
+      Math.floor(y / this.cellSize)
+    );
+    const cell = this.cells.get(key);
+    if (cell) {
+      cell.push({ x, y, iconKey });
+    } else {
+      this.cells.set(key, [{ x, y, iconKey }]);
+    }
+  }
+
+  /** Returns the icon keys of all neighbors within the distance */
+  public getNeighborKeys(x: number, y: number): string[] {
+    const cellX = Math.floor(x / this.cellSize);
+    const cellY = Math.floor(y / this.cellSize);
+    const keys: string[] = [];
+
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        for (const entry of this.cells.get(this.key(cellX + dx, cellY + dy)) ?? []) {
+          if (Math.hypot(entry.x - x, entry.y - y) <= this.cellSize) {
+            keys.push(entry.iconKey);
+          }
+        }
+      }
+    }
+    return keys;
+  }
+}
@@ -0,0 +1,45 @@
+import type { CellState, LockedCell } from './config';
+
+/**
+ * Paint mode (config.lockedCells): single grid cells are painted on the
+ * preview and locked, so they keep their look while the rest of the grid
+ * is generated again.
+ */
+
+export const CELL_STATES: readonly CellState[] = ['color', 'pale', 'empty'];
+
+/** Template of a painted cell; also the schema of 'lockedCells' entries in validate.ts */
+export const DEFAULT_LOCKED_CELL: LockedCell = {
+  x: 0,
+  y: 0,
+  slot: -1,
+  state: 'pale',
+  color: 0,
+  icon: '',
+};
+
+/**
+ * What painting a cell does:
+ * - color: colors it with the chosen palette color
+ * - pale: makes it a pale symbol
+ * - remove: leaves the cell empty
+ * - icon: swaps its icon for another one
+ * - lock: keeps the cell as it is
+ * - unlock: gives the cell back to the generator; it keeps its look until the next generation
+ */
+export type PaintBrush = 'color' | 'pale' | 'remove' | 'icon' | 'lock' | 'unlock';
+
+export const PAINT_BRUSHES: { brush: PaintBrush; label: string }[] = [
+  { brush: 'color', label: 'Palette color' },
+  { brush: 'pale', label: 'Make pale' },
+  { brush: 'remove', label: 'Remove symbol' },
+  { brush: 'icon', label: 'Swap icon' },
+  { brush: 'lock', label: 'Lock as it is' },
+  { brush: 'unlock', label: 'Unlock' },
+];
+
+/** Position of a slot in the grid of the model */
+export interface GridSlot {
+  row: number;
+  col: number;
+}
@@ -0,0 +1,175 @@
+import type { Config } from './config';
+import type { WallpaperModel } from './model';
+import { PAINT_BRUSHES, type PaintBrush } from './paint';
+
+/**
+ * Paint mode on the preview canvas: clicking or dragging over grid cells
+ * paints them with the chosen brush and locks them (config.lockedCells),
+ * so they survive the next generation. Only one canvas editor is active
+ * at a time; turning on paint mode turns off cluster and zone editing.
+ */
+export class PaintEditor {
+  private canvas: HTMLCanvasElement;
+  private model: WallpaperModel;
+  private config: Config;
+  private onChange: () => void;
+  private paintInput = document.getElementById('paintCells') as HTMLInputElement;
+  private brushSelect = document.getElementById('paintBrush') as HTMLSelectElement;
+  private colorSwatches = document.getElementById('paintColors') as HTMLDivElement;
+  private enabled = false;
+  /** Palette color of the 'color' brush */
+  private paletteIndex = 0;
+  /** Slots painted by the current stroke, so dragging paints every cell once */
+  private stroke: Set<string> | null = null;
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    model: WallpaperModel,
+    config: Config,
+    onChange: () => void
+  ) {
+    this.canvas = canvas;
+    this.model = model;
+    this.config = config;
+    this.onChange = onChange;
+
+    for (const { brush, label } of PAINT_BRUSHES) {
+      this.brushSelect.add(new Option(label, brush));
+    }
+    this.brushSelect.addEventListener('change', () => this.update());
+
+    // Clusters, zones and cells all listen to the canvas, so only one can be edited at a time
+    const otherEditors = ['editClusters', 'editZones'].map(
+      (id) => document.getElementById(id) as HTMLInputElement
+    );
+    this.paintInput.addEventListener('change', () => {
+      if (this.paintInput.checked) {
+        for (const input of otherEditors.filter((other) => other.checked)) {
+          input.checked = false;
+          input.dispatchEvent(new Event('change'));
+        }
+      }
+      this.setEnabled(this.paintInput.checked);
+    });
+    for (const input of otherEditors) {
+      input.addEventListener('change', () => {
+        if (input.checked && this.enabled) {
+          this.paintInput.checked = false;
+          this.setEnabled(false);
+        }
+      });
+    }
+    (document.getElementById('unlockAllCells') as HTMLButtonElement).addEventListener(
+      'click',
+      () => {
+        this.config.lockedCells = [];
+        this.update();
+        this.onChange();
+      }
+    );
+
+    this.canvas.addEventListener('pointerdown', this.onPointerDown);
+    this.canvas.addEventListener('pointermove', this.onPointerMove);
+    this.canvas.addEventListener('pointerup', this.onPointerUp);
+    this.canvas.addEventListener('pointercancel', this.onPointerUp);
+
+    this.update();
+  }
+
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /** Shows the palette colors of the color brush and the number of locked cells */
+  public update(): void {
+    const { palette } = this.config.colors;
+    this.paletteIndex = Math.min(this.paletteIndex, palette.length - 1);
+    this.colorSwatches.hidden = this.brushSelect.value !== 'color';
+    this.colorSwatches.replaceChildren(
+      ...palette.map((color, i) => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'cluster-color';
+        button.style.backgroundColor = color;
+        button.title = color;
+        button.classList.toggle('selected', i === this.paletteIndex);
+        button.addEventListener('click', () => {
+          this.paletteIndex = i;
+          this.update();
+        });
+        return button;
+      })
+    );
+    const count = this.config.lockedCells.length;
+    (document.getElementById('lockedCellCount') as HTMLSpanElement).textContent =
+      count === 1 ? '1 locked cell' : `${count} locked cells`;
+  }
+
+  /** Marks the locked cells on top of the preview */
+  public drawOverlay(ctx: CanvasRenderingContext2D): void {
+    const scale = this.getCanvasScale();
+    const { layout, minDistance, spacingX, spacingY } = this.config.grid;
+    const radius = (layout === 'poisson' ? minDistance : Math.min(spacingX, spacingY)) * 0.45;
+    ctx.save();
+    ctx.lineWidth = 2 * scale;
+    ctx.setLineDash([4 * scale, 3 * scale]);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+    for (const { x, y } of this.model.getLockedPositions()) {
+      ctx.beginPath();
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+    ctx.restore();
+  }
+
+  private setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    this.canvas.classList.toggle('editing-cells', enabled);
+    this.onChange();
+  }
+
+  /** Canvas units per screen pixel (the preview is scaled down by CSS) */
+  private getCanvasScale(): number {
+    const rect = this.canvas.getBoundingClientRect();
+    return rect.width > 0 ? this.config.canvasSize.width / rect.width : 1;
+  }
+
+  /** Paints the cell under the pointer, unless this stroke already painted it */
+  private paintAt(event: PointerEvent): void {
+    const rect = this.canvas.getBoundingClientRect();
+    const slot = this.model.findSlotAt(
+      ((event.clientX - rect.left) / rect.width) * this.config.canvasSize.width,
+      ((event.clientY - rect.top) / rect.height) * this.config.canvasSize.height
+    );
+    if (!slot) {
+      return;
+    }
+    const key = `${slot.row},${slot.col}`;
+    if (this.stroke?.has(key)) {
+      return;
+    }
+    this.stroke?.add(key);
+    this.model.paintCell(slot, this.brushSelect.value as PaintBrush, this.paletteIndex);
+    this.update();
+    this.onChange();
+  }
+
+  private onPointerDown = (event: PointerEvent): void => {
+    if (!this.enabled || event.button !== 0) {
+      return;
+    }
+    this.stroke = new Set();
+    this.canvas.setPointerCapture(event.pointerId);
+    this.paintAt(event);
+  };
+
+  private onPointerMove = (event: PointerEvent): void => {
+    if (this.stroke) {
+      this.paintAt(event);
+    }
+  };
+
+  private onPointerUp = (): void => {
+    this.stroke = null;
+  };
+}
@@ -0,0 +1,389 @@
+import type { Config, IconColorMode } from './config';
+import { getContrastReport, type Vision } from './contrast';
+import {
+  generatePalette,
+  PALETTE_PRESETS,
+  toHexColor,
+  type ColorScheme,
+  type PaletteGenerator,
+} from './palettes';
+import { importThemeFile, type ImportedTheme } from './themeImport';
+
+/** Value of the preset select when the colors match no preset */
+const CUSTOM_PRESET = 'custom';
+
+/** Color inputs of the panel and the color they edit */
+const COLOR_INPUTS: Record<string, keyof Omit<ColorScheme, 'palette'>> = {
+  colorBackground: 'background',
+  colorDefaultIcon: 'defaultIconColor',
+  colorColoredIcon: 'coloredIconColor',
+  colorShapeFill: 'defaultShapeFillColor',
+  colorShapeStroke: 'defaultShapeStrokeColor',
+};
+
+/** Icon color inputs of the panel and the color they edit */
+const ICON_COLOR_INPUTS: Record<string, 'lightColor' | 'darkColor'> = {
+  iconLightColor: 'lightColor',
+  iconDarkColor: 'darkColor',
+};
+
+const VISION_NAMES: Record<Vision, string> = {
+  normal: 'normal vision',
+  protanopia: 'protanopia (red-blind)',
+  deuteranopia: 'deuteranopia (green-blind)',
+  tritanopia: 'tritanopia (blue-blind)',
+};
+
+/**
+ * The palette panel of the settings.
+ * Edits config.colors directly and reports every change via 'onChange',
+ * so the wallpaper can be recolored without re-rolling the layout.
+ */
+export class PaletteEditor {
+  private config: Config;
+  private onChange: () => void;
+  private presetSelect: HTMLSelectElement;
+  private swatchList: HTMLDivElement;
+  /** Theme that is shown in the preview and waits to be applied */
+  private pendingTheme: ImportedTheme | null = null;
+
+  constructor(config: Config, onChange: () => void) {
+    this.config = config;
+    this.onChange = onChange;
+    this.presetSelect = document.getElementById('palettePreset') as HTMLSelectElement;
+    this.swatchList = document.getElementById('paletteSwatches') as HTMLDivElement;
+
+    this.initPresets();
+    this.initColorInputs();
+    this.initIconColors();
+    this.initGenerator();
+    this.initThemeImport();
+
+    const addSwatchButton = document.getElementById('addSwatch') as HTMLButtonElement;
+    addSwatchButton.addEventListener('click', () => {
+      const { palette } = this.config.colors;
+      // Start with a copy of the last color; it is edited right after anyway
+      palette.push(palette[palette.length - 1] ?? '#ffffff');
+      this.changed();
+    });
+
+    this.update();
+  }
+
+  /** Writes the current colors into the panel */
+  public update(): void {
+    for (const [id, key] of Object.entries(COLOR_INPUTS)) {
+      const input = document.getElementById(id) as HTMLInputElement;
+      input.value = toHexColor(this.config.colors[key]);
+    }
+    const { iconColors } = this.config;
+    (document.getElementById('iconColorMode') as HTMLSelectElement).value = iconColors.mode;
+    (document.getElementById('iconShadeAmount') as HTMLInputElement).value =
+      iconColors.shadeAmount.toString();
+    for (const [id, key] of Object.entries(ICON_COLOR_INPUTS)) {
+      (document.getElementById(id) as HTMLInputElement).value = toHexColor(iconColors[key]);
+    }
+    this.presetSelect.value = this.findPreset();
+    this.renderSwatches();
+    this.updateIconColorInputs();
+  }
+
+  private changed(): void {
+    this.update();
+    this.onChange();
+  }
+
+  /** Name of the preset matching the current colors, or 'custom' */
+  private findPreset(): string {
+    const normalize = (colors: ColorScheme) =>
+      JSON.stringify(colors).toLowerCase();
+    const current = normalize(this.config.colors);
+    const preset = PALETTE_PRESETS.find(
+      (p) => normalize(p.colors) === current
+    );
+    return preset ? preset.name : CUSTOM_PRESET;
+  }
+
+  private initPresets(): void {
+    for (const preset of PALETTE_PRESETS) {
+      this.presetSelect.add(new Option(preset.name, preset.name));
+    }
+    this.presetSelect.add(new Option('Custom', CUSTOM_PRESET));
+
+    this.presetSelect.addEventListener('change', () => {
+      const preset = PALETTE_PRESETS.find(
+        (p) => p.name === this.presetSelect.value
+      );
+      if (preset) {
+        this.config.colors = structuredClone(preset.colors);
+        this.changed();
+      }
+    });
+  }
+
+  private initColorInputs(): void {
+    for (const [id, key] of Object.entries(COLOR_INPUTS)) {
+      const input = document.getElementById(id) as HTMLInputElement;
+      input.addEventListener('input', () => {
+        this.config.colors[key] = input.value;
+        this.presetSelect.value = this.findPreset();
+        this.renderContrastReport();
+        this.onChange();
+      });
+    }
+  }
+
+  private initIconColors(): void {
+    const modeSelect = document.getElementById('iconColorMode') as HTMLSelectElement;
+    modeSelect.addEventListener('change', () => {
+      this.config.iconColors.mode = modeSelect.value as IconColorMode;
+      this.updateIconColorInputs();
+      this.onChange();
+    });
+    const shadeInput = document.getElementById('iconShadeAmount') as HTMLInputElement;
+    shadeInput.addEventListener('input', () => {
+      this.config.iconColors.shadeAmount = parseFloat(shadeInput.value);
+      this.updateIconColorInputs();
+      this.onChange();
+    });
+    for (const [id, key] of Object.entries(ICON_COLOR_INPUTS)) {
+      const input = document.getElementById(id) as HTMLInputElement;
+      input.addEventListener('input', () => {
+        this.config.iconColors[key] = input.value;
+        this.renderContrastReport();
+        this.onChange();
+      });
+    }
+  }
+
+  /** Shows the inputs the icon color mode uses and refreshes the contrast check */
+  private updateIconColorInputs(): void {
+    const { mode, shadeAmount } = this.config.iconColors;
+    (document.getElementById('iconShadeGroup') as HTMLDivElement).hidden = mode !== 'shade';
+    (document.getElementById('iconShadeAmountValue') as HTMLSpanElement).textContent =
+      shadeAmount.toFixed(2);
+    (document.getElementById('iconContrastColors') as HTMLDivElement).hidden =
+      mode !== 'contrast';
+    this.renderContrastReport();
+  }
+
+  private initGenerator(): void {
+    const generatorSelect = document.getElementById('paletteGenerator') as HTMLSelectElement;
+    const baseColorInput = document.getElementById('paletteBaseColor') as HTMLInputElement;
+    const endColorInput = document.getElementById('paletteEndColor') as HTMLInputElement;
+    const countInput = document.getElementById('paletteCount') as HTMLInputElement;
+    const generateButton = document.getElementById('generatePalette') as HTMLButtonElement;
+
+    // The end color is only used by the gradient
+    const updateEndColorVisibility = () => {
+      endColorInput.disabled = generatorSelect.value !== 'gradient';
+    };
+    generatorSelect.addEventListener('change', updateEndColorVisibility);
+    updateEndColorVisibility();
+
+    generateButton.addEventListener('click', () => {
+      const count = Math.min(16, Math.max(2, parseInt(countInput.value) || 6));
+      this.config.colors.palette = generatePalette(
+        generatorSelect.value as PaletteGenerator,
+        baseColorInput.value,
+        count,
+        endColorInput.value
+      );
+      this.changed();
+    });
+  }
+
+  /**
+   * Theme files can be chosen or dropped onto the settings panel.
+   * They are shown in a preview first and only applied on confirmation.
+   */
+  private initThemeImport(): void {
+    const panel = document.getElementById('settings-panel') as HTMLDivElement;
+    const importThemeButton = document.getElementById('importTheme') as HTMLButtonElement;
+    const importThemeFileInput = document.getElementById('importThemeFile') as HTMLInputElement;
+    const applyThemeButton = document.getElementById('applyTheme') as HTMLButtonElement;
+    const cancelThemeButton = document.getElementById('cancelTheme') as HTMLButtonElement;
+
+    importThemeButton.addEventListener('click', () => {
+      importThemeFileInput.click();
+    });
+    importThemeFileInput.addEventListener('change', () => {
+      const file = importThemeFileInput.files?.[0];
+      // Reset, so the same file can be chosen again
+      importThemeFileInput.value = '';
+      if (file) {
+        this.previewThemeFile(file);
+      }
+    });
+
+    panel.addEventListener('dragover', (event) => {
+      if (event.dataTransfer?.types.includes('Files')) {
+        event.preventDefault();
+        panel.classList.add('drop-target');
+      }
+    });
+    panel.addEventListener('dragleave', (event) => {
+      // Only react when the pointer leaves the panel, not its children
+      if (!panel.contains(event.relatedTarget as Node | null)) {
+        panel.classList.remove('drop-target');
+      }
+    });
+    panel.addEventListener('drop', (event) => {
+      event.preventDefault();
+      panel.classList.remove('drop-target');
+      const file = event.dataTransfer?.files[0];
+      if (file) {
+        this.previewThemeFile(file);
+      }
+    });
+
+    applyThemeButton.addEventListener('click', () => {
+      if (this.pendingTheme) {
+        this.config.colors = structuredClone(this.pendingTheme.colors);
+        this.showThemePreview(null);
+        this.changed();
+      }
+    });
+    cancelThemeButton.addEventListener('click', () => {
+      this.showThemePreview(null);
+    });
+  }
+
+  private async previewThemeFile(file: File): Promise<void> {
+    try {
+      this.showThemePreview(importThemeFile(file.name, await file.text()));
+    } catch (error) {
+      console.error('Error importing theme:', error);
+      window.alert((error as Error).message);
+    }
+  }
+
+  /** Shows the mapped colors of a theme, or hides the preview if it is null */
+  private showThemePreview(theme: ImportedTheme | null): void {
+    const preview = document.getElementById('themePreview') as HTMLDivElement;
+    const nameElement = document.getElementById('themePreviewName') as HTMLDivElement;
+    const swatches = document.getElementById('themePreviewSwatches') as HTMLDivElement;
+
+    this.pendingTheme = theme;
+    preview.hidden = theme === null;
+    swatches.replaceChildren();
+    if (!theme) {
+      return;
+    }
+
+    const { colors } = theme;
+    nameElement.textContent = theme.theme.name;
+    swatches.style.backgroundColor = colors.background;
+
+    // Pale bubble first, then one bubble per palette color
+    const bubbles = [
+      { color: colors.defaultShapeFillColor, title: 'Pale shape' },
+      ...colors.palette.map((color) => ({ color, title: color })),
+    ];
+    for (const { color, title } of bubbles) {
+      const bubble = document.createElement('span');
+      bubble.className = 'theme-preview-bubble';
+      bubble.style.backgroundColor = color;
+      bubble.title = title;
+      swatches.appendChild(bubble);
+    }
+  }
+
+  /** Renders one row per palette color with picker, reorder and remove buttons */
+  private renderSwatches(): void {
+    const { palette } = this.config.colors;
+    this.swatchList.replaceChildren();
+
+    palette.forEach((color, i) => {
+      const row = document.createElement('div');
+      row.className = 'palette-swatch';
+
+      const colorInput = document.createElement('input');
+      colorInput.type = 'color';
+      colorInput.value = toHexColor(color);
+      colorInput.title = `Palette color ${i + 1}`;
+      colorInput.addEventListener('input', () => {
+        palette[i] = colorInput.value;
+        this.presetSelect.value = this.findPreset();
+        this.renderContrastReport();
+        this.onChange();
+      });
+
+      const createButton = (
+        label: string,
+        title: string,
+        disabled: boolean,
+        action: () => void
+      ) => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.textContent = label;
+        button.title = title;
+        button.disabled = disabled;
+        button.addEventListener('click', () => {
+          action();
+          this.changed();
+        });
+        return button;
+      };
+
+      row.append(
+        colorInput,
+        createButton('▲', 'Move up', i === 0, () => {
+          [palette[i - 1], palette[i]] = [palette[i], palette[i - 1]];
+        }),
+        createButton('▼', 'Move down', i === palette.length - 1, () => {
+          [palette[i], palette[i + 1]] = [palette[i + 1], palette[i]];
+        }),
+        // The palette needs at least one color
+        createButton('✕', 'Remove', palette.length === 1, () => {
+          palette.splice(i, 1);
+        })
+      );
+      this.swatchList.appendChild(row);
+    });
+  }
+
+  /**
+   * Lists the WCAG contrast of the icons on every palette color and warns
+   * about unreadable icons and colors that look alike, with normal vision
+   * or a color-vision deficiency. Also called when the icon opacity changes.
+   */
+  public renderContrastReport(): void {
+    const report = getContrastReport(this.config);
+    const { palette } = this.config.colors;
+    const createBubble = (color: string, iconColor?: string) => {
+      const bubble = document.createElement('span');
+      bubble.className = 'contrast-bubble';
+      bubble.style.backgroundColor = color;
+      if (iconColor) {
+        bubble.style.color = iconColor;
+        bubble.textContent = 'Aa';
+      }
+      return bubble;
+    };
+
+    const rows = report.icons.map(({ color, iconColor, visibleColor, ratio, readable }) => {
+      const row = document.createElement('div');
+      row.className = 'contrast-row';
+      row.classList.toggle('contrast-warning', !readable);
+      row.title = `Icon ${iconColor} on ${color}, shows as ${visibleColor}`;
+      row.append(
+        createBubble(color, visibleColor),
+        `${ratio.toFixed(1)}:1 ${readable ? '✓' : '⚠ icons hard to read'}`
+      );
+      return row;
+    });
+    for (const { first, second, visions } of report.similar) {
+      const row = document.createElement('div');
+      row.className = 'contrast-row contrast-warning';
+      row.append(
+        createBubble(palette[first]),
+        createBubble(palette[second]),
+        `⚠ look alike with ${visions.map((vision) => VISION_NAMES[vision]).join(', ')}`
+      );
+      rows.push(row);
+    }
+    (document.getElementById('contrastReport') as HTMLDivElement).replaceChildren(...rows);
+  }
+}
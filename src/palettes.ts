@@ -0,0 +1,123 @@
+import chroma from 'chroma-js';
+import { CONFIG, type Config } from './config';
+
+/**
+ * Built-in color themes and palette generators.
+ */
+
+export type ColorScheme = Config['colors'];
+
+export interface PalettePreset {
+  name: string;
+  colors: ColorScheme;
+}
+
+export const PALETTE_PRESETS: PalettePreset[] = [
+  {
+    name: 'Monokai',
+    colors: structuredClone(CONFIG.colors),
+  },
+  {
+    name: 'Dracula',
+    colors: {
+      background: '#282A36',
+      defaultIconColor: '#000000',
+      coloredIconColor: '#282A36',
+      defaultShapeFillColor: '#44475A',
+      defaultShapeStrokeColor: '#44475A',
+      palette: ['#FF79C6', '#50FA7B', '#8BE9FD', '#FFB86C', '#F1FA8C', '#BD93F9', '#FF5555'],
+    },
+  },
+  {
+    name: 'Nord',
+    colors: {
+      background: '#2E3440',
+      defaultIconColor: '#000000',
+      coloredIconColor: '#2E3440',
+      defaultShapeFillColor: '#434C5E',
+      defaultShapeStrokeColor: '#434C5E',
+      palette: ['#BF616A', '#D08770', '#EBCB8B', '#A3BE8C', '#B48EAD', '#88C0D0', '#81A1C1'],
+    },
+  },
+  {
+    name: 'Solarized Dark',
+    colors: {
+      background: '#002B36',
+      defaultIconColor: '#000000',
+      coloredIconColor: '#002B36',
+      defaultShapeFillColor: '#073642',
+      defaultShapeStrokeColor: '#586E75',
+      palette: ['#B58900', '#CB4B16', '#DC322F', '#D33682', '#6C71C4', '#268BD2', '#2AA198', '#859900'],
+    },
+  },
+  {
+    name: 'Solarized Light',
+    colors: {
+      background: '#FDF6E3',
+      defaultIconColor: '#073642',
+      coloredIconColor: '#FDF6E3',
+      defaultShapeFillColor: '#93A1A1',
+      defaultShapeStrokeColor: '#93A1A1',
+      palette: ['#B58900', '#CB4B16', '#DC322F', '#D33682', '#6C71C4', '#268BD2', '#2AA198', '#859900'],
+    },
+  },
+  {
+    name: 'Gruvbox',
+    colors: {
+      background: '#282828',
+      defaultIconColor: '#000000',
+      coloredIconColor: '#282828',
+      defaultShapeFillColor: '#504945',
+      defaultShapeStrokeColor: '#504945',
+      palette: ['#FB4934', '#B8BB26', '#FABD2F', '#83A598', '#D3869B', '#8EC07C', '#FE8019'],
+    },
+  },
+];
+
+export type PaletteGenerator = 'analogous' | 'triadic' | 'gradient';
+
+/**
+ * Generates a palette from a base color.
+ * - analogous: neighboring hues within 60° around the base color
+ * - triadic: three hues 120° apart, extra colors as lighter/darker variants
+ * - gradient: evenly sampled from a scale between the base and the end color
+ */
+export function generatePalette(
+  generator: PaletteGenerator,
+  baseColor: string,
+  count: number,
+  endColor?: string
+): string[] {
+  const base = chroma(baseColor);
+  const hue = Number.isNaN(base.get('hsl.h')) ? 0 : base.get('hsl.h');
+
+  switch (generator) {
+    case 'analogous': {
+      const spread = 60;
+      return Array.from({ length: count }, (_, i) => {
+        const offset = count > 1 ? -spread / 2 + (spread * i) / (count - 1) : 0;
+        return base.set('hsl.h', (hue + offset + 360) % 360).hex();
+      });
+    }
+    case 'triadic':
+      return Array.from({ length: count }, (_, i) => {
+        const color = base.set('hsl.h', (hue + (i % 3) * 120) % 360);
+        // Every further round of three alternates between lighter and darker
+        const round = Math.floor(i / 3);
+        const amount = Math.ceil(round / 2) * 0.7;
+        return (round % 2 === 1 ? color.brighten(amount) : color.darken(amount)).hex();
+      });
+    case 'gradient': {
+      const end = endColor ?? base.set('hsl.h', (hue + 180) % 360).hex();
+      return chroma.scale([base, end]).mode('lch').colors(count);
+    }
+  }
+}
+
+/**
+ * Converts any CSS color to '#rrggbb', the format of color inputs.
+ * Invalid colors fall back to black.
+ */
+export function toHexColor(color: string): string {
+  return chroma.valid(color) ? chroma(color).hex('rgb') : '#000000';
+}
@@ -0,0 +1,127 @@
+import { crc32 } from './zip';
+
+/**
+ * Streaming PNG encoder.
+ * Rows are added in strips and compressed right away with the browser's
+ * CompressionStream, so the full image never has to exist uncompressed.
+ * Works in windows and workers.
+ */
+
+export const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+const BYTES_PER_PIXEL = 4;
+/** PNG row filter 'Sub': stores the difference to the pixel on the left */
+const FILTER_SUB = 1;
+
+/** A PNG chunk: length, type, data and the checksum */
+export function createChunk(type: string, data: Uint8Array): Uint8Array<ArrayBuffer> {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  // The checksum covers type and data
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/** Header of an RGBA image with 8 bits per channel */
+export function createHeader(width: number, height: number): Uint8Array<ArrayBuffer> {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8; // Bit depth
+  header[9] = 6; // Color type: RGBA
+  // Compression, filter method and interlacing stay 0
+  return createChunk('IHDR', header);
+}
+
+/**
+ * Prepares whole RGBA rows for compression: every row starts with its
+ * filter type, followed by the filtered bytes.
+ */
+export function filterRows(pixels: Uint8ClampedArray, width: number): Uint8Array<ArrayBuffer> {
+  const rowBytes = width * BYTES_PER_PIXEL;
+  const rowCount = pixels.length / rowBytes;
+  const filtered = new Uint8Array(rowCount * (rowBytes + 1));
+  for (let row = 0; row < rowCount; row++) {
+    const source = row * rowBytes;
+    const target = row * (rowBytes + 1);
+    filtered[target] = FILTER_SUB;
+    for (let i = 0; i < rowBytes; i++) {
+      const left = i >= BYTES_PER_PIXEL ? pixels[source + i - BYTES_PER_PIXEL] : 0;
+      filtered[target + 1 + i] = (pixels[source + i] - left) & 0xff;
+    }
+  }
+  return filtered;
+}
+
+export class PngEncoder {
+  private width: number;
+  private height: number;
+  private rowsAdded = 0;
+  private writer: WritableStreamDefaultWriter<BufferSource>;
+  /** Resolves with all IDAT chunks once the compression stream is done */
+  private dataChunks: Promise<Uint8Array<ArrayBuffer>[]>;
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    // 'deflate' produces the zlib format PNG expects
+    const compression = new CompressionStream('deflate');
+    this.writer = compression.writable.getWriter();
+    this.dataChunks = this.collectChunks(compression.readable);
+  }
+
+  /** Reads the compressed output while rows are still being added */
+  private async collectChunks(
+    readable: ReadableStream<Uint8Array>
+  ): Promise<Uint8Array<ArrayBuffer>[]> {
+    const chunks: Uint8Array<ArrayBuffer>[] = [];
+    const reader = readable.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return chunks;
+      }
+      chunks.push(createChunk('IDAT', value));
+    }
+  }
+
+  /**
+   * Adds the next rows of the image.
+   * 'pixels' holds RGBA data of whole rows, as returned by getImageData.
+   */
+  public async addRows(pixels: Uint8ClampedArray): Promise<void> {
+    const rowBytes = this.width * BYTES_PER_PIXEL;
+    const rowCount = pixels.length / rowBytes;
+    if (this.rowsAdded + rowCount > this.height) {
+      throw new Error('More rows than the image height were added.');
+    }
+
+    const filtered = filterRows(pixels, this.width);
+    this.rowsAdded += rowCount;
+    // Waiting for the write keeps memory low when rendering is faster than compressing
+    await this.writer.write(filtered);
+  }
+
+  /** Finishes the image; all rows must have been added */
+  public async finish(): Promise<Blob> {
+    if (this.rowsAdded !== this.height) {
+      throw new Error(`Only ${this.rowsAdded} of ${this.height} rows were added.`);
+    }
+    await this.writer.close();
+
+    return new Blob(
+      [
+        PNG_SIGNATURE,
+        createHeader(this.width, this.height),
+        ...(await this.dataChunks),
+        createChunk('IEND', new Uint8Array(0)),
+      ],
+      { type: 'image/png' }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import type { Config } from './config';
+import { IconAtlas, type CanvasFactory, type IconAtlasData } from './iconAtlas';
+import { getLayerConfig } from './layers';
+import { PngEncoder } from './pngEncoder';
+import { drawContent } from './render';
+import type { Grid } from './types';
+
+/**
+ * PNG export in horizontal strips.
+ * Browsers limit the size of a single canvas (and silently return blank
+ * images beyond it), so large exports are drawn strip by strip on a small
+ * canvas and streamed into the PNG encoder.
+ */
+
+/** Widest canvas the common browsers can draw on */
+export const MAX_CANVAS_SIDE = 32767;
+/** Pixels per strip; keeps the strip canvas far below the area limits */
+const STRIP_PIXELS = 16 * 1024 * 1024;
+
+export interface RenderJob {
+  /** Grids of the layers, by layer index (see generateLayerGrids) */
+  grids: Grid[];
+  config: Config;
+  /** Section of the canvas to export, in canvas pixels; slices of a span start at 'offsetX' */
+  width: number;
+  height: number;
+  offsetX: number;
+  /** Pixel ratio of the output image */
+  scale: number;
+  /** Uploaded SVG icons, rasterized on the main thread; null if there are none */
+  iconAtlas: IconAtlasData | null;
+}
+
+/** Only the symbols that reach into the given area of the canvas */
+function cropGrid(
+  grid: Grid,
+  config: Config,
+  left: number,
+  top: number,
+  right: number,
+  bottom: number
+): Grid {
+  const { radius, strokeWidth, effect, effectSize } = config.shape;
+  // Glow and shadow reach about twice their blur beyond the shape
+  const effectMargin = effect === 'none' ? 0 : effectSize * 2;
+  const size = Math.max(radius + strokeWidth + effectMargin, config.symbols.fontSize);
+  return grid.map((row) =>
+    row.filter((symbol) => {
+      if (symbol === null) {
+        return false;
+      }
+      const x = symbol.x + symbol.offsetX;
+      const y = symbol.y + symbol.offsetY;
+      // Rotated squares reach further than their radius
+      const margin = size * symbol.scale * Math.SQRT2;
+      return x + margin >= left && x - margin <= right && y + margin >= top && y - margin <= bottom;
+    })
+  );
+}
+
+/**
+ * Renders the job as PNG.
+ * 'onProgress' receives the finished share from 0 to 1 after every strip.
+ */
+export async function renderPngInStrips(
+  job: RenderJob,
+  onProgress: (progress: number) => void = () => {}
+): Promise<Blob> {
+  const { grids, config, offsetX, scale } = job;
+  const width = Math.round(job.width * scale);
+  const height = Math.round(job.height * scale);
+  if (width > MAX_CANVAS_SIDE) {
+    throw new Error(
+      `The image would be ${width} pixels wide; at most ${MAX_CANVAS_SIDE} are supported. ` +
+        'Lower the export scale.'
+    );
+  }
+
+  const stripHeight = Math.max(1, Math.min(height, Math.floor(STRIP_PIXELS / width)));
+  const canvas = new OffscreenCanvas(width, stripHeight);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  const encoder = new PngEncoder(width, height);
+  const createCanvas: CanvasFactory = (canvasWidth, canvasHeight) =>
+    new OffscreenCanvas(canvasWidth, canvasHeight);
+  const atlas = job.iconAtlas && new IconAtlas(job.iconAtlas, createCanvas);
+  const layerConfigs = config.layers.map((layer) => getLayerConfig(config, layer));
+
+  for (let top = 0; top < height; top += stripHeight) {
+    const rows = Math.min(stripHeight, height - top);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, width, stripHeight);
+    // Canvas coordinates of the strip: scaled, shifted to the section and down to the strip
+    ctx.setTransform(scale, 0, 0, scale, -offsetX * scale, -top);
+    const bounds = [offsetX, top / scale, offsetX + job.width, (top + rows) / scale] as const;
+    drawContent(
+      ctx,
+      layerConfigs.map((layerConfig, i) => cropGrid(grids[i] ?? [], layerConfig, ...bounds)),
+      config,
+      config.canvasSize.width,
+      config.canvasSize.height,
+      createCanvas,
+      atlas
+    );
+    await encoder.addRows(ctx.getImageData(0, 0, width, rows).data);
+    onProgress((top + rows) / height);
+  }
+  return encoder.finish();
+}
@@ -0,0 +1,57 @@
+/**
+ * Seedable pseudo random number generator.
+ * Every random decision of the generator goes through a function
+ * created here, so the same seed always produces the same wallpaper.
+ */
+
+/** A function returning a pseudo random number in [0, 1) */
+export type RandomFn = () => number;
+
+/** Largest seed value (seeds are unsigned 32-bit integers) */
+export const MAX_SEED = 0xffffffff;
+
+/**
+ * Creates a random function based on the mulberry32 algorithm.
+ * It is fast, small and good enough for visual randomness.
+ */
+export function createRandom(seed: number): RandomFn {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Combines integers into one seed, e.g. the wallpaper seed and a grid
+ * position, for random values that don't depend on the generation order.
+ */
+export function hashSeed(...values: number[]): number {
+  let hash = 0x811c9dc5;
+  for (const value of values) {
+    hash = Math.imul(hash ^ (value | 0), 0x01000193);
+    hash ^= hash >>> 15;
+  }
+  return hash >>> 0;
+}
+
+/** Rolls a new random seed */
+export function createSeed(): number {
+  return Math.floor(Math.random() * (MAX_SEED + 1));
+}
+
+/**
+ * Parses a seed entered by the user.
+ * Returns null if the value is not a valid unsigned 32-bit integer.
+ */
+export function parseSeed(value: string): number | null {
+  const trimmed = value.trim();
+  if (!/^\d+$/.test(trimmed)) {
+    return null;
+  }
+  const seed = Number(trimmed);
+  return seed <= MAX_SEED ? seed : null;
+}
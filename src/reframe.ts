@@ -0,0 +1,103 @@
+import type { Config, LayerConfig } from './config';
+import { getLayoutOrigin } from './layouts';
+import type { ClusterCenter } from './types';
+
+/**
+ * Fits an existing composition into another canvas size, so every export
+ * size shows the same clusters instead of a new random layout.
+ * - scale: everything is scaled uniformly until the new canvas is covered,
+ *   overhanging parts are cropped evenly on both sides
+ * - anchor: sizes stay in pixels and the composition stays centered;
+ *   larger canvases show more of the surroundings
+ */
+export type ReframeMode = 'scale' | 'anchor';
+
+export const REFRAME_MODES: ReframeMode[] = ['scale', 'anchor'];
+
+export interface Reframed {
+  config: Config;
+  clusters: ClusterCenter[];
+}
+
+/** Settings in canvas pixels, which grow and shrink with the composition */
+const SIZE_FIELDS = [
+  ['grid', 'spacingX'],
+  ['grid', 'spacingY'],
+  ['grid', 'minDistance'],
+  ['symbols', 'fontSize'],
+  ['clustering', 'minSeparation'],
+  ['clustering', 'maxRadius'],
+  ['shape', 'radius'],
+  ['shape', 'strokeWidth'],
+  ['shape', 'effectSize'],
+  ['mask', 'feather'],
+  ['animation', 'amplitude'],
+] as const;
+
+/** Scales the size fields that are set; layer overrides may leave them out */
+function scaleSizes(config: LayerConfig | Config, scale: number): void {
+  for (const [section, field] of SIZE_FIELDS) {
+    const values = (config as Partial<Config>)[section] as Record<string, number> | undefined;
+    if (values && typeof values[field] === 'number') {
+      values[field] *= scale;
+    }
+  }
+}
+
+/** Returns a copy of config and clusters fitted to the new size */
+export function reframe(
+  config: Config,
+  clusters: ClusterCenter[],
+  width: number,
+  height: number,
+  mode: ReframeMode
+): Reframed {
+  const { width: oldWidth, height: oldHeight } = config.canvasSize;
+  const scale =
+    mode === 'scale' ? Math.max(width / oldWidth, height / oldHeight) : 1;
+  const offsetX = (width - oldWidth * scale) / 2;
+  const offsetY = (height - oldHeight * scale) / 2;
+
+  const result = structuredClone(config);
+  result.canvasSize = { ...config.canvasSize, width, height };
+  scaleSizes(result, scale);
+  // Grid layers that set their own sizes scale the same way
+  result.layers.forEach((layer) => scaleSizes(layer.config, scale));
+
+  // Exclusion zones stay where they are: they belong to the screen, not to the composition
+
+  // Edited clusters move like the generated ones
+  result.editedClusters = config.editedClusters.map((cluster) => ({
+    ...cluster,
+    x: (cluster.x * oldWidth * scale + offsetX) / width,
+    y: (cluster.y * oldHeight * scale + offsetY) / height,
+  }));
+
+  // Painted cells are in grid units from the layout origin, which scale with
+  // the spacing; only the offset of the composition against the origin moves
+  // them to other grid cells. Slots of the scatter stay as they are.
+  const { spacingX, spacingY } = result.grid;
+  const oldOrigin = getLayoutOrigin(config);
+  const origin = getLayoutOrigin(result);
+  result.lockedCells = config.lockedCells.map((cell) => ({
+    ...cell,
+    x: cell.x + (oldOrigin.x * scale + offsetX - origin.x) / spacingX,
+    y: cell.y + (oldOrigin.y * scale + offsetY - origin.y) / spacingY,
+  }));
+
+  // The mask is placed relative to the canvas; keep it on the same symbols
+  const { mask } = config;
+  result.mask.x = (mask.x * oldWidth * scale + offsetX) / width;
+  result.mask.y = (mask.y * oldHeight * scale + offsetY) / height;
+  result.mask.scale =
+    (mask.scale * Math.min(oldWidth, oldHeight) * scale) / Math.min(width, height);
+
+  return {
+    config: result,
+    clusters: clusters.map((cluster) => ({
+      ...cluster,
+      x: cluster.x * scale + offsetX,
+      y: cluster.y * scale + offsetY,
+    })),
+  };
+}
@@ -0,0 +1,212 @@
+import type { Config } from './config';
+import { drawBackgroundLayer } from './backgrounds';
+import type { AtlasCanvas, CanvasFactory, IconAtlas } from './iconAtlas';
+import { resolveIcons } from './icons';
+import { isUntransformed } from './jitter';
+import { getCompositeOperation, getLayerConfig, isGridLayer, isLayerShown } from './layers';
+import {
+  buildShape,
+  getDashPattern,
+  getDoubleStrokeScale,
+  tracePath,
+  type BuiltShape,
+} from './shapes';
+import type { Grid, SymbolData } from './types';
+
+/**
+ * 2D context the wallpaper can be drawn on.
+ * Besides the browser canvas, this also covers OffscreenCanvas and
+ * canvas implementations for Node that follow the same API.
+ */
+export type RenderContext =
+  | CanvasRenderingContext2D
+  | OffscreenCanvasRenderingContext2D;
+
+/** Color of the drop shadow of the 'shadow' effect */
+const SHADOW_COLOR = 'rgba(0, 0, 0, 0.5)';
+
+/**
+ * Draws the shape of a symbol at (x, y): the fill first, then the edge.
+ * Canvas shadows ignore the transform, so 'pixelRatio' converts the size of
+ * glow and shadow into device pixels.
+ */
+function drawShape(
+  ctx: RenderContext,
+  built: BuiltShape,
+  shape: Config['shape'],
+  symbol: SymbolData,
+  x: number,
+  y: number,
+  pixelRatio: number
+): void {
+  if (shape.effect !== 'none') {
+    ctx.shadowBlur = shape.effectSize * pixelRatio;
+    ctx.shadowColor = shape.effect === 'glow' ? symbol.shapeColor : SHADOW_COLOR;
+    ctx.shadowOffsetY = shape.effect === 'shadow' ? (shape.effectSize / 2) * pixelRatio : 0;
+  }
+
+  // --- 3a. Shape Fill ---
+  ctx.globalAlpha = symbol.shapeFillOpacity;
+  ctx.fillStyle = symbol.shapeColor;
+  ctx.beginPath();
+  tracePath(ctx, built.path, x, y);
+  ctx.fill(built.fillRule);
+
+  // --- 3b. Shape Border ---
+  if (shape.strokeWidth > 0) {
+    ctx.globalAlpha = symbol.shapeStrokeOpacity;
+    ctx.strokeStyle = symbol.shapeStrokeColor;
+    ctx.lineWidth = shape.strokeWidth;
+    ctx.setLineDash(getDashPattern(shape));
+    ctx.lineCap = shape.strokeStyle === 'dotted' ? 'round' : 'butt';
+    ctx.stroke();
+    if (shape.strokeStyle === 'double') {
+      ctx.beginPath();
+      tracePath(ctx, built.path, x, y, getDoubleStrokeScale(shape));
+      ctx.stroke();
+    }
+  }
+
+  if (shape.effect !== 'none') {
+    ctx.shadowBlur = 0;
+    ctx.shadowColor = 'transparent';
+    ctx.shadowOffsetY = 0;
+  }
+}
+
+/**
+ * Draws the symbols of one grid.
+ * Symbols are rotated, scaled and offset as stored by the model (see jitter.ts).
+ * SVG icons come from 'atlas'; without one, they are left out.
+ */
+function drawGrid(
+  ctx: RenderContext,
+  grid: Grid,
+  config: Config,
+  atlas: IconAtlas | null,
+  pixelRatio: number
+): void {
+  const { fontSize } = config.symbols;
+  const icons = resolveIcons(config.symbols);
+  const shape = buildShape(config.shape);
+
+  // Setting the font is slow, so it is only changed between icons of different sources
+  let font = '';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  for (const row of grid) {
+    if (row) {
+      for (const symbol of row) {
+        if (symbol) { // Only draw if symbol is not 'null'
+          // Rotated or scaled symbols are drawn around the origin of a local transform
+          const transformed = !isUntransformed(symbol);
+          const fontBefore = font;
+          let x = symbol.x + symbol.offsetX;
+          let y = symbol.y + symbol.offsetY;
+          if (transformed) {
+            ctx.save();
+            ctx.translate(x, y);
+            ctx.rotate(symbol.rotation);
+            ctx.scale(symbol.scale, symbol.scale);
+            x = 0;
+            y = 0;
+          }
+
+          if (shape) {
+            drawShape(ctx, shape, config.shape, symbol, x, y, pixelRatio);
+          }
+
+          // --- 3c. Symbol (Icon) ---
+          const icon = icons[symbol.icon];
+          ctx.globalAlpha = symbol.iconOpacity;
+          if (icon.svgIndex >= 0) {
+            const sprite = atlas?.getSprite(icon.svgIndex, symbol.iconColor);
+            if (sprite) {
+              ctx.drawImage(sprite, x - fontSize / 2, y - fontSize / 2, fontSize, fontSize);
+            }
+          } else {
+            const iconFont = `${icon.fontWeight} ${fontSize}px ${icon.fontFamily}`;
+            if (iconFont !== font) {
+              ctx.font = iconFont;
+              font = iconFont;
+            }
+            ctx.fillStyle = symbol.iconColor;
+            ctx.fillText(icon.text, x, y);
+          }
+
+          if (transformed) {
+            // restore() also brings back the font from before
+            ctx.restore();
+            font = fontBefore;
+          }
+        }
+      }
+    }
+  }
+  ctx.globalAlpha = 1.0;
+}
+
+/**
+ * Draws the entire content: the layers of config.layers from bottom to top.
+ * 'grids' holds the grid of every layer by index (see generateLayerGrids).
+ * Grid layers with an opacity or blend mode are drawn on a canvas of their
+ * own from 'createCanvas' first, so their symbols don't blend with each other.
+ * Used for the preview, the PNG download and the command-line renderer.
+ */
+export function drawContent(
+  ctx: RenderContext,
+  grids: Grid[],
+  config: Config,
+  width: number,
+  height: number,
+  createCanvas: CanvasFactory,
+  atlas: IconAtlas | null = null
+): void {
+  // Device pixels per canvas unit (screen pixel ratio or export scale)
+  const transform = ctx.getTransform();
+  const pixelRatio = Math.hypot(transform.a, transform.b);
+  let layerCanvas: AtlasCanvas | null = null;
+
+  ctx.clearRect(0, 0, width, height);
+  config.layers.forEach((layer, i) => {
+    if (!isLayerShown(config.layers, layer)) {
+      return;
+    }
+    const compositeOperation = getCompositeOperation(layer.blendMode);
+    if (!isGridLayer(layer)) {
+      ctx.globalAlpha = layer.opacity;
+      ctx.globalCompositeOperation = compositeOperation;
+      drawBackgroundLayer(ctx, layer, config, width, height, createCanvas);
+      ctx.globalAlpha = 1.0;
+      ctx.globalCompositeOperation = 'source-over';
+      return;
+    }
+
+    const layerConfig = getLayerConfig(config, layer);
+    if (layer.opacity === 1 && layer.blendMode === 'normal') {
+      drawGrid(ctx, grids[i] ?? [], layerConfig, atlas, pixelRatio);
+      return;
+    }
+    layerCanvas ??= createCanvas(ctx.canvas.width, ctx.canvas.height);
+    const layerCtx = layerCanvas.getContext('2d') as RenderContext;
+    layerCtx.setTransform(1, 0, 0, 1, 0, 0);
+    layerCtx.clearRect(0, 0, layerCanvas.width, layerCanvas.height);
+    layerCtx.setTransform(
+      transform.a,
+      transform.b,
+      transform.c,
+      transform.d,
+      transform.e,
+      transform.f
+    );
+    drawGrid(layerCtx, grids[i] ?? [], layerConfig, atlas, pixelRatio);
+
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalAlpha = layer.opacity;
+    ctx.globalCompositeOperation = compositeOperation;
+    ctx.drawImage(layerCanvas, 0, 0);
+    ctx.restore();
+  });
+}
@@ -0,0 +1,34 @@
+import { loadIconFont } from './iconFont';
+import { renderPngInStrips, type RenderJob } from './pngExport';
+
+/**
+ * Web worker that renders PNG exports off the main thread,
+ * so the page stays responsive while large images are drawn.
+ */
+
+export type RenderWorkerResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'done'; png: Blob }
+  | { type: 'error'; message: string };
+
+/** The parts of the worker scope used here (the project compiles against the DOM lib) */
+interface WorkerScope {
+  fonts: FontFaceSet;
+  postMessage(message: RenderWorkerResponse): void;
+  onmessage: ((event: MessageEvent<RenderJob>) => void) | null;
+}
+
+const scope = self as unknown as WorkerScope;
+
+scope.onmessage = async (event) => {
+  try {
+    // Workers don't share the fonts of the page, so the icon font is loaded here
+    await loadIconFont(scope.fonts);
+    const png = await renderPngInStrips(event.data, (progress) => {
+      scope.postMessage({ type: 'progress', progress });
+    });
+    scope.postMessage({ type: 'done', png });
+  } catch (error) {
+    scope.postMessage({ type: 'error', message: (error as Error).message });
+  }
+};
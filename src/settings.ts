@@ -0,0 +1,190 @@
+import { CONFIG, type Config } from './config';
+import { MAX_SEED } from './random';
+import { ConfigValidationError, validateConfig } from './validate';
+
+/**
+ * Import and export of complete settings (configuration + seed).
+ * Used for the JSON files of the settings panel and for shareable URLs.
+ */
+
+/**
+ * Version of the settings document format.
+ * Increase it when the format changes and add a migration for older files.
+ */
+export const SETTINGS_VERSION = 1;
+
+/** Prefix of the URL hash that carries encoded settings */
+const HASH_PREFIX = '#s=';
+
+/** Everything needed to recreate a wallpaper exactly */
+export interface Settings {
+  config: Config;
+  seed: number;
+}
+
+/** The JSON document written by the settings export */
+export interface SettingsDocument {
+  version: number;
+  seed: number;
+  config: Config;
+}
+
+/**
+ * Migrations from older document versions, indexed by the version they upgrade from.
+ * Each one returns the document in the format of the next version.
+ */
+const MIGRATIONS: Record<number, (document: Record<string, unknown>) => Record<string, unknown>> = {};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function createSettingsDocument(config: Config, seed: number): SettingsDocument {
+  return { version: SETTINGS_VERSION, seed, config };
+}
+
+/** Serializes the settings as a readable JSON document */
+export function serializeSettings(config: Config, seed: number): string {
+  return JSON.stringify(createSettingsDocument(config, seed), null, 2);
+}
+
+/**
+ * Validates a settings document.
+ * Older versions are migrated and missing config fields are filled from the defaults.
+ * @throws ConfigValidationError if the document or its configuration is invalid
+ */
+export function parseSettingsDocument(input: unknown): Settings {
+  if (!isPlainObject(input)) {
+    throw new ConfigValidationError(['settings: expected a JSON object']);
+  }
+
+  let document = input;
+  let version = document.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new ConfigValidationError([
+      `version: expected a positive integer, got ${JSON.stringify(version)}`,
+    ]);
+  }
+  if (version > SETTINGS_VERSION) {
+    throw new ConfigValidationError([
+      `version: ${version} was created by a newer version of the generator (supported: ${SETTINGS_VERSION})`,
+    ]);
+  }
+  while (version < SETTINGS_VERSION) {
+    document = MIGRATIONS[version](document);
+    version++;
+  }
+
+  const errors: string[] = [];
+  const seed = document.seed;
+  if (typeof seed !== 'number' || !Number.isInteger(seed) || seed < 0 || seed > MAX_SEED) {
+    errors.push(`seed: expected an integer from 0 to ${MAX_SEED}, got ${JSON.stringify(seed)}`);
+  }
+  for (const key of Object.keys(document)) {
+    if (!['version', 'seed', 'config'].includes(key)) {
+      errors.push(`${key}: unknown field`);
+    }
+  }
+
+  let config: Config = structuredClone(CONFIG);
+  try {
+    config = validateConfig(document.config);
+  } catch (error) {
+    if (!(error instanceof ConfigValidationError)) {
+      throw error;
+    }
+    // Prefix the paths, so they match the structure of the document
+    errors.push(...error.errors.map((message) => `config.${message}`));
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigValidationError(errors);
+  }
+  return { config, seed: seed as number };
+}
+
+/**
+ * Parses the text of a settings file.
+ * @throws ConfigValidationError if the text is not a valid settings document
+ */
+export function parseSettings(text: string): Settings {
+  let input: unknown;
+  try {
+    input = JSON.parse(text);
+  } catch (error) {
+    throw new ConfigValidationError([
+      `settings: not valid JSON (${(error as Error).message})`,
+    ]);
+  }
+  return parseSettingsDocument(input);
+}
+
+/**
+ * Returns only the fields that differ from the defaults.
+ * Lists are kept as a whole if any entry differs.
+ */
+function diffFromDefaults(value: unknown, fallback: unknown): unknown {
+  if (isPlainObject(value) && isPlainObject(fallback)) {
+    const diff: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      const entryDiff = diffFromDefaults(entry, fallback[key]);
+      if (entryDiff !== undefined) {
+        diff[key] = entryDiff;
+      }
+    }
+    return Object.keys(diff).length > 0 ? diff : undefined;
+  }
+  return JSON.stringify(value) === JSON.stringify(fallback) ? undefined : value;
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return new TextDecoder().decode(
+    Uint8Array.from(binary, (char) => char.charCodeAt(0))
+  );
+}
+
+/**
+ * Encodes the settings as a compact URL hash (e.g. '#s=eyJ2Ijox...').
+ * Only fields that differ from the defaults are stored, which keeps links short.
+ */
+export function encodeSettingsHash(config: Config, seed: number): string {
+  const document = {
+    version: SETTINGS_VERSION,
+    seed,
+    config: diffFromDefaults(config, CONFIG) ?? {},
+  };
+  return HASH_PREFIX + toBase64Url(JSON.stringify(document));
+}
+
+/** Returns true if the URL hash carries encoded settings */
+export function hasSettingsHash(hash: string): boolean {
+  return hash.startsWith(HASH_PREFIX);
+}
+
+/**
+ * Decodes settings from a URL hash created by encodeSettingsHash().
+ * @throws ConfigValidationError if the hash is damaged or invalid
+ */
+export function decodeSettingsHash(hash: string): Settings {
+  if (!hasSettingsHash(hash)) {
+    throw new ConfigValidationError(['link: does not contain settings']);
+  }
+  let text: string;
+  try {
+    text = fromBase64Url(hash.slice(HASH_PREFIX.length));
+  } catch {
+    throw new ConfigValidationError(['link: the settings are damaged']);
+  }
+  return parseSettings(text);
+}
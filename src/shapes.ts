@@ -0,0 +1,457 @@
+import type { Config, ShapeEffect, StrokeStyle } from './config';
+import { CUSTOM_SHAPES } from './customShapes';
+import { getPolygonPoints, type Point } from './geometry';
+
+/**
+ * The shapes behind the icons.
+ * A shape describes its outline once, as a path around the origin; the
+ * canvas renderer traces that path and the SVG export writes it as path
+ * data, so both outputs draw exactly the same outline.
+ */
+
+export const STROKE_STYLES: readonly StrokeStyle[] = ['solid', 'dashed', 'dotted', 'double'];
+export const SHAPE_EFFECTS: readonly ShapeEffect[] = ['none', 'glow', 'shadow'];
+
+/** One step of a shape path, named after the canvas methods */
+export type PathCommand =
+  | { type: 'moveTo' | 'lineTo'; x: number; y: number }
+  | { type: 'quadraticCurveTo'; cx: number; cy: number; x: number; y: number }
+  | {
+      type: 'bezierCurveTo';
+      c1x: number;
+      c1y: number;
+      c2x: number;
+      c2y: number;
+      x: number;
+      y: number;
+    }
+  | {
+      type: 'arc';
+      x: number;
+      y: number;
+      radius: number;
+      startAngle: number;
+      endAngle: number;
+      counterclockwise: boolean;
+    }
+  | { type: 'closePath' };
+
+/**
+ * Records a path through the same calls as a canvas context.
+ * Shape definitions draw into it; an empty path means "no shape".
+ */
+export class ShapePath {
+  public readonly commands: PathCommand[] = [];
+
+  public moveTo(x: number, y: number): void {
+    this.commands.push({ type: 'moveTo', x, y });
+  }
+
+  public lineTo(x: number, y: number): void {
+    this.commands.push({ type: 'lineTo', x, y });
+  }
+
+  public quadraticCurveTo(cx: number, cy: number, x: number, y: number): void {
+    this.commands.push({ type: 'quadraticCurveTo', cx, cy, x, y });
+  }
+
+  public bezierCurveTo(
+    c1x: number,
+    c1y: number,
+    c2x: number,
+    c2y: number,
+    x: number,
+    y: number
+  ): void {
+    this.commands.push({ type: 'bezierCurveTo', c1x, c1y, c2x, c2y, x, y });
+  }
+
+  public arc(
+    x: number,
+    y: number,
+    radius: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise = false
+  ): void {
+    this.commands.push({ type: 'arc', x, y, radius, startAngle, endAngle, counterclockwise });
+  }
+
+  public closePath(): void {
+    this.commands.push({ type: 'closePath' });
+  }
+
+  /** Closed polygon through the points */
+  public polygon(points: Point[]): void {
+    points.forEach((point, i) => {
+      if (i === 0) {
+        this.moveTo(point.x, point.y);
+      } else {
+        this.lineTo(point.x, point.y);
+      }
+    });
+    this.closePath();
+  }
+
+  public isEmpty(): boolean {
+    return this.commands.length === 0;
+  }
+}
+
+/** Settings of 'shape' a definition can use */
+export type ShapeOptions = Pick<Config['shape'], 'corners' | 'radius' | 'rounding' | 'innerRadius'>;
+
+export interface ShapeDefinition {
+  /** Value of 'shape.type' */
+  name: string;
+  /** Shown in the shape selection */
+  label: string;
+  /**
+   * Draws the outline centered on the origin, fitting into a circle of
+   * 'options.radius'. The first corner should point up, like the polygons.
+   */
+  draw(path: ShapePath, options: ShapeOptions): void;
+  /** 'evenodd' for shapes with holes, like the ring */
+  fillRule?: CanvasFillRule;
+}
+
+/** Corners of a regular polygon around the origin */
+function getCorners(options: ShapeOptions): Point[] {
+  return getPolygonPoints(0, 0, options.radius, Math.max(3, options.corners));
+}
+
+/** Points per quarter of the squircle; enough to look smooth at large sizes */
+const SQUIRCLE_STEPS = 16;
+
+/**
+ * Superellipse exponent of the squircle: 2 is a circle, larger values come
+ * closer to a square
+ */
+const SQUIRCLE_EXPONENT = 4;
+
+/** Width of the diamond relative to its height */
+const DIAMOND_WIDTH = 0.7;
+
+/**
+ * Heart outline in a unit box (-1 to 1), as curves from the bottom tip:
+ * each entry holds the two control points and the end point
+ */
+const HEART_CURVES: [number, number, number, number, number, number][] = [
+  [-0.6, 0.35, -1, 0, -1, -0.35],
+  [-1, -0.75, -0.65, -0.95, -0.45, -0.95],
+  [-0.2, -0.95, 0, -0.75, 0, -0.55],
+  [0, -0.75, 0.2, -0.95, 0.45, -0.95],
+  [0.65, -0.95, 1, -0.75, 1, -0.35],
+  [1, 0, 0.6, 0.35, 0, 0.85],
+];
+
+const BUILT_IN_SHAPES: ShapeDefinition[] = [
+  {
+    name: 'polygon',
+    label: 'Circle or polygon (by corners)',
+    // The shape from before the registry: 2 corners is a circle, 0 and 1 draw nothing
+    draw(path, { corners, radius }) {
+      if (corners === 2) {
+        path.arc(0, 0, radius, 0, Math.PI * 2);
+      } else if (corners >= 3) {
+        path.polygon(getPolygonPoints(0, 0, radius, corners));
+      }
+    },
+  },
+  {
+    name: 'circle',
+    label: 'Circle',
+    draw(path, { radius }) {
+      path.arc(0, 0, radius, 0, Math.PI * 2);
+    },
+  },
+  {
+    name: 'rounded-polygon',
+    label: 'Rounded polygon',
+    draw(path, options) {
+      const corners = getCorners(options);
+      // 'rounding' 1 cuts each side in half, which leaves no straight part
+      const cut = Math.min(1, Math.max(0, options.rounding)) / 2;
+      corners.forEach((corner, i) => {
+        const previous = corners[(i + corners.length - 1) % corners.length];
+        const next = corners[(i + 1) % corners.length];
+        const startX = corner.x + (previous.x - corner.x) * cut;
+        const startY = corner.y + (previous.y - corner.y) * cut;
+        if (i === 0) {
+          path.moveTo(startX, startY);
+        } else {
+          path.lineTo(startX, startY);
+        }
+        path.quadraticCurveTo(
+          corner.x,
+          corner.y,
+          corner.x + (next.x - corner.x) * cut,
+          corner.y + (next.y - corner.y) * cut
+        );
+      });
+      path.closePath();
+    },
+  },
+  {
+    name: 'squircle',
+    label: 'Squircle',
+    draw(path, { radius }) {
+      const points: Point[] = [];
+      const steps = SQUIRCLE_STEPS * 4;
+      for (let i = 0; i < steps; i++) {
+        const angle = -Math.PI / 2 + (i / steps) * Math.PI * 2;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        points.push({
+          x: radius * Math.sign(cos) * Math.abs(cos) ** (2 / SQUIRCLE_EXPONENT),
+          y: radius * Math.sign(sin) * Math.abs(sin) ** (2 / SQUIRCLE_EXPONENT),
+        });
+      }
+      path.polygon(points);
+    },
+  },
+  {
+    name: 'star',
+    label: 'Star',
+    draw(path, options) {
+      const points = Math.max(3, options.corners);
+      const outer = getPolygonPoints(0, 0, options.radius, points * 2);
+      const inner = getPolygonPoints(0, 0, options.radius * options.innerRadius, points * 2);
+      path.polygon(outer.map((point, i) => (i % 2 === 0 ? point : inner[i])));
+    },
+  },
+  {
+    name: 'ring',
+    label: 'Ring',
+    fillRule: 'evenodd',
+    draw(path, { radius, innerRadius }) {
+      path.arc(0, 0, radius, 0, Math.PI * 2);
+      path.closePath();
+      // Without the move, the canvas would connect both circles with a line
+      path.moveTo(radius * innerRadius, 0);
+      path.arc(0, 0, radius * innerRadius, 0, Math.PI * 2);
+      path.closePath();
+    },
+  },
+  {
+    name: 'heart',
+    label: 'Heart',
+    draw(path, { radius }) {
+      path.moveTo(0, radius * HEART_CURVES[HEART_CURVES.length - 1][5]);
+      for (const [c1x, c1y, c2x, c2y, x, y] of HEART_CURVES) {
+        path.bezierCurveTo(
+          c1x * radius,
+          c1y * radius,
+          c2x * radius,
+          c2y * radius,
+          x * radius,
+          y * radius
+        );
+      }
+      path.closePath();
+    },
+  },
+  {
+    name: 'diamond',
+    label: 'Diamond',
+    draw(path, { radius }) {
+      path.polygon([
+        { x: 0, y: -radius },
+        { x: radius * DIAMOND_WIDTH, y: 0 },
+        { x: 0, y: radius },
+        { x: -radius * DIAMOND_WIDTH, y: 0 },
+      ]);
+    },
+  },
+  {
+    name: 'none',
+    label: 'No shape',
+    draw() {},
+  },
+];
+
+const registry = new Map<string, ShapeDefinition>();
+
+/**
+ * Names of all registered shapes, in the order of registration.
+ * The same array is updated by registerShape(), so validate.ts always
+ * checks against the current set.
+ */
+export const SHAPE_TYPES: string[] = [];
+
+/**
+ * Adds a shape, or replaces the one with the same name.
+ * Shapes that every renderer (page, export worker, CLI) should know belong
+ * into customShapes.ts; calling this at runtime only affects the current
+ * JavaScript context.
+ */
+export function registerShape(definition: ShapeDefinition): void {
+  if (!registry.has(definition.name)) {
+    SHAPE_TYPES.push(definition.name);
+  }
+  registry.set(definition.name, definition);
+}
+
+[...BUILT_IN_SHAPES, ...CUSTOM_SHAPES].forEach(registerShape);
+
+/** All shapes, e.g. for the shape selection */
+export function getShapes(): ShapeDefinition[] {
+  return SHAPE_TYPES.map((name) => registry.get(name)!);
+}
+
+/** A built shape, ready to be traced or written at every symbol */
+export interface BuiltShape {
+  path: ShapePath;
+  fillRule: CanvasFillRule;
+}
+
+/**
+ * Builds the outline of the configured shape once per render.
+ * Returns null if there is nothing to draw; unknown types fall back to
+ * 'polygon', so configurations written for a missing custom shape still render.
+ */
+export function buildShape(shape: Config['shape']): BuiltShape | null {
+  const definition = registry.get(shape.type) ?? registry.get('polygon')!;
+  const path = new ShapePath();
+  definition.draw(path, shape);
+  return path.isEmpty() ? null : { path, fillRule: definition.fillRule ?? 'nonzero' };
+}
+
+/**
+ * Scale of the inner line of the 'double' stroke style: a second outline one
+ * gap (the stroke width) inside the first
+ */
+export function getDoubleStrokeScale(shape: Config['shape']): number {
+  return shape.radius > 0 ? Math.max(0, (shape.radius - 2 * shape.strokeWidth) / shape.radius) : 0;
+}
+
+/** Dash pattern of a stroke style; empty for solid lines */
+export function getDashPattern(shape: Config['shape']): number[] {
+  const width = Math.max(shape.strokeWidth, 0.5);
+  switch (shape.strokeStyle) {
+    case 'dashed':
+      return [width * 3, width * 2];
+    case 'dotted':
+      // Zero-length dashes with round caps become dots
+      return [0, width * 2];
+    default:
+      return [];
+  }
+}
+
+/** Traces the path on a canvas, moved to (x, y) and scaled around it */
+export function tracePath(
+  ctx: CanvasPath,
+  path: ShapePath,
+  x: number,
+  y: number,
+  scale = 1
+): void {
+  for (const command of path.commands) {
+    switch (command.type) {
+      case 'moveTo':
+        ctx.moveTo(x + command.x * scale, y + command.y * scale);
+        break;
+      case 'lineTo':
+        ctx.lineTo(x + command.x * scale, y + command.y * scale);
+        break;
+      case 'quadraticCurveTo':
+        ctx.quadraticCurveTo(
+          x + command.cx * scale,
+          y + command.cy * scale,
+          x + command.x * scale,
+          y + command.y * scale
+        );
+        break;
+      case 'bezierCurveTo':
+        ctx.bezierCurveTo(
+          x + command.c1x * scale,
+          y + command.c1y * scale,
+          x + command.c2x * scale,
+          y + command.c2y * scale,
+          x + command.x * scale,
+          y + command.y * scale
+        );
+        break;
+      case 'arc':
+        ctx.arc(
+          x + command.x * scale,
+          y + command.y * scale,
+          command.radius * scale,
+          command.startAngle,
+          command.endAngle,
+          command.counterclockwise
+        );
+        break;
+      case 'closePath':
+        ctx.closePath();
+        break;
+    }
+  }
+}
+
+/**
+ * Writes the path as SVG path data, moved to (x, y) and scaled around it.
+ * 'format' rounds the numbers. Arcs become SVG arcs; full circles are split
+ * in two halves, because a single SVG arc cannot end where it starts.
+ */
+export function toSvgPathData(
+  path: ShapePath,
+  x: number,
+  y: number,
+  format: (value: number) => string,
+  scale = 1
+): string {
+  const point = (px: number, py: number) => `${format(x + px * scale)} ${format(y + py * scale)}`;
+  const parts: string[] = [];
+  let hasCurrentPoint = false;
+
+  for (const command of path.commands) {
+    switch (command.type) {
+      case 'moveTo':
+        parts.push(`M${point(command.x, command.y)}`);
+        hasCurrentPoint = true;
+        break;
+      case 'lineTo':
+        parts.push(`L${point(command.x, command.y)}`);
+        break;
+      case 'quadraticCurveTo':
+        parts.push(`Q${point(command.cx, command.cy)} ${point(command.x, command.y)}`);
+        break;
+      case 'bezierCurveTo':
+        parts.push(
+          `C${point(command.c1x, command.c1y)} ${point(command.c2x, command.c2y)} ` +
+            point(command.x, command.y)
+        );
+        break;
+      case 'arc': {
+        const { radius, startAngle, counterclockwise } = command;
+        let sweep = command.endAngle - startAngle;
+        if (counterclockwise) {
+          sweep = -sweep;
+        }
+        // Same as the canvas: more than a full turn is a full circle
+        const turn = Math.PI * 2;
+        sweep = sweep >= turn ? turn : ((sweep % turn) + turn) % turn;
+        const direction = counterclockwise ? -1 : 1;
+        const at = (angle: number) =>
+          point(command.x + radius * Math.cos(angle), command.y + radius * Math.sin(angle));
+        // Like on the canvas, the arc is connected to the current point
+        parts.push(`${hasCurrentPoint ? 'L' : 'M'}${at(startAngle)}`);
+        hasCurrentPoint = true;
+        const r = format(radius * scale);
+        const flag = counterclockwise ? 0 : 1;
+        const halves = sweep > Math.PI ? 2 : 1;
+        for (let i = 1; i <= halves; i++) {
+          const angle = startAngle + (direction * sweep * i) / halves;
+          parts.push(`A${r} ${r} 0 0 ${flag} ${at(angle)}`);
+        }
+        break;
+      }
+      case 'closePath':
+        parts.push('Z');
+        break;
+    }
+  }
+  return parts.join('');
+}
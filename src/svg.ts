@@ -0,0 +1,365 @@
+import chroma from 'chroma-js';
+import {
+  getCornerRadius,
+  getGradientStops,
+  getLinearGradientLine,
+  getVignetteStart,
+  type GradientStop,
+} from './backgrounds';
+import type { Config, Layer } from './config';
+import {
+  getSvgIcons,
+  ICON_FONT_FAMILY,
+  ICON_FONT_URL,
+  resolveIcons,
+  type Icon,
+} from './icons';
+import { isUntransformed } from './jitter';
+import { getLayerColors, getLayerConfig, isGridLayer, isLayerShown } from './layers';
+import {
+  buildShape,
+  getDashPattern,
+  getDoubleStrokeScale,
+  toSvgPathData,
+  type BuiltShape,
+} from './shapes';
+import type { Grid, SymbolData } from './types';
+
+/** ID of the clip path that cuts the seamless overscan at the canvas bounds */
+const CLIP_PATH_ID = 'canvas-bounds';
+
+/** Rounds coordinates to keep the file small without visible differences */
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/** Encodes the icon as numeric character references (Private Use Area, emoji, text) */
+function escapeGlyph(char: string): string {
+  return Array.from(char)
+    .map((c) => `&#x${c.codePointAt(0)!.toString(16)};`)
+    .join('');
+}
+
+/** ID of the glow or shadow filter of the shapes of a grid layer */
+function getEffectFilterId(layerIndex: number): string {
+  return `shape-effect-${layerIndex}`;
+}
+
+/**
+ * Filter of the glow or shadow, matching the canvas shadow: its blur is
+ * twice the standard deviation of the Gaussian blur
+ */
+function createEffectFilter(shape: Config['shape'], id: string): string[] {
+  if (shape.effect === 'none') {
+    return [];
+  }
+  const deviation = num(shape.effectSize / 2);
+  const effect =
+    shape.effect === 'glow'
+      ? `<feGaussianBlur stdDeviation="${deviation}"/>` +
+        '<feMerge><feMergeNode/><feMergeNode in="SourceGraphic"/></feMerge>'
+      : `<feDropShadow dx="0" dy="${deviation}" stdDeviation="${deviation}" ` +
+        'flood-color="#000" flood-opacity="0.5"/>';
+  return [
+    `<filter id="${id}" x="-100%" y="-100%" width="300%" height="300%">${effect}</filter>`,
+  ];
+}
+
+/**
+ * Creates the shape element of a symbol from the shared path (see shapes.ts).
+ * Fill and stroke are drawn by a single element, which matches the
+ * canvas order (fill first, then stroke); the 'double' stroke style adds
+ * a second, unfilled outline.
+ */
+function createShapeElement(
+  symbol: SymbolData,
+  shape: Config['shape'],
+  built: BuiltShape | null,
+  filterId: string
+): string {
+  if (!built) {
+    return '';
+  }
+  const { strokeWidth, strokeStyle } = shape;
+
+  const dash = getDashPattern(shape);
+  const stroke =
+    strokeWidth > 0
+      ? ` stroke="${escapeAttribute(symbol.shapeStrokeColor)}" ` +
+        `stroke-opacity="${num(symbol.shapeStrokeOpacity)}" ` +
+        `stroke-width="${num(strokeWidth)}"` +
+        (dash.length > 0 ? ` stroke-dasharray="${dash.map(num).join(' ')}"` : '') +
+        (strokeStyle === 'dotted' ? ' stroke-linecap="round"' : '')
+      : '';
+  const filter = shape.effect !== 'none' ? ` filter="url(#${filterId})"` : '';
+
+  let element =
+    `<path d="${toSvgPathData(built.path, symbol.x, symbol.y, num)}" ` +
+    `fill="${escapeAttribute(symbol.shapeColor)}" ` +
+    `fill-opacity="${num(symbol.shapeFillOpacity)}"` +
+    (built.fillRule === 'evenodd' ? ' fill-rule="evenodd"' : '') +
+    `${stroke}${filter}/>`;
+  if (strokeWidth > 0 && strokeStyle === 'double') {
+    const scale = getDoubleStrokeScale(shape);
+    element +=
+      `<path d="${toSvgPathData(built.path, symbol.x, symbol.y, num, scale)}" ` +
+      `fill="none"${stroke}${filter}/>`;
+  }
+  return element;
+}
+
+/**
+ * Uploaded SVG icons and their tints. Every used icon is embedded once and
+ * placed via <use>; the tint filters paint it in the color of the symbol.
+ */
+class SvgIconDefs {
+  private svgs: string[];
+  private used = new Set<number>();
+  private tints = new Map<string, string>();
+
+  constructor(svgs: string[]) {
+    this.svgs = svgs;
+  }
+
+  public getIconId(svgIndex: number): string {
+    this.used.add(svgIndex);
+    return `icon-svg-${svgIndex}`;
+  }
+
+  public getTintId(color: string): string {
+    let id = this.tints.get(color);
+    if (!id) {
+      id = `tint-${this.tints.size}`;
+      this.tints.set(color, id);
+    }
+    return id;
+  }
+
+  public toElements(): string[] {
+    const icons = [...this.used].map(
+      (index) =>
+        `<image id="icon-svg-${index}" width="1" height="1" ` +
+        `href="data:image/svg+xml;charset=utf-8,${escapeAttribute(encodeURIComponent(this.svgs[index]))}"/>`
+    );
+    const tints = [...this.tints].map(
+      ([color, id]) =>
+        `<filter id="${id}" x="0" y="0" width="1" height="1" color-interpolation-filters="sRGB">` +
+        `<feFlood flood-color="${escapeAttribute(color)}"/>` +
+        '<feComposite in2="SourceGraphic" operator="in"/></filter>'
+    );
+    return [...icons, ...tints];
+  }
+}
+
+function createIconElement(
+  symbol: SymbolData,
+  icon: Icon,
+  fontSize: number,
+  svgIcons: SvgIconDefs
+): string {
+  if (icon.svgIndex >= 0) {
+    return (
+      `<use href="#${svgIcons.getIconId(icon.svgIndex)}" ` +
+      `transform="translate(${num(symbol.x - fontSize / 2)} ${num(symbol.y - fontSize / 2)}) scale(${num(fontSize)})" ` +
+      `filter="url(#${svgIcons.getTintId(symbol.iconColor)})" ` +
+      `opacity="${num(symbol.iconOpacity)}"/>`
+    );
+  }
+  // Font Awesome is the font of the group; other sources name their own
+  const font = icon.key.startsWith('fa:')
+    ? ''
+    : `font-family="${escapeAttribute(icon.fontFamily)}" font-weight="${icon.fontWeight}" `;
+  return (
+    `<text x="${num(symbol.x)}" y="${num(symbol.y)}" ${font}` +
+    `fill="${escapeAttribute(symbol.iconColor)}" ` +
+    `fill-opacity="${num(symbol.iconOpacity)}">${escapeGlyph(icon.text)}</text>`
+  );
+}
+
+/** Opacity and blend mode of a layer; nothing for opaque layers in normal mode */
+function getLayerAttributes(layer: Layer): string {
+  return (
+    (layer.opacity !== 1 ? ` opacity="${num(layer.opacity)}"` : '') +
+    (layer.blendMode !== 'normal' ? ` style="mix-blend-mode:${layer.blendMode}"` : '')
+  );
+}
+
+function createStops(stops: GradientStop[]): string {
+  return stops
+    .map(
+      (stop) =>
+        `<stop offset="${num(stop.offset)}" stop-color="${escapeAttribute(stop.color)}"` +
+        (stop.color === 'transparent' ? ' stop-opacity="0"' : '') +
+        '/>'
+    )
+    .join('');
+}
+
+/**
+ * A background layer as one rectangle, with its gradient or filter.
+ * Noise uses an SVG turbulence filter: grain of the same color and strength,
+ * but not the same pixels as the canvas.
+ */
+function createBackgroundLayer(
+  layer: Layer,
+  layerIndex: number,
+  config: Config,
+  width: number,
+  height: number
+): { defs: string[]; element: string } {
+  const id = `layer-${layerIndex}`;
+  const colors = getLayerColors(layer, config);
+  const rect = (fill: string, filter = '') =>
+    `<rect width="${width}" height="${height}" fill="${fill}"${filter}${getLayerAttributes(layer)}/>`;
+  const center = `cx="${num(width / 2)}" cy="${num(height / 2)}" r="${num(getCornerRadius(width, height))}"`;
+
+  switch (layer.type) {
+    case 'linear-gradient': {
+      const { x1, y1, x2, y2 } = getLinearGradientLine(layer.angle, width, height);
+      return {
+        defs: [
+          `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" ` +
+            `x1="${num(x1)}" y1="${num(y1)}" x2="${num(x2)}" y2="${num(y2)}">` +
+            `${createStops(getGradientStops(colors))}</linearGradient>`,
+        ],
+        element: rect(`url(#${id})`),
+      };
+    }
+    case 'radial-gradient':
+      return {
+        defs: [
+          `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" ${center}>` +
+            `${createStops(getGradientStops(colors))}</radialGradient>`,
+        ],
+        element: rect(`url(#${id})`),
+      };
+    case 'vignette': {
+      // The canvas gradient starts at an inner circle; here the first stop moves out instead
+      const start = getVignetteStart(layer.amount, width, height) / getCornerRadius(width, height);
+      return {
+        defs: [
+          `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" ${center}>` +
+            createStops([
+              { offset: start, color: 'transparent' },
+              { offset: 1, color: colors[0] },
+            ]) +
+            '</radialGradient>',
+        ],
+        element: rect(`url(#${id})`),
+      };
+    }
+    case 'noise': {
+      const [red, green, blue] = chroma(colors[0]).gl();
+      const amount = Math.min(1, Math.max(0, layer.amount));
+      return {
+        defs: [
+          `<filter id="${id}" x="0" y="0" width="1" height="1" color-interpolation-filters="sRGB">` +
+            `<feTurbulence type="fractalNoise" baseFrequency="0.8" seed="${layer.seedOffset}"/>` +
+            `<feColorMatrix type="matrix" values="0 0 0 0 ${num(red)} 0 0 0 0 ${num(green)} ` +
+            `0 0 0 0 ${num(blue)} ${num(amount)} 0 0 0 0"/></filter>`,
+        ],
+        element: rect('#000', ` filter="url(#${id})"`),
+      };
+    }
+    default:
+      return { defs: [], element: rect(escapeAttribute(colors[0])) };
+  }
+}
+
+/** The symbol elements of one grid */
+function createSymbolLines(
+  grid: Grid,
+  config: Config,
+  svgIcons: SvgIconDefs,
+  filterId: string
+): string[] {
+  const { fontSize } = config.symbols;
+  const icons = resolveIcons(config.symbols);
+  const shape = buildShape(config.shape);
+  const symbolLines: string[] = [];
+  for (const row of grid) {
+    if (row) {
+      for (const symbol of row) {
+        if (symbol) {
+          const x = symbol.x + symbol.offsetX;
+          const y = symbol.y + symbol.offsetY;
+          const draw = (placed: SymbolData) =>
+            createShapeElement(placed, config.shape, shape, filterId) +
+            createIconElement(placed, icons[symbol.icon], fontSize, svgIcons);
+          if (isUntransformed(symbol)) {
+            symbolLines.push(draw({ ...symbol, x, y }));
+          } else {
+            // Rotated or scaled symbols are drawn around the origin of a group
+            const degrees = (symbol.rotation * 180) / Math.PI;
+            symbolLines.push(
+              `<g transform="translate(${num(x)} ${num(y)}) rotate(${num(degrees)}) scale(${num(symbol.scale)})">` +
+                draw({ ...symbol, x: 0, y: 0 }) +
+                '</g>'
+            );
+          }
+        }
+      }
+    }
+  }
+  return symbolLines;
+}
+
+/**
+ * Converts the layers into an SVG document.
+ * Produces the same picture as the canvas renderer, but as real vector
+ * elements that stay sharp at any scale. 'grids' holds the grid of every
+ * layer by index (see generateLayerGrids).
+ */
+export function createSvg(
+  grids: Grid[],
+  config: Config,
+  width: number,
+  height: number
+): string {
+  // Icon sources are shared by all layers, and so are the embedded SVG icons
+  const svgIcons = new SvgIconDefs(getSvgIcons(config.symbols));
+  const defs: string[] = [];
+  let body: string[] = [];
+
+  config.layers.forEach((layer, i) => {
+    if (!isLayerShown(config.layers, layer)) {
+      return;
+    }
+    if (!isGridLayer(layer)) {
+      const background = createBackgroundLayer(layer, i, config, width, height);
+      defs.push(...background.defs);
+      body.push(background.element);
+      return;
+    }
+    const layerConfig = getLayerConfig(config, layer);
+    const filterId = getEffectFilterId(i);
+    defs.push(...createEffectFilter(layerConfig.shape, filterId));
+    body.push(
+      `<g clip-path="url(#${CLIP_PATH_ID})" font-family="'${ICON_FONT_FAMILY}'" font-weight="900" ` +
+        `font-size="${num(layerConfig.symbols.fontSize)}" text-anchor="middle" dominant-baseline="central"` +
+        `${getLayerAttributes(layer)}>`
+    );
+    // Concatenated, because spreading huge grids into push() overflows the stack
+    body = body.concat(createSymbolLines(grids[i] ?? [], layerConfig, svgIcons, filterId));
+    body.push('</g>');
+  });
+
+  const lines = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    '<defs>',
+    `<style>@font-face{font-family:"${ICON_FONT_FAMILY}";font-style:normal;font-weight:900;src:url("${ICON_FONT_URL}") format("woff2");}</style>`,
+    `<clipPath id="${CLIP_PATH_ID}"><rect width="${width}" height="${height}"/></clipPath>`,
+    ...svgIcons.toElements(),
+    ...defs,
+    '</defs>',
+  ];
+  return [...lines, ...body, '</svg>'].join('\n');
+}
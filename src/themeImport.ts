@@ -0,0 +1,348 @@
+import chroma from 'chroma-js';
+import type { ColorScheme } from './palettes';
+
+/**
+ * Reads editor and terminal color themes and maps them onto Config.colors.
+ * Supported: VS Code color themes, iTerm2 '.itermcolors', Windows Terminal
+ * schemes and Xresources. Everything runs client-side on the file content.
+ */
+
+export type ThemeFormat = 'vscode' | 'iterm2' | 'windows-terminal' | 'xresources';
+
+/** Common intermediate form of all theme formats */
+export interface ParsedTheme {
+  format: ThemeFormat;
+  name: string;
+  background: string;
+  foreground?: string;
+  /** The 16 ANSI colors (0-7 normal, 8-15 bright); missing entries are undefined */
+  ansi: (string | undefined)[];
+  /** Further accent colors, used if the theme has no ANSI colors */
+  accents: string[];
+}
+
+export interface ImportedTheme {
+  theme: ParsedTheme;
+  colors: ColorScheme;
+}
+
+/** Thrown if a file is no supported theme or misses required colors */
+export class ThemeImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ThemeImportError';
+  }
+}
+
+/** ANSI indices of red, green, yellow, blue, magenta and cyan */
+const ACCENT_ANSI_INDICES = [1, 2, 3, 4, 5, 6];
+const BRIGHT_OFFSET = 8;
+
+/** Colors closer to the background than this (CIEDE2000) would not stand out */
+const MIN_BACKGROUND_DISTANCE = 15;
+
+const ANSI_NAMES = ['black', 'red', 'green', 'yellow', 'blue', 'magenta', 'cyan', 'white'];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Returns the color as '#rrggbb' or undefined if it is no valid color */
+function normalizeColor(value: unknown): string | undefined {
+  if (typeof value !== 'string' || !chroma.valid(value)) {
+    return undefined;
+  }
+  // Drop the alpha channel of '#rrggbbaa' values (common in VS Code themes)
+  return chroma(value).hex('rgb');
+}
+
+function capitalize(text: string): string {
+  return text[0].toUpperCase() + text.slice(1);
+}
+
+function fileBaseName(fileName: string): string {
+  return fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]*$/, '');
+}
+
+/**
+ * Removes comments and trailing commas (JSONC, as used by VS Code and
+ * Windows Terminal) without touching string contents.
+ */
+function parseJsonc(text: string): unknown {
+  let result = '';
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      result += char;
+      if (char === '\\') {
+        result += text[++i] ?? '';
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      result += '\n';
+    } else if (char === '/' && text[i + 1] === '*') {
+      i = text.indexOf('*/', i + 2);
+      if (i < 0) break;
+      i++;
+    } else {
+      result += char;
+    }
+  }
+  return JSON.parse(result.replace(/,(\s*[}\]])/g, '$1'));
+}
+
+function parseVsCodeTheme(json: Record<string, unknown>, fallbackName: string): ParsedTheme {
+  const colors = isPlainObject(json.colors) ? json.colors : {};
+  const background = normalizeColor(colors['editor.background']);
+  if (!background) {
+    throw new ThemeImportError('The VS Code theme has no "editor.background" color.');
+  }
+
+  const ansi = ['', 'Bright'].flatMap((variant) =>
+    ANSI_NAMES.map((name) =>
+      normalizeColor(colors[`terminal.ansi${variant}${capitalize(name)}`])
+    )
+  );
+
+  // Syntax colors serve as accents for themes without terminal colors
+  const accents: string[] = [];
+  if (Array.isArray(json.tokenColors)) {
+    for (const token of json.tokenColors) {
+      const color =
+        isPlainObject(token) && isPlainObject(token.settings)
+          ? normalizeColor(token.settings.foreground)
+          : undefined;
+      if (color) {
+        accents.push(color);
+      }
+    }
+  }
+
+  return {
+    format: 'vscode',
+    name: typeof json.name === 'string' ? json.name : fallbackName,
+    background,
+    foreground: normalizeColor(colors['editor.foreground']),
+    ansi,
+    accents,
+  };
+}
+
+function parseWindowsTerminalScheme(
+  json: Record<string, unknown>,
+  fallbackName: string
+): ParsedTheme {
+  // A whole settings.json contains a list of schemes; use the first one
+  const scheme =
+    Array.isArray(json.schemes) && isPlainObject(json.schemes[0])
+      ? json.schemes[0]
+      : json;
+  const background = normalizeColor(scheme.background);
+  if (!background) {
+    throw new ThemeImportError('The Windows Terminal scheme has no "background" color.');
+  }
+
+  // Windows Terminal calls magenta 'purple'
+  const names = ANSI_NAMES.map((name) => (name === 'magenta' ? 'purple' : name));
+  const ansi = [
+    ...names.map((name) => normalizeColor(scheme[name])),
+    ...names.map(
+      (name) => normalizeColor(scheme[`bright${capitalize(name)}`])
+    ),
+  ];
+
+  return {
+    format: 'windows-terminal',
+    name: typeof scheme.name === 'string' ? scheme.name : fallbackName,
+    background,
+    foreground: normalizeColor(scheme.foreground),
+    ansi,
+    accents: [],
+  };
+}
+
+/**
+ * Parses the color dictionaries of an '.itermcolors' property list.
+ * Color components are stored as floats between 0 and 1.
+ */
+function parseItermColors(text: string, fallbackName: string): ParsedTheme {
+  const colors: Record<string, string> = {};
+  const entryPattern = /<key>([^<]+)<\/key>\s*<dict>([\s\S]*?)<\/dict>/g;
+  for (const [, key, body] of text.matchAll(entryPattern)) {
+    const component = (name: string) => {
+      const match = body.match(
+        new RegExp(`<key>${name} Component</key>\\s*<(?:real|integer)>([^<]+)<`)
+      );
+      return match ? Math.min(1, Math.max(0, parseFloat(match[1]))) : 0;
+    };
+    colors[key.trim()] = chroma
+      .gl(component('Red'), component('Green'), component('Blue'))
+      .hex('rgb');
+  }
+
+  const background = colors['Background Color'];
+  if (!background) {
+    throw new ThemeImportError('The iTerm2 color file has no "Background Color".');
+  }
+  return {
+    format: 'iterm2',
+    name: fallbackName,
+    background,
+    foreground: colors['Foreground Color'],
+    ansi: Array.from({ length: 16 }, (_, i) => colors[`Ansi ${i} Color`]),
+    accents: [],
+  };
+}
+
+/**
+ * Parses Xresources entries like '*.color1: #cc241d' or 'URxvt*background: #282828'.
+ * Values defined via '#define' are resolved.
+ */
+function parseXresources(text: string, fallbackName: string): ParsedTheme {
+  const defines: Record<string, string> = {};
+  const resources: Record<string, string> = {};
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const define = line.match(/^#define\s+(\S+)\s+(\S+)/);
+    if (define) {
+      defines[define[1]] = define[2];
+      continue;
+    }
+    // '!' starts a comment, other '#' lines are preprocessor directives
+    if (line.startsWith('!') || line.startsWith('#')) {
+      continue;
+    }
+    const entry = line.match(/^[\w.*-]*?[.*]?(background|foreground|color\d{1,2})\s*:\s*(\S+)/i);
+    if (entry) {
+      resources[entry[1].toLowerCase()] = defines[entry[2]] ?? entry[2];
+    }
+  }
+
+  const background = normalizeColor(resources.background);
+  if (!background) {
+    throw new ThemeImportError('The Xresources file has no "background" entry.');
+  }
+  return {
+    format: 'xresources',
+    name: fallbackName,
+    background,
+    foreground: normalizeColor(resources.foreground),
+    ansi: Array.from({ length: 16 }, (_, i) => normalizeColor(resources[`color${i}`])),
+    accents: [],
+  };
+}
+
+/**
+ * Detects the format of a theme file by its name and content and parses it.
+ * @throws ThemeImportError if the format is not supported
+ */
+export function parseThemeFile(fileName: string, text: string): ParsedTheme {
+  const name = fileBaseName(fileName);
+
+  if (/\.itermcolors$/i.test(fileName) || text.includes('<plist')) {
+    return parseItermColors(text, name);
+  }
+
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    let json: unknown;
+    try {
+      json = parseJsonc(trimmed);
+    } catch (error) {
+      throw new ThemeImportError(`The file is not valid JSON: ${(error as Error).message}`);
+    }
+    if (!isPlainObject(json)) {
+      throw new ThemeImportError('The JSON file does not contain a theme object.');
+    }
+    if (isPlainObject(json.colors) || Array.isArray(json.tokenColors)) {
+      return parseVsCodeTheme(json, name);
+    }
+    if (Array.isArray(json.schemes) || ('background' in json && 'brightBlack' in json)) {
+      return parseWindowsTerminalScheme(json, name);
+    }
+    throw new ThemeImportError(
+      'Unknown JSON theme. Expected a VS Code color theme or a Windows Terminal scheme.'
+    );
+  }
+
+  if (/^\s*[\w.*-]*(background|color\d{1,2})\s*:/im.test(text)) {
+    return parseXresources(text, name);
+  }
+
+  throw new ThemeImportError(
+    'Unsupported file. Expected a VS Code theme (.json), iTerm2 colors (.itermcolors), ' +
+      'a Windows Terminal scheme (.json) or Xresources.'
+  );
+}
+
+/** Adds colors that are valid, not yet contained and visible on the background */
+function collectColors(target: string[], colors: (string | undefined)[], background: string): void {
+  for (const color of colors) {
+    if (
+      color &&
+      !target.includes(color) &&
+      chroma.deltaE(color, background) >= MIN_BACKGROUND_DISTANCE
+    ) {
+      target.push(color);
+    }
+  }
+}
+
+/**
+ * Maps a parsed theme onto the color configuration:
+ * - background from the editor/terminal background
+ * - palette from the ANSI accent colors (bright variants or syntax colors as fallback)
+ * - pale shapes and icons derived from background and foreground
+ */
+export function mapThemeToColors(theme: ParsedTheme): ColorScheme {
+  const { background } = theme;
+  // Dark if white text would be easier to read on it than black; mid-tones look light
+  const isDark = chroma.contrast(background, '#ffffff') > chroma.contrast(background, '#000000');
+  const foreground = theme.foreground ?? (isDark ? '#ffffff' : '#000000');
+
+  const palette: string[] = [];
+  collectColors(palette, ACCENT_ANSI_INDICES.map((i) => theme.ansi[i]), background);
+  if (palette.length < 3) {
+    collectColors(
+      palette,
+      ACCENT_ANSI_INDICES.map((i) => theme.ansi[i + BRIGHT_OFFSET]),
+      background
+    );
+  }
+  if (palette.length < 3) {
+    collectColors(palette, theme.accents, background);
+  }
+  if (palette.length === 0) {
+    throw new ThemeImportError(
+      'The theme has no accent colors that stand out from its background.'
+    );
+  }
+
+  const paleShape = chroma.mix(background, foreground, 0.15, 'lab').hex();
+  return {
+    background,
+    // Pale icons are almost invisible anyway; like the presets, dark themes use black
+    defaultIconColor: isDark ? '#000000' : chroma.mix(background, foreground, 0.8, 'lab').hex(),
+    // "Punched-out" look: icons in colored bubbles take the background color
+    coloredIconColor: background,
+    defaultShapeFillColor: paleShape,
+    defaultShapeStrokeColor: paleShape,
+    palette: palette.slice(0, 8),
+  };
+}
+
+/**
+ * Parses a theme file and maps it onto the color configuration.
+ * @throws ThemeImportError if the file cannot be used
+ */
+export function importThemeFile(fileName: string, text: string): ImportedTheme {
+  const theme = parseThemeFile(fileName, text);
+  return { theme, colors: mapThemeToColors(theme) };
+}
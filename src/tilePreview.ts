@@ -0,0 +1,55 @@
+/** Number of copies per row and column */
+const TILES = 3;
+
+/**
+ * 3×3 preview of the wallpaper, to check a tileable wallpaper for seams.
+ * The preview canvas replaces the normal canvas while it is switched on
+ * and has the same size, so the copies are shown at a third of the size.
+ */
+export class TilePreview {
+  private source: HTMLCanvasElement;
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private enabled = false;
+
+  constructor(source: HTMLCanvasElement) {
+    this.source = source;
+    this.canvas = document.getElementById('tile-preview-canvas') as HTMLCanvasElement;
+    this.ctx = this.canvas.getContext('2d')!;
+
+    const tilePreviewInput = document.getElementById('tilePreview') as HTMLInputElement;
+    tilePreviewInput.addEventListener('change', () => {
+      this.enabled = tilePreviewInput.checked;
+      this.source.hidden = this.enabled;
+      this.canvas.hidden = !this.enabled;
+      this.update();
+    });
+  }
+
+  /** Copies the current wallpaper into the preview; call after every redraw */
+  public update(): void {
+    if (!this.enabled) {
+      return;
+    }
+    const { width, height } = this.source;
+    // Same pixel and display size as the wallpaper canvas
+    this.canvas.width = width;
+    this.canvas.height = height;
+    this.canvas.style.width = this.source.style.width;
+    this.canvas.style.height = this.source.style.height;
+
+    const tileWidth = width / TILES;
+    const tileHeight = height / TILES;
+    for (let row = 0; row < TILES; row++) {
+      for (let col = 0; col < TILES; col++) {
+        this.ctx.drawImage(
+          this.source,
+          col * tileWidth,
+          row * tileHeight,
+          tileWidth,
+          tileHeight
+        );
+      }
+    }
+  }
+}
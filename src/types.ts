@@ -0,0 +1,44 @@
+/**
+ * Data types shared by the generator and the different renderers.
+ */
+
+// Interface for a single symbol in the grid
+export interface SymbolData {
+  /** Index of the icon in the list of resolveIcons() */
+  icon: number;
+  x: number;
+  y: number;
+  iconColor: string;
+  shapeColor: string;
+  shapeStrokeColor: string;
+  iconOpacity: number;
+  shapeFillOpacity: number;
+  shapeStrokeOpacity: number;
+  /** Rotation in radians around the symbol center (see config.jitter) */
+  rotation: number;
+  /** Size factor of icon and shape */
+  scale: number;
+  /** Offset of the drawn symbol from its grid position */
+  offsetX: number;
+  offsetY: number;
+  /** Index of the cluster that colored this symbol, null for pale symbols */
+  clusterIndex: number | null;
+  /** Colored because it lies inside the mask (see Config.mask) */
+  masked: boolean;
+  // isColored is no longer needed since we use 'null'
+}
+
+// Interface for a cluster center
+export interface ClusterCenter {
+  x: number;
+  y: number;
+  color: string;
+  /**
+   * Random value in [0, 1) that picks the color from the palette.
+   * Kept, so a changed palette recolors the cluster without moving it.
+   */
+  colorPick: number;
+}
+
+/** The grid can have 'null' entries if bubbles are removed due to density */
+export type Grid = (SymbolData | null)[][];
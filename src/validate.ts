@@ -0,0 +1,443 @@
+import chroma from 'chroma-js';
+import { CONFIG, type Config } from './config';
+import { CLUSTER_MOTIONS } from './animation';
+import { BLEND_COLOR_SPACES, BLEND_MODES, FALLOFF_CURVES } from './blending';
+import { CLUSTER_PLACEMENTS, DEFAULT_EDITED_CLUSTER } from './clusterPlacement';
+import { ICON_COLOR_MODES } from './contrast';
+import { DEFAULT_ICON_SOURCE, ICON_SOURCE_TYPES, isHexCodepoint } from './icons';
+import { ROTATION_MODES } from './jitter';
+import { DEFAULT_LAYER, LAYER_BLEND_MODES, LAYER_TYPES, SHARED_LAYER_FIELDS } from './layers';
+import { GRID_LAYOUTS } from './layouts';
+import { MASK_CHANNELS, MASK_COLOR_SOURCES, MASK_TYPES } from './mask';
+import { CELL_STATES, DEFAULT_LOCKED_CELL } from './paint';
+import { SHAPE_EFFECTS, SHAPE_TYPES, STROKE_STYLES } from './shapes';
+import { DEFAULT_ZONE } from './zones';
+
+/**
+ * Validation of configurations coming from outside (JSON files, CLI).
+ * The default configuration serves as the schema: every field must have
+ * the same type as its default, and missing fields are filled from it.
+ */
+
+/**
+ * Thrown if a configuration contains invalid fields.
+ * Collects all problems, so they can be fixed in one go.
+ */
+export class ConfigValidationError extends Error {
+  public readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(
+      `Invalid configuration:\n${errors.map((error) => `  - ${error}`).join('\n')}`
+    );
+    this.name = 'ConfigValidationError';
+    this.errors = errors;
+  }
+}
+
+interface NumberRule {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+/**
+ * Allowed ranges of numeric fields, addressed by their path.
+ * Paths of rules leave out list indices, e.g. 'symbols.sources.fontWeight'.
+ */
+const NUMBER_RULES: Record<string, NumberRule> = {
+  'canvasSize.width': { min: 1, integer: true },
+  'canvasSize.height': { min: 1, integer: true },
+  'canvasSize.exportScale': { min: 0.1, max: 16 },
+  'grid.spacingX': { min: 1 },
+  'grid.spacingY': { min: 1 },
+  'grid.minDistance': { min: 1 },
+  'symbols.fontSize': { min: 1 },
+  'symbols.adjacentPenalty': { min: 0, max: 1 },
+  'symbols.defaultIconOpacity': { min: 0, max: 1 },
+  'symbols.density': { min: 0, max: 1 },
+  'symbols.sources.fontWeight': { min: 1, max: 1000, integer: true },
+  'clustering.count': { min: 0, integer: true },
+  'clustering.minSeparation': { min: 0 },
+  'clustering.maxRadius': { min: 1 },
+  'clustering.coloredOpacity': { min: 0, max: 1 },
+  'clustering.dimmingFactor': { min: 0 },
+  'clustering.minDimOpacity': { min: 0, max: 1 },
+  'iconColors.shadeAmount': { min: 0, max: 5 },
+  'shape.corners': { min: 0, integer: true },
+  'shape.radius': { min: 0 },
+  'shape.rounding': { min: 0, max: 1 },
+  'shape.innerRadius': { min: 0, max: 1 },
+  'shape.fillOpacity': { min: 0, max: 1 },
+  'shape.strokeWidth': { min: 0 },
+  'shape.strokeOpacity': { min: 0, max: 1 },
+  'shape.effectSize': { min: 0, max: 100 },
+  'jitter.rotationRange': { min: 0, max: 180 },
+  'jitter.scale': { min: 0, max: 0.9 },
+  'jitter.clusterSwell': { min: 0, max: 3 },
+  'jitter.position': { min: 0, max: 0.5 },
+  'layers.opacity': { min: 0, max: 1 },
+  'layers.amount': { min: 0, max: 1 },
+  'layers.seedOffset': { min: 0, integer: true },
+  'mask.fontWeight': { min: 1, max: 1000, integer: true },
+  'mask.scale': { min: 0.01, max: 10 },
+  'mask.x': { min: 0, max: 1 },
+  'mask.y': { min: 0, max: 1 },
+  'mask.threshold': { min: 0, max: 1 },
+  'mask.feather': { min: 0 },
+  'zones.x': { min: 0, max: 1 },
+  'zones.y': { min: 0, max: 1 },
+  'zones.width': { min: 0, max: 1 },
+  'zones.height': { min: 0, max: 1 },
+  'zones.density': { min: 0, max: 1 },
+  'zones.opacity': { min: 0, max: 1 },
+  'animation.amplitude': { min: 0 },
+  'animation.duration': { min: 0.5, max: 60 },
+  'animation.fps': { min: 1, max: 60, integer: true },
+  'animation.iconSwap': { min: 0, max: 1 },
+  'editedClusters.x': { min: 0, max: 1 },
+  'editedClusters.y': { min: 0, max: 1 },
+  'editedClusters.color': { min: 0, integer: true },
+  'lockedCells.slot': { min: -1, integer: true },
+  'lockedCells.color': { min: 0, integer: true },
+};
+
+interface StringRule {
+  test: (value: string) => boolean;
+  description: string;
+}
+
+const COLOR_RULE: StringRule = {
+  test: (value) => chroma.valid(value),
+  description: 'a CSS color like "#F92672"',
+};
+
+const WEIGHT_RULE: StringRule = {
+  test: (value) => Number(value) >= 0,
+  description: 'a weight of 0 or more',
+};
+
+/** Checks of further single string fields */
+const STRING_RULES: Record<string, StringRule> = {
+  'iconColors.lightColor': COLOR_RULE,
+  'iconColors.darkColor': COLOR_RULE,
+  'mask.color': COLOR_RULE,
+  'mask.image': {
+    test: (value) => value === '' || /^data:image\/(png|svg\+xml)[;,]/.test(value),
+    description: 'a PNG or SVG data URL like "data:image/png;base64,..."',
+  },
+};
+
+/** Extra checks for the entries of lists, addressed by their path */
+const LIST_RULES: Record<string, StringRule> = {
+  'symbols.list': {
+    test: isHexCodepoint,
+    description: 'a hex codepoint like "f0ca"',
+  },
+  'symbols.listWeights': WEIGHT_RULE,
+  'symbols.sources.weights': WEIGHT_RULE,
+  'colors.palette': COLOR_RULE,
+  'layers.colors': COLOR_RULE,
+};
+
+/**
+ * Entry of the lists that are empty by default or hold objects.
+ * Their entries are checked against it like against a default.
+ */
+const LIST_ITEMS: Record<string, unknown> = {
+  'symbols.listWeights': 1,
+  'symbols.sources': DEFAULT_ICON_SOURCE,
+  'symbols.sources.icons': '',
+  'symbols.sources.weights': 1,
+  layers: DEFAULT_LAYER,
+  'layers.colors': '',
+  zones: DEFAULT_ZONE,
+  editedClusters: DEFAULT_EDITED_CLUSTER,
+  lockedCells: DEFAULT_LOCKED_CELL,
+};
+
+/**
+ * Objects that only hold some fields of their schema, like the overrides
+ * of grid layers. The given fields are checked, missing ones stay missing.
+ */
+const PARTIAL_OBJECTS: Record<string, unknown> = {
+  'layers.config': CONFIG,
+};
+
+/** Allowed values of string fields with a fixed set of options */
+const ENUM_RULES: Record<string, readonly string[]> = {
+  'grid.layout': GRID_LAYOUTS,
+  'clustering.placement': CLUSTER_PLACEMENTS,
+  'clustering.blendMode': BLEND_MODES,
+  'clustering.blendColorSpace': BLEND_COLOR_SPACES,
+  'clustering.falloff': FALLOFF_CURVES,
+  'iconColors.mode': ICON_COLOR_MODES,
+  'symbols.sources.type': ICON_SOURCE_TYPES,
+  'jitter.rotation': ROTATION_MODES,
+  'layers.type': LAYER_TYPES,
+  'layers.blendMode': LAYER_BLEND_MODES,
+  'shape.type': SHAPE_TYPES,
+  'shape.strokeStyle': STROKE_STYLES,
+  'shape.effect': SHAPE_EFFECTS,
+  'mask.type': MASK_TYPES,
+  'mask.channel': MASK_CHANNELS,
+  'mask.colorSource': MASK_COLOR_SOURCES,
+  'animation.motion': CLUSTER_MOTIONS,
+  'lockedCells.state': CELL_STATES,
+};
+
+/** Checks for single string fields; every field in 'colors' is a color */
+function getStringRule(path: string): StringRule | undefined {
+  const allowed = ENUM_RULES[path];
+  if (allowed) {
+    return {
+      test: (value) => allowed.includes(value),
+      description: `one of ${allowed.map((value) => `"${value}"`).join(', ')}`,
+    };
+  }
+  return path.startsWith('colors.') ? COLOR_RULE : STRING_RULES[path];
+}
+
+/** Lists that need at least one entry to generate anything */
+const NON_EMPTY_LISTS = ['colors.palette'];
+
+/**
+ * Path of the rules for a field: list indices are left out, and the
+ * overrides of grid layers follow the rules of the main settings
+ */
+function getRulePath(path: string): string {
+  return path.replace(/\[\d+\]/g, '').replace(/^layers\.config\./, '');
+}
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'an array';
+  }
+  if (typeof value === 'object') {
+    return 'an object';
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  return JSON.stringify(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateNumber(value: number, path: string, errors: string[]): void {
+  const rule = NUMBER_RULES[getRulePath(path)];
+  if (!rule) {
+    return;
+  }
+  if (rule.integer && !Number.isInteger(value)) {
+    errors.push(`${path}: expected an integer, got ${value}`);
+  }
+  if (rule.min !== undefined && value < rule.min) {
+    errors.push(`${path}: must be at least ${rule.min}, got ${value}`);
+  }
+  if (rule.max !== undefined && value > rule.max) {
+    errors.push(`${path}: must be at most ${rule.max}, got ${value}`);
+  }
+}
+
+function validateList(
+  value: unknown[],
+  fallback: unknown[],
+  path: string,
+  errors: string[]
+): unknown[] {
+  const rulePath = getRulePath(path);
+  if (NON_EMPTY_LISTS.includes(rulePath) && value.length === 0) {
+    errors.push(`${path}: must contain at least one entry`);
+  }
+  const item = rulePath in LIST_ITEMS ? LIST_ITEMS[rulePath] : fallback[0];
+  if (isPlainObject(item)) {
+    return value.map((entry, i) => mergeValue(entry, item, `${path}[${i}]`, errors));
+  }
+  const itemType = typeof item;
+  const rule = LIST_RULES[rulePath];
+  value.forEach((entry, i) => {
+    if (typeof entry !== itemType) {
+      errors.push(`${path}[${i}]: expected a ${itemType}, got ${describe(entry)}`);
+    } else if (rule && !rule.test(String(entry))) {
+      errors.push(`${path}[${i}]: expected ${rule.description}, got ${describe(entry)}`);
+    }
+  });
+  return [...value];
+}
+
+/**
+ * Checks the fields of a partial object against its schema.
+ * Unlike mergeValue, missing fields are not filled in.
+ */
+function validatePartial(
+  value: unknown,
+  schema: unknown,
+  path: string,
+  errors: string[]
+): Record<string, unknown> {
+  if (!isPlainObject(value)) {
+    errors.push(`${path}: expected an object, got ${describe(value)}`);
+    return {};
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    const schemaValue = isPlainObject(schema) ? schema[key] : undefined;
+    if (schemaValue === undefined) {
+      errors.push(`${path}.${key}: unknown field`);
+    } else if (isPlainObject(schemaValue)) {
+      result[key] = validatePartial(entry, schemaValue, `${path}.${key}`, errors);
+    } else {
+      result[key] = mergeValue(entry, schemaValue, `${path}.${key}`, errors);
+    }
+  }
+  return result;
+}
+
+/**
+ * Recursively merges a value onto its default.
+ * Problems are collected in 'errors'; the default is used in their place.
+ */
+function mergeValue(
+  value: unknown,
+  fallback: unknown,
+  path: string,
+  errors: string[]
+): unknown {
+  if (value === undefined) {
+    return structuredClone(fallback);
+  }
+
+  const partialSchema = PARTIAL_OBJECTS[getRulePath(path)];
+  if (partialSchema) {
+    return validatePartial(value, partialSchema, path, errors);
+  }
+
+  if (Array.isArray(fallback)) {
+    if (!Array.isArray(value)) {
+      errors.push(`${path}: expected an array, got ${describe(value)}`);
+      return structuredClone(fallback);
+    }
+    return validateList(value, fallback, path, errors);
+  }
+
+  if (isPlainObject(fallback)) {
+    if (!isPlainObject(value)) {
+      errors.push(`${path || 'config'}: expected an object, got ${describe(value)}`);
+      return structuredClone(fallback);
+    }
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(value)) {
+      if (!(key in fallback)) {
+        errors.push(`${path ? `${path}.` : ''}${key}: unknown field`);
+      }
+    }
+    for (const [key, fallbackValue] of Object.entries(fallback)) {
+      result[key] = mergeValue(
+        value[key],
+        fallbackValue,
+        path ? `${path}.${key}` : key,
+        errors
+      );
+    }
+    return result;
+  }
+
+  if (typeof fallback === 'number') {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${path}: expected a number, got ${describe(value)}`);
+      return fallback;
+    }
+    validateNumber(value, path, errors);
+    return value;
+  }
+
+  if (typeof value !== typeof fallback) {
+    errors.push(`${path}: expected a ${typeof fallback}, got ${describe(value)}`);
+    return fallback;
+  }
+  const rule = typeof value === 'string' ? getStringRule(getRulePath(path)) : undefined;
+  if (rule && !rule.test(value as string)) {
+    errors.push(`${path}: expected ${rule.description}, got ${describe(value)}`);
+  }
+  return value;
+}
+
+/** Checks that depend on the type of a source, and that there is something to draw */
+function validateIconSources(symbols: Config['symbols'], errors: string[]): void {
+  symbols.sources.forEach((source, i) => {
+    const path = `symbols.sources[${i}]`;
+    if (source.type === 'font') {
+      if (!source.fontFamily) {
+        errors.push(`${path}.fontFamily: font sources need a font family`);
+      }
+      source.icons.forEach((icon, j) => {
+        if (!isHexCodepoint(icon)) {
+          errors.push(
+            `${path}.icons[${j}]: expected a hex codepoint like "f0ca", got ${describe(icon)}`
+          );
+        }
+      });
+    } else if (source.type === 'svg') {
+      source.icons.forEach((icon, j) => {
+        if (!/<svg[\s>]/i.test(icon)) {
+          errors.push(`${path}.icons[${j}]: expected SVG markup`);
+        }
+      });
+    }
+  });
+  const iconCount =
+    symbols.list.length +
+    symbols.sources.reduce((sum, source) => sum + source.icons.length, 0);
+  if (iconCount === 0) {
+    errors.push('symbols: needs at least one icon in "list" or "sources"');
+  }
+}
+
+/** Checks that need the whole layer stack */
+function validateLayers(config: Config, errors: string[]): void {
+  const mainLayers = config.layers.filter((layer) => layer.type === 'main').length;
+  if (mainLayers !== 1) {
+    errors.push(`layers: needs exactly one layer of type "main", got ${mainLayers}`);
+  }
+  config.layers.forEach((layer, i) => {
+    const overrides = layer.config as Record<string, Record<string, unknown> | undefined>;
+    for (const field of SHARED_LAYER_FIELDS) {
+      const [section, key] = field.split('.');
+      if (key ? overrides[section]?.[key] !== undefined : overrides[section] !== undefined) {
+        errors.push(`layers[${i}].config.${field}: cannot be set per layer`);
+      }
+    }
+    if (layer.type !== 'grid' && Object.keys(overrides).length > 0) {
+      errors.push(`layers[${i}].config: only layers of type "grid" have own settings`);
+    }
+    const list = layer.config.symbols?.list;
+    const sourceIcons = config.symbols.sources.some((source) => source.icons.length > 0);
+    if (list && list.length === 0 && !sourceIcons) {
+      errors.push(`layers[${i}].config.symbols.list: needs at least one icon`);
+    }
+  });
+}
+
+/**
+ * Validates a (partial) configuration and fills missing fields from the defaults.
+ * Returns a new object; neither the input nor the defaults are modified.
+ * @throws ConfigValidationError if any field has the wrong type or range
+ */
+export function validateConfig(input: unknown, defaults: Config = CONFIG): Config {
+  const errors: string[] = [];
+  const config = mergeValue(input ?? {}, defaults, '', errors) as Config;
+  if (errors.length === 0) {
+    validateIconSources(config.symbols, errors);
+    validateLayers(config, errors);
+  }
+  if (errors.length > 0) {
+    throw new ConfigValidationError(errors);
+  }
+  return config;
+}
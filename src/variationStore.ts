@@ -0,0 +1,71 @@
+/**
+ * Saved variations of the gallery, kept in the browser's IndexedDB.
+ * A variation stores the serialized settings (see settings.ts) and a
+ * small thumbnail, so the gallery can be shown without rendering anything.
+ */
+
+const DATABASE_NAME = 'hintergrund';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'variations';
+
+export interface Variation {
+  /** Assigned by the database when the variation is saved */
+  id: number;
+  /** Serialized settings, restored with parseSettings */
+  settings: string;
+  thumbnail: Blob;
+  /** Time of saving, in milliseconds since 1970 */
+  created: number;
+}
+
+/** Turns a request into a promise of its result */
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.addEventListener('success', () => resolve(request.result));
+    request.addEventListener('error', () => reject(request.error));
+  });
+}
+
+export class VariationStore {
+  /** Opened on first use */
+  private database: Promise<IDBDatabase> | null = null;
+
+  public async add(variation: Omit<Variation, 'id'>): Promise<number> {
+    const store = await this.getStore('readwrite');
+    return (await toPromise(store.add(variation))) as number;
+  }
+
+  /** All saved variations, newest first */
+  public async list(): Promise<Variation[]> {
+    const store = await this.getStore('readonly');
+    const variations = (await toPromise(store.getAll())) as Variation[];
+    return variations.sort((a, b) => b.created - a.created);
+  }
+
+  public async delete(id: number): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await toPromise(store.delete(id));
+  }
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    this.database ??= this.open();
+    const database = await this.database;
+    return database.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.reject(new Error('This browser cannot store variations.'));
+    }
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.addEventListener('upgradeneeded', () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+    });
+    const database = toPromise(request);
+    // A failed open is retried on the next call
+    database.catch(() => {
+      this.database = null;
+    });
+    return database;
+  }
+}
@@ -0,0 +1,436 @@
+import { isAnimated } from './animation';
+import { BrowserRasters, createOffscreenCanvas } from './browserRasters';
+import type { Config } from './config';
+import { renderPngInWorker } from './exportRenderer';
+import { loadIconFont } from './iconFont';
+import { createLayerModels, generateLayerGrids, getLayerFrames } from './layers';
+import { WallpaperModel } from './model';
+import { createSeed } from './random';
+import { reframe } from './reframe';
+import { drawContent } from './render';
+import { createSvg } from './svg';
+import type { Grid } from './types';
+import { validateConfig } from './validate';
+
+/**
+ * The wallpaper as an embeddable component, without the settings panel.
+ * Given a canvas, it draws the wallpaper in config.canvasSize. Given any
+ * other element, it runs as a live background: a canvas of its own fills
+ * the element, and the grid flows into every new size of it while the
+ * clusters of the composition stay where they are (see reframe.ts).
+ */
+
+/** Settings in which every field may be left out, down to the entries of lists */
+export type PartialConfig = DeepPartial<Config>;
+
+type DeepPartial<T> = T extends (infer Item)[]
+  ? DeepPartial<Item>[]
+  : T extends object
+    ? { [Key in keyof T]?: DeepPartial<T[Key]> }
+    : T;
+
+export type ColorSchemeName = 'light' | 'dark';
+
+export interface WallpaperOptions {
+  /** Seed of the layout; a new random one if left out */
+  seed?: number;
+  /**
+   * Plays config.animation in a loop (default true). Users who prefer
+   * reduced motion always get the still image
+   */
+  animate?: boolean;
+  /** Colors that replace config.colors while the page prefers a light or dark color scheme */
+  colorSchemes?: Partial<Record<ColorSchemeName, Partial<Config['colors']>>>;
+}
+
+export interface WallpaperHandle {
+  /** The drawn canvas; created inside the element in the background mode */
+  readonly canvas: HTMLCanvasElement;
+  /** Resolves once the icon font is loaded and the wallpaper is drawn for the first time */
+  readonly ready: Promise<void>;
+  /** A copy of the current settings, with the size and colors that are drawn */
+  getConfig(): Config;
+  getSeed(): number;
+  /** Generates a new layout; with a new random seed unless one is given */
+  regenerate(seed?: number): void;
+  /**
+   * Changes some settings and keeps the rest; the seed stays the same.
+   * @throws ConfigValidationError if a field has the wrong type or range
+   */
+  update(config: PartialConfig): void;
+  /**
+   * Renders a PNG at the given scale (default config.canvasSize.exportScale);
+   * waits for 'ready' first
+   */
+  toBlob(scale?: number): Promise<Blob>;
+  /**
+   * The wallpaper as an SVG document
+   * @throws Error if called before 'ready' resolved
+   */
+  toSVG(): string;
+  /** Stops playback and size tracking; a created canvas is removed again */
+  destroy(): void;
+}
+
+/**
+ * Creates a wallpaper on a canvas or as the background of an element.
+ * Missing settings are filled from the defaults.
+ * @throws ConfigValidationError if a field has the wrong type or range
+ */
+export function createWallpaper(
+  target: HTMLCanvasElement | HTMLElement,
+  config: PartialConfig = {},
+  options: WallpaperOptions = {}
+): WallpaperHandle {
+  return new EmbeddedWallpaper(target, config, options);
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+class EmbeddedWallpaper implements WallpaperHandle {
+  public readonly canvas: HTMLCanvasElement;
+  public readonly ready: Promise<void>;
+  private ctx: CanvasRenderingContext2D;
+  private options: WallpaperOptions;
+  /** Settings as given, before the color scheme and the size of the element are applied */
+  private settings: Config;
+  /** Settings of the drawn wallpaper */
+  private config: Config;
+  private seed: number;
+  private model: WallpaperModel;
+  /** The generated composition, fitted to later sizes of the element */
+  private composition: { config: Config; model: WallpaperModel } | null = null;
+  /** Size the composition is generated in; follows the element until the next re-roll */
+  private compositionSize: Size;
+  /** Still grids of all layers by index */
+  private layerGrids: Grid[] = [];
+  /** Models of the further grid layers while the animation plays */
+  private layerModels: (WallpaperModel | null)[] | null = null;
+  /** Element filled in the background mode; null for a given canvas */
+  private container: HTMLElement | null = null;
+  /** Inline styles of the element before the background was added, restored by destroy */
+  private containerStyle: { position: string; isolation: string } | null = null;
+  private resizeObserver: ResizeObserver | null = null;
+  private darkSchemeQuery = window.matchMedia('(prefers-color-scheme: dark)');
+  private reducedMotionQuery = window.matchMedia('(prefers-reduced-motion: reduce)');
+  /** Set once the icon font is loaded; nothing is drawn before */
+  private started = false;
+  private destroyed = false;
+  /** Position in the loop, from 0 to 1 */
+  private time = 0;
+  /** Id of the pending animation frame while playing, null while the still image is shown */
+  private frameRequest: number | null = null;
+  private lastTimestamp: number | null = null;
+  /** Mask and icon atlas; the composition is generated again or redrawn once they are ready */
+  private rasters = new BrowserRasters(
+    () => this.generate(),
+    () => this.draw()
+  );
+
+  constructor(
+    target: HTMLCanvasElement | HTMLElement,
+    config: PartialConfig,
+    options: WallpaperOptions
+  ) {
+    this.settings = validateConfig(config);
+    // Only checked here; the schemes are applied on top of the current settings
+    for (const colors of Object.values(options.colorSchemes ?? {})) {
+      validateConfig({ colors }, this.settings);
+    }
+    this.options = options;
+    this.seed = options.seed ?? createSeed();
+
+    if (target instanceof HTMLCanvasElement) {
+      this.canvas = target;
+    } else {
+      this.container = target;
+      this.canvas = this.createBackgroundCanvas(target);
+    }
+    this.ctx = this.canvas.getContext('2d')!;
+    this.compositionSize = this.getSize();
+    this.config = this.getConfigForSize(this.compositionSize);
+    this.model = new WallpaperModel(this.config);
+    this.ready = this.start();
+  }
+
+  public getConfig(): Config {
+    return structuredClone(this.config);
+  }
+
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  public regenerate(seed: number = createSeed()): void {
+    this.seed = seed;
+    this.compositionSize = this.getSize();
+    this.generate();
+  }
+
+  public update(config: PartialConfig): void {
+    this.settings = validateConfig(config, this.settings);
+    if (!this.container) {
+      this.compositionSize = this.getSize();
+    }
+    this.generate();
+  }
+
+  public async toBlob(scale?: number): Promise<Blob> {
+    // Nothing is generated before the icon font is loaded
+    await this.ready;
+    const { width, height, exportScale } = this.config.canvasSize;
+    return renderPngInWorker(
+      {
+        grids: this.layerGrids,
+        config: this.config,
+        width,
+        height,
+        offsetX: 0,
+        scale: scale ?? exportScale,
+        iconAtlas: this.rasters.iconAtlasData,
+      },
+      () => {}
+    );
+  }
+
+  public toSVG(): string {
+    if (!this.started) {
+      throw new Error('The wallpaper is not generated yet. Await its ready promise first.');
+    }
+    const { width, height } = this.config.canvasSize;
+    return createSvg(this.layerGrids, this.config, width, height);
+  }
+
+  public destroy(): void {
+    this.destroyed = true;
+    this.rasters.dispose();
+    this.stopPlayback();
+    this.resizeObserver?.disconnect();
+    this.darkSchemeQuery.removeEventListener('change', this.onColorSchemeChange);
+    this.reducedMotionQuery.removeEventListener('change', this.updatePlayback);
+    if (this.container) {
+      this.canvas.remove();
+    }
+    if (this.container && this.containerStyle) {
+      this.container.style.position = this.containerStyle.position;
+      this.container.style.isolation = this.containerStyle.isolation;
+    }
+  }
+
+  private async start(): Promise<void> {
+    try {
+      await loadIconFont(document.fonts);
+    } catch (error) {
+      console.error('Error loading the icon font:', error);
+    }
+    await document.fonts.ready;
+    if (this.destroyed) {
+      return;
+    }
+    this.started = true;
+    this.generate();
+
+    if (this.container) {
+      this.resizeObserver = new ResizeObserver(() => this.onResize());
+      this.resizeObserver.observe(this.canvas);
+    }
+    this.darkSchemeQuery.addEventListener('change', this.onColorSchemeChange);
+    this.reducedMotionQuery.addEventListener('change', this.updatePlayback);
+  }
+
+  /**
+   * The canvas of the background mode. It lies behind the content of the
+   * element, which gets its own stacking context for that; the page body
+   * gets a canvas fixed to the viewport instead.
+   */
+  private createBackgroundCanvas(container: HTMLElement): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.setAttribute('aria-hidden', 'true');
+    const page = container === document.body;
+    Object.assign(canvas.style, {
+      position: page ? 'fixed' : 'absolute',
+      inset: '0',
+      width: '100%',
+      height: '100%',
+      display: 'block',
+      zIndex: '-1',
+      pointerEvents: 'none',
+    });
+    if (!page) {
+      this.containerStyle = {
+        position: container.style.position,
+        isolation: container.style.isolation,
+      };
+      if (getComputedStyle(container).position === 'static') {
+        container.style.position = 'relative';
+      }
+      container.style.isolation = 'isolate';
+    }
+    container.prepend(canvas);
+    return canvas;
+  }
+
+  /** Size of the wallpaper: the size of the element, or config.canvasSize for a canvas */
+  private getSize(): Size {
+    if (!this.container) {
+      const { width, height } = this.settings.canvasSize;
+      return { width, height };
+    }
+    const rect = this.canvas.getBoundingClientRect();
+    return {
+      width: Math.max(1, Math.round(rect.width)),
+      height: Math.max(1, Math.round(rect.height)),
+    };
+  }
+
+  /** The settings with the colors of the preferred color scheme, in the given size */
+  private getConfigForSize({ width, height }: Size): Config {
+    const config = structuredClone(this.settings);
+    const scheme: ColorSchemeName = this.darkSchemeQuery.matches ? 'dark' : 'light';
+    Object.assign(config.colors, structuredClone(this.options.colorSchemes?.[scheme]));
+    config.canvasSize.width = width;
+    config.canvasSize.height = height;
+    return config;
+  }
+
+  /**
+   * Generates the composition in its size with the current seed and fits
+   * it to the current size
+   */
+  private generate(): void {
+    if (!this.started) {
+      return;
+    }
+    this.rasters.updateMask(this.settings.mask);
+    const config = this.getConfigForSize(this.compositionSize);
+    const model = new WallpaperModel(config, this.rasters.mask);
+    model.generate(this.seed);
+    this.composition = { config, model };
+    this.reflow();
+  }
+
+  /**
+   * Fits the composition to the current size: the clusters keep their
+   * place relative to the center and the grid fills the rest, so resizing
+   * doesn't re-roll anything
+   */
+  private reflow(): void {
+    if (!this.composition) {
+      return;
+    }
+    const { width, height } = this.getSize();
+    const { config, model } = this.composition;
+    if (width === config.canvasSize.width && height === config.canvasSize.height) {
+      this.config = config;
+      this.model = model;
+    } else {
+      const reframed = reframe(config, model.clusterCenters, width, height, 'anchor');
+      this.config = reframed.config;
+      this.model = new WallpaperModel(this.config, this.rasters.mask);
+      this.model.generateFromClusters(this.seed, reframed.clusters);
+    }
+    this.setCanvasResolution(width, height);
+    this.layerGrids = generateLayerGrids(this.config, this.seed, this.model.grid);
+    this.layerModels = null;
+    this.rasters.updateIconAtlas(this.config.symbols);
+    this.draw();
+    this.updatePlayback();
+  }
+
+  private onResize(): void {
+    const { width, height } = this.getSize();
+    if (width !== this.config.canvasSize.width || height !== this.config.canvasSize.height) {
+      this.reflow();
+    }
+  }
+
+  /** Applies the colors of the new color scheme without re-rolling the layout */
+  private onColorSchemeChange = (): void => {
+    if (!this.composition) {
+      return;
+    }
+    const { colors } = this.getConfigForSize(this.compositionSize);
+    const { config, model } = this.composition;
+    config.colors = structuredClone(colors);
+    model.recolor();
+    if (this.model !== model) {
+      this.config.colors = colors;
+      this.model.recolor();
+    }
+    this.layerGrids = generateLayerGrids(this.config, this.seed, this.model.grid);
+    this.layerModels = null;
+    this.draw();
+  };
+
+  private setCanvasResolution(width: number, height: number): void {
+    const dpr = window.devicePixelRatio || 1;
+    this.canvas.width = Math.round(width * dpr);
+    this.canvas.height = Math.round(height * dpr);
+    // The background canvas is sized by its element
+    if (!this.container) {
+      this.canvas.style.width = `${width}px`;
+      this.canvas.style.height = `${height}px`;
+    }
+    this.ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  }
+
+  private draw(): void {
+    const grids = this.frameRequest !== null ? this.getFrameGrids() : this.layerGrids;
+    drawContent(
+      this.ctx,
+      grids,
+      this.config,
+      this.config.canvasSize.width,
+      this.config.canvasSize.height,
+      createOffscreenCanvas,
+      this.rasters.iconAtlas
+    );
+  }
+
+  private getFrameGrids(): Grid[] {
+    this.layerModels ??= createLayerModels(this.config, this.seed);
+    return getLayerFrames(this.config, this.model, this.layerModels, this.time);
+  }
+
+  /** Plays the loop if there is one to play and the user doesn't prefer reduced motion */
+  private updatePlayback = (): void => {
+    const play =
+      this.started &&
+      !this.destroyed &&
+      this.options.animate !== false &&
+      isAnimated(this.config.animation) &&
+      !this.reducedMotionQuery.matches;
+    if (play && this.frameRequest === null) {
+      this.lastTimestamp = null;
+      this.frameRequest = requestAnimationFrame(this.tick);
+    } else if (!play && this.frameRequest !== null) {
+      this.stopPlayback();
+      this.draw();
+    }
+  };
+
+  private stopPlayback(): void {
+    if (this.frameRequest !== null) {
+      cancelAnimationFrame(this.frameRequest);
+      this.frameRequest = null;
+    }
+  }
+
+  /** Draws the next frame, at most config.animation.fps times per second */
+  private tick = (timestamp: number): void => {
+    this.frameRequest = requestAnimationFrame(this.tick);
+    const { duration, fps } = this.config.animation;
+    if (this.lastTimestamp !== null) {
+      const elapsed = (timestamp - this.lastTimestamp) / 1000;
+      if (elapsed < 1 / fps) {
+        return;
+      }
+      this.time = (this.time + elapsed / duration) % 1;
+    }
+    this.lastTimestamp = timestamp;
+    this.draw();
+  };
+}
@@ -0,0 +1,337 @@
+import type { Config, ExclusionZone } from './config';
+import type { Point } from './geometry';
+import { DEFAULT_ZONE, getZoneRect, ZONE_PRESETS } from './zones';
+
+/** Side of the resize handle at the bottom right corner, in screen pixels */
+const HANDLE_SIZE = 10;
+/** Drawn zones smaller than this (in screen pixels) are dropped as accidental clicks */
+const MIN_ZONE_SIZE = 8;
+
+/** What the pointer currently does with the selected zone */
+type DragMode = 'create' | 'move' | 'resize';
+
+/**
+ * Exclusion zones on the preview canvas and in the settings panel.
+ * Dragging on an empty spot draws a zone, dragging a zone moves it and
+ * its bottom right corner resizes it. Presets add the safe areas of
+ * common desktops and phones. Edits config.zones directly; 'onChange'
+ * receives true once the grid has to be generated again, false while
+ * only the overlay changes.
+ */
+export class ZoneEditor {
+  private canvas: HTMLCanvasElement;
+  private config: Config;
+  private onChange: (regenerate: boolean) => void;
+  private zoneList: HTMLDivElement;
+  private editZonesInput: HTMLInputElement;
+  private enabled = false;
+  private selectedIndex = -1;
+  private drag: { mode: DragMode; start: Point; zone: ExclusionZone } | null = null;
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    config: Config,
+    onChange: (regenerate: boolean) => void
+  ) {
+    this.canvas = canvas;
+    this.config = config;
+    this.onChange = onChange;
+    this.zoneList = document.getElementById('zoneList') as HTMLDivElement;
+    this.editZonesInput = document.getElementById('editZones') as HTMLInputElement;
+
+    const editClustersInput = document.getElementById('editClusters') as HTMLInputElement;
+    const presetSelect = document.getElementById('zonePreset') as HTMLSelectElement;
+    const addPresetButton = document.getElementById('addZonePreset') as HTMLButtonElement;
+
+    // Zones and clusters both listen to the canvas, so only one can be edited at a time
+    this.editZonesInput.addEventListener('change', () => {
+      if (this.editZonesInput.checked && editClustersInput.checked) {
+        editClustersInput.checked = false;
+        editClustersInput.dispatchEvent(new Event('change'));
+      }
+      this.setEnabled(this.editZonesInput.checked);
+    });
+    editClustersInput.addEventListener('change', () => {
+      if (editClustersInput.checked && this.enabled) {
+        this.editZonesInput.checked = false;
+        this.setEnabled(false);
+      }
+    });
+
+    for (const [name, preset] of Object.entries(ZONE_PRESETS)) {
+      presetSelect.add(new Option(preset.label, name));
+    }
+    addPresetButton.addEventListener('click', () => {
+      const preset = ZONE_PRESETS[presetSelect.value];
+      if (preset) {
+        this.config.zones.push(...structuredClone(preset.zones));
+        this.changed(true);
+      }
+    });
+
+    this.canvas.addEventListener('pointerdown', this.onPointerDown);
+    this.canvas.addEventListener('pointermove', this.onPointerMove);
+    this.canvas.addEventListener('pointerup', this.onPointerUp);
+    this.canvas.addEventListener('pointercancel', this.onPointerUp);
+    window.addEventListener('keydown', this.onKeyDown);
+
+    this.update();
+  }
+
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /** Writes the current zones into the panel, e.g. after settings were imported */
+  public update(): void {
+    if (this.selectedIndex >= this.config.zones.length) {
+      this.selectedIndex = -1;
+    }
+    this.zoneList.replaceChildren(
+      ...this.config.zones.map((zone, i) => this.createZoneRow(zone, i))
+    );
+  }
+
+  /** Draws the zones on top of the preview; the selected one with its resize handle */
+  public drawOverlay(ctx: CanvasRenderingContext2D): void {
+    const scale = this.getCanvasScale();
+    ctx.save();
+    ctx.font = `${12 * scale}px sans-serif`;
+    ctx.textBaseline = 'top';
+    this.config.zones.forEach((zone, i) => {
+      const { x, y, width, height } = getZoneRect(zone, this.config.canvasSize);
+      const selected = i === this.selectedIndex;
+      ctx.fillStyle = selected ? 'rgba(255, 255, 255, 0.2)' : 'rgba(255, 255, 255, 0.1)';
+      ctx.fillRect(x, y, width, height);
+      ctx.lineWidth = (selected ? 2 : 1) * scale;
+      ctx.setLineDash(selected ? [] : [6 * scale, 4 * scale]);
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+      ctx.strokeRect(x, y, width, height);
+      if (zone.name) {
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+        ctx.fillText(zone.name, x + 4 * scale, y + 4 * scale, Math.max(0, width - 8 * scale));
+      }
+      if (selected) {
+        const handle = HANDLE_SIZE * scale;
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(x + width - handle / 2, y + height - handle / 2, handle, handle);
+      }
+    });
+    ctx.restore();
+  }
+
+  private setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    this.canvas.classList.toggle('editing-zones', enabled);
+    this.select(-1);
+    this.onChange(false);
+  }
+
+  private changed(regenerate: boolean): void {
+    this.update();
+    this.onChange(regenerate);
+  }
+
+  private select(index: number): void {
+    this.selectedIndex = index;
+    this.zoneList.querySelectorAll('.zone').forEach((row, i) => {
+      row.classList.toggle('selected', i === index);
+    });
+  }
+
+  /** Canvas units per screen pixel (the preview is scaled down by CSS) */
+  private getCanvasScale(): number {
+    const rect = this.canvas.getBoundingClientRect();
+    return rect.width > 0 ? this.config.canvasSize.width / rect.width : 1;
+  }
+
+  /** Pointer position as share of the canvas, like the zones */
+  private toCanvasShare(event: PointerEvent): Point {
+    const rect = this.canvas.getBoundingClientRect();
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    return {
+      x: clamp((event.clientX - rect.left) / rect.width),
+      y: clamp((event.clientY - rect.top) / rect.height),
+    };
+  }
+
+  /** The topmost zone at the point and whether the point is on its resize handle */
+  private findZoneAt(point: Point): { index: number; onHandle: boolean } | null {
+    const rect = this.canvas.getBoundingClientRect();
+    const handleX = HANDLE_SIZE / Math.max(1, rect.width);
+    const handleY = HANDLE_SIZE / Math.max(1, rect.height);
+    for (let i = this.config.zones.length - 1; i >= 0; i--) {
+      const zone = this.config.zones[i];
+      const right = zone.x + zone.width;
+      const bottom = zone.y + zone.height;
+      const onHandle =
+        Math.abs(point.x - right) <= handleX && Math.abs(point.y - bottom) <= handleY;
+      const inside =
+        point.x >= zone.x && point.x <= right && point.y >= zone.y && point.y <= bottom;
+      if (onHandle || inside) {
+        return { index: i, onHandle };
+      }
+    }
+    return null;
+  }
+
+  private onPointerDown = (event: PointerEvent): void => {
+    if (!this.enabled || event.button !== 0) {
+      return;
+    }
+    const point = this.toCanvasShare(event);
+    const hit = this.findZoneAt(point);
+    if (hit) {
+      const zone = this.config.zones[hit.index];
+      this.drag = { mode: hit.onHandle ? 'resize' : 'move', start: point, zone: { ...zone } };
+      this.select(hit.index);
+    } else {
+      const zone: ExclusionZone = {
+        ...DEFAULT_ZONE,
+        name: `Zone ${this.config.zones.length + 1}`,
+        x: point.x,
+        y: point.y,
+        width: 0,
+        height: 0,
+      };
+      this.config.zones.push(zone);
+      this.drag = { mode: 'create', start: point, zone: { ...zone } };
+      this.update();
+      this.select(this.config.zones.length - 1);
+    }
+    this.canvas.setPointerCapture(event.pointerId);
+    this.onChange(false);
+  };
+
+  private onPointerMove = (event: PointerEvent): void => {
+    if (!this.drag || this.selectedIndex < 0) {
+      return;
+    }
+    const point = this.toCanvasShare(event);
+    const zone = this.config.zones[this.selectedIndex];
+    const { mode, start, zone: original } = this.drag;
+    const dx = point.x - start.x;
+    const dy = point.y - start.y;
+    if (mode === 'create') {
+      zone.x = Math.min(start.x, point.x);
+      zone.y = Math.min(start.y, point.y);
+      zone.width = Math.abs(dx);
+      zone.height = Math.abs(dy);
+    } else if (mode === 'move') {
+      zone.x = Math.min(1 - original.width, Math.max(0, original.x + dx));
+      zone.y = Math.min(1 - original.height, Math.max(0, original.y + dy));
+    } else {
+      zone.width = Math.max(0, Math.min(1 - original.x, original.width + dx));
+      zone.height = Math.max(0, Math.min(1 - original.y, original.height + dy));
+    }
+    this.onChange(false);
+  };
+
+  private onPointerUp = (): void => {
+    if (!this.drag) {
+      return;
+    }
+    const { mode, zone: original } = this.drag;
+    this.drag = null;
+    const zone = this.config.zones[this.selectedIndex];
+    if (!zone) {
+      return;
+    }
+    const rect = this.canvas.getBoundingClientRect();
+    const tooSmall =
+      zone.width * rect.width < MIN_ZONE_SIZE || zone.height * rect.height < MIN_ZONE_SIZE;
+    if (mode === 'create' && tooSmall) {
+      this.config.zones.splice(this.selectedIndex, 1);
+      this.selectedIndex = -1;
+      this.changed(false);
+      return;
+    }
+    const moved =
+      zone.x !== original.x ||
+      zone.y !== original.y ||
+      zone.width !== original.width ||
+      zone.height !== original.height;
+    if (moved) {
+      this.changed(true);
+    }
+  };
+
+  private onKeyDown = (event: KeyboardEvent): void => {
+    const target = event.target as HTMLElement | null;
+    const isTyping = ['INPUT', 'SELECT', 'TEXTAREA'].includes(target?.tagName ?? '');
+    if (
+      this.enabled &&
+      !isTyping &&
+      this.selectedIndex >= 0 &&
+      (event.key === 'Delete' || event.key === 'Backspace')
+    ) {
+      event.preventDefault();
+      this.remove(this.selectedIndex);
+    }
+  };
+
+  private remove(index: number): void {
+    this.config.zones.splice(index, 1);
+    this.selectedIndex = -1;
+    this.changed(true);
+  }
+
+  /** Name, density and opacity of a zone; position and size are drawn on the canvas */
+  private createZoneRow(zone: ExclusionZone, index: number): HTMLDivElement {
+    const row = document.createElement('div');
+    row.className = 'zone';
+    row.classList.toggle('selected', index === this.selectedIndex);
+    row.addEventListener('click', () => {
+      if (this.enabled) {
+        this.select(index);
+        this.onChange(false);
+      }
+    });
+
+    const name = document.createElement('input');
+    name.type = 'text';
+    name.value = zone.name;
+    name.placeholder = `Zone ${index + 1}`;
+    name.addEventListener('change', () => {
+      zone.name = name.value.trim();
+      this.onChange(false);
+    });
+
+    const percentInput = (title: string, value: number, apply: (value: number) => void) => {
+      const input = document.createElement('input');
+      input.type = 'number';
+      input.min = '0';
+      input.max = '100';
+      input.step = '5';
+      input.title = title;
+      input.value = String(Math.round(value * 100));
+      input.addEventListener('change', () => {
+        const percent = parseFloat(input.value);
+        if (Number.isFinite(percent)) {
+          apply(Math.min(100, Math.max(0, percent)) / 100);
+          this.changed(true);
+        } else {
+          input.value = String(Math.round(value * 100));
+        }
+      });
+      return input;
+    };
+
+    const remove = document.createElement('button');
+    remove.type = 'button';
+    remove.textContent = '✕';
+    remove.title = 'Remove zone';
+    remove.addEventListener('click', (event) => {
+      event.stopPropagation();
+      this.remove(index);
+    });
+
+    row.append(
+      name,
+      percentInput('Symbols kept (%)', zone.density, (value) => (zone.density = value)),
+      percentInput('Opacity (%)', zone.opacity, (value) => (zone.opacity = value)),
+      remove
+    );
+    return row;
+  }
+}
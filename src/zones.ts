@@ -0,0 +1,115 @@
+import type { Config, ExclusionZone } from './config';
+import type { Point } from './geometry';
+
+/**
+ * Exclusion zones (config.zones): calm areas for desktop icons, taskbars,
+ * menu bars or the clock of a lock screen. No cluster center is placed in
+ * a zone, and symbols in it are thinned out and dimmed. Zones are stored
+ * as share of the canvas, so they follow every canvas size.
+ */
+
+/** Template of a new zone; also the schema of 'zones' entries in validate.ts */
+export const DEFAULT_ZONE: ExclusionZone = {
+  name: '',
+  x: 0,
+  y: 0,
+  width: 0.2,
+  height: 0.2,
+  density: 0.2,
+  opacity: 0.5,
+};
+
+export interface ZonePreset {
+  label: string;
+  zones: ExclusionZone[];
+}
+
+function zone(name: string, x: number, y: number, width: number, height: number): ExclusionZone {
+  return { ...DEFAULT_ZONE, name, x, y, width, height };
+}
+
+/**
+ * Typical safe areas. The sizes are measured on common screens
+ * (1920×1080 at 100 % for the desktops, 1170×2532 for the phones).
+ */
+export const ZONE_PRESETS: Record<string, ZonePreset> = {
+  'windows-taskbar': {
+    label: 'Windows taskbar',
+    zones: [zone('Taskbar', 0, 0.955, 1, 0.045)],
+  },
+  'windows-icons': {
+    label: 'Windows desktop icons',
+    zones: [zone('Desktop icons', 0, 0, 0.06, 0.955)],
+  },
+  'macos-menu-bar': {
+    label: 'macOS menu bar',
+    zones: [zone('Menu bar', 0, 0, 1, 0.025)],
+  },
+  'macos-dock': {
+    label: 'macOS dock',
+    zones: [zone('Dock', 0.2, 0.91, 0.6, 0.09)],
+  },
+  'ios-lock-screen': {
+    label: 'iPhone lock screen',
+    zones: [
+      zone('Status bar and Dynamic Island', 0, 0, 1, 0.06),
+      zone('Clock', 0.1, 0.08, 0.8, 0.17),
+      zone('Flashlight, camera and home indicator', 0, 0.87, 1, 0.13),
+    ],
+  },
+  'android-lock-screen': {
+    label: 'Android lock screen',
+    zones: [
+      zone('Status bar', 0, 0, 1, 0.04),
+      zone('Clock', 0.05, 0.08, 0.9, 0.22),
+      zone('Shortcuts', 0, 0.88, 1, 0.12),
+    ],
+  },
+};
+
+/** The zone in canvas pixels */
+export function getZoneRect(
+  zone: ExclusionZone,
+  canvasSize: Config['canvasSize']
+): { x: number; y: number; width: number; height: number } {
+  return {
+    x: zone.x * canvasSize.width,
+    y: zone.y * canvasSize.height,
+    width: zone.width * canvasSize.width,
+    height: zone.height * canvasSize.height,
+  };
+}
+
+/** Whether the canvas point lies in the zone */
+export function isInZone(
+  zone: ExclusionZone,
+  canvasSize: Config['canvasSize'],
+  point: Point
+): boolean {
+  const rect = getZoneRect(zone, canvasSize);
+  return (
+    point.x >= rect.x &&
+    point.x < rect.x + rect.width &&
+    point.y >= rect.y &&
+    point.y < rect.y + rect.height
+  );
+}
+
+/**
+ * Density and opacity factors at a point; where zones overlap, the
+ * calmer values count. Null outside all zones.
+ */
+export function getZoneEffect(
+  zones: ExclusionZone[],
+  canvasSize: Config['canvasSize'],
+  point: Point
+): { density: number; opacity: number } | null {
+  const inside = zones.filter((zone) => isInZone(zone, canvasSize, point));
+  if (inside.length === 0) {
+    return null;
+  }
+  return {
+    density: Math.min(...inside.map((zone) => zone.density)),
+    opacity: Math.min(...inside.map((zone) => zone.opacity)),
+  };
+}
@@ -0,0 +1,19 @@
+import { defineConfig } from 'vite';
+
+/**
+ * Library build of the embeddable wallpaper (src/lib.ts) as one ES module.
+ * Dependencies and the icon font are bundled, so sites can load it without
+ * a build step of their own.
+ */
+export default defineConfig({
+  // The worker of the PNG export is found next to the module, wherever it is served from
+  base: './',
+  build: {
+    outDir: 'dist/lib',
+    lib: {
+      entry: 'src/lib.ts',
+      formats: ['es'],
+      fileName: 'hintergrund',
+    },
+  },
+});